@@ -1,8 +1,169 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, type RefObject } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import './App.css';
+import RouteLibrary from './RouteLibrary';
+import DirectionsPanel from './DirectionsPanel';
+import ListenerPreferencesPanel from './ListenerPreferencesPanel';
+import WalkHistory from './WalkHistory';
+import WalkReplay from './WalkReplay';
+import ElevationProfile from './ElevationProfile';
+import WalkStatistics from './WalkStatistics';
+import WalkSummary from './WalkSummary';
+import Notifications from './Notifications';
+import type { AIResponse, AppNotification, Coordinate, NotificationLevel, TrackPoint } from './types';
+import { calculateRouteDistance, formatDistance, formatDuration } from './geo';
+import { parseRouteFile } from './routeFiles';
+import {
+  DEFAULT_ROUTING_SETTINGS,
+  ROUTING_PROVIDER_LABELS,
+  createRoutingProvider,
+  routeWaypoints,
+  stitchRouteLegs,
+  type RouteLeg,
+  type RoutingProviderId,
+  type RoutingSettings
+} from './routing';
+import {
+  EMPTY_ROUTE,
+  EMPTY_ROUTE_HISTORY,
+  applyRouteEdit,
+  pushRouteHistory,
+  type EditableRoute,
+  type RouteEdit,
+  type RouteHistory
+} from './routeEditor';
+import {
+  downloadExport,
+  routeToGeoJson,
+  routeToGpx,
+  walkToGeoJson,
+  walkToGpx,
+  type ExportFormat
+} from './routeExport';
+import {
+  createSavedRoute,
+  describeRouteSource,
+  updateSavedRouteTranscript,
+  type RouteSource,
+  type SavedRoute
+} from './routeLibrary';
+import {
+  WalkSimulator,
+  createRouteIndex,
+  SIMULATION_SPEEDS,
+  getNextWalkingState,
+  locateOnRoute,
+  type RoutePosition,
+  type WalkAction,
+  type WalkingState,
+  type WalkSimulatorEvent
+} from './walkSimulator';
+import {
+  DEFAULT_OFF_ROUTE_THRESHOLD,
+  LiveTracker,
+  createGeolocationSource,
+  createTraceReplaySource,
+  parseGpsTrace,
+  snapToRoute,
+  type GpsFix,
+  type LiveTrackerEvent,
+  type LiveTrackerUpdate,
+  type PositionSource
+} from './liveTracker';
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  SpeechQueue,
+  isSpeechSupported,
+  type SpeechQueueStatus,
+  type SpeechSettings
+} from './speechQueue';
+import {
+  DEFAULT_NARRATION_TRIGGER_SETTINGS,
+  NarrationTriggerEngine,
+  describeNarrationSettings,
+  describeNarrationTrigger,
+  type NarrationTrigger,
+  type NarrationTriggerReason,
+  type NarrationTriggerSettings
+} from './narrationTriggers';
+import {
+  DEFAULT_NARRATION_SETTINGS,
+  NARRATION_PROVIDER_LABELS,
+  createNarrationProvider,
+  isAbortError,
+  type NarrationCall,
+  type NarrationProviderId,
+  type NarrationRequest,
+  type NarrationSettings
+} from './narrationProviders';
+import {
+  INITIAL_NARRATOR_HEALTH,
+  describeNarratorHealth,
+  narrateWithRetries,
+  type NarratorHealth
+} from './narrationRequests';
+import {
+  MIN_PREFETCH_LEAD,
+  NarrationPrefetcher,
+  getPrefetchLeadTime,
+  type NarrationPrediction,
+  type NarrationPrefetcherStatus,
+  type PrefetchedNarration,
+  type PrefetchResult
+} from './narrationPrefetch';
+import { buildWalkContext } from './walkContext';
+import { computeWalkStats, computeWalkSummary } from './walkStats';
+import {
+  LANGUAGE_LABELS,
+  LANGUAGE_SPEECH_TAGS,
+  UI_STRINGS,
+  isVoiceForLanguage,
+  type Language
+} from './i18n';
+import { buildManeuvers } from './maneuvers';
+import { loadListenerPreferences, saveListenerPreferences, type ListenerPreferences } from './listenerPreferences';
+import {
+  DEFAULT_POI_SETTINGS,
+  POI_PROVIDER_LABELS,
+  PoiCache,
+  createPoiProvider,
+  isPoiMentioned,
+  type PoiProviderId,
+  type PoiSettings,
+  type NearbyPoi,
+  type PointOfInterest
+} from './pois';
+import {
+  createWalkSession,
+  findResumableWalkSession,
+  saveWalkSessionProgress,
+  type WalkMode,
+  type WalkSession
+} from './walkSessions';
+import {
+  DEFAULT_ELEVATION_SETTINGS,
+  ELEVATION_PROVIDER_LABELS,
+  PACE_MODELS,
+  addElevations,
+  createElevationProvider,
+  type ElevationProviderId,
+  type ElevationSettings,
+  type PaceModel
+} from './elevation';
+import {
+  EMPTY_WALK_RECORDING,
+  ReplayPlayer,
+  addRecordedNarration,
+  addRecordedTick,
+  getNarrationAt,
+  getTickAt,
+  type RecordedNarration,
+  type ReplayPlayerStatus,
+  type WalkRecording,
+  type WalkTick
+} from './walkRecording';
 
 // Fix for default markers in react-leaflet
 delete (L.Icon.Default.prototype as unknown as Record<string, unknown>)._getIconUrl;
@@ -12,16 +173,6 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-interface Coordinate {
-  lng: number;
-  lat: number;
-}
-
-interface AIResponse {
-  timestamp: string;
-  message: string;
-}
-
 // Custom marker icons
 const createCustomIcon = (color: string) => {
   return L.divIcon({
@@ -35,6 +186,18 @@ const createCustomIcon = (color: string) => {
 const startIcon = createCustomIcon('#4CAF50');
 const endIcon = createCustomIcon('#F44336');
 const currentIcon = createCustomIcon('#2196F3');
+const viaIcon = createCustomIcon('#FF9800');
+const gpsIcon = createCustomIcon('#9E9E9E');
+const poiIcon = createCustomIcon('#9C27B0');
+const mentionedPoiIcon = createCustomIcon('#CE93D8');
+const replayIcon = createCustomIcon('#00BCD4');
+const elevationHoverIcon = createCustomIcon('#795548');
+const narrationPointIcon = L.divIcon({
+  className: 'narration-point-marker',
+  html: '<div style="background-color: #00BCD4; width: 10px; height: 10px; border-radius: 50%; border: 2px solid white; box-shadow: 0 1px 3px rgba(0,0,0,0.3);"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5]
+});
 
 // Component to handle map clicks
 function MapClickHandler({ 
@@ -63,16 +226,117 @@ function MapClickHandler({
   return null;
 }
 
-// Walking state enum
-type WalkingState = 'stopped' | 'walking' | 'paused';
+// Route leg that inserts a via point when its line is dragged
+function DraggableRouteLeg({
+  positions,
+  color,
+  dashArray,
+  isEditable,
+  suppressMapClickRef,
+  onDragInsert,
+  onClick
+}: {
+  positions: [number, number][];
+  color: string;
+  dashArray?: string;
+  isEditable: boolean;
+  suppressMapClickRef: RefObject<boolean>;
+  onDragInsert: (coordinate: Coordinate) => void;
+  // Plain clicks on the line while it isn't being edited
+  onClick: (coordinate: Coordinate) => void;
+}) {
+  const map = useMap();
+  const [dragPosition, setDragPosition] = useState<L.LatLng | null>(null);
+
+  const handleMouseDown = (event: L.LeafletMouseEvent) => {
+    if (!isEditable) return;
+
+    map.dragging.disable();
+    const startPoint = event.containerPoint;
+    let latestPosition = event.latlng;
+
+    const handleMouseMove = (moveEvent: L.LeafletMouseEvent) => {
+      latestPosition = moveEvent.latlng;
+      setDragPosition(moveEvent.latlng);
+    };
+
+    const handleMouseUp = (upEvent: L.LeafletMouseEvent) => {
+      map.off('mousemove', handleMouseMove);
+      map.dragging.enable();
+      setDragPosition(null);
+
+      // Ignore plain clicks on the line, only a real drag inserts a via point
+      if (upEvent.containerPoint.distanceTo(startPoint) > 5) {
+        // The release also fires a map click, which must not add a waypoint
+        suppressMapClickRef.current = true;
+        setTimeout(() => {
+          suppressMapClickRef.current = false;
+        }, 0);
+        onDragInsert({ lat: latestPosition.lat, lng: latestPosition.lng });
+      }
+    };
+
+    map.on('mousemove', handleMouseMove);
+    map.once('mouseup', handleMouseUp);
+  };
+
+  return (
+    <>
+      <Polyline
+        positions={positions}
+        color={color}
+        weight={isEditable ? 5 : 3}
+        opacity={0.7}
+        dashArray={dashArray}
+        bubblingMouseEvents={false}
+        eventHandlers={{
+          mousedown: handleMouseDown,
+          click: (event) => {
+            if (!isEditable) onClick({ lat: event.latlng.lat, lng: event.latlng.lng });
+          }
+        }}
+      />
+      {dragPosition && (
+        <Marker position={dragPosition} icon={viaIcon} interactive={false} />
+      )}
+    </>
+  );
+}
+
+// How the route is being provided
+type RouteInputMethod = 'url' | 'map' | 'file';
+
+// How many narrator requests the preview panel keeps
+const MAX_NARRATION_CALLS = 10;
+
+// How many messages the notification area keeps
+const MAX_NOTIFICATIONS = 5;
+
+// Milliseconds between saves of a walk in progress; pausing or ending it saves straight away
+const SESSION_SAVE_INTERVAL = 5000;
 
 function App() {
   const [routeUrl, setRouteUrl] = useState('');
   const [walkingPace, setWalkingPace] = useState(20);
+  const [paceModel, setPaceModel] = useState<PaceModel>('constant');
+  const [simulationSpeed, setSimulationSpeed] = useState(1);
+  const [isStepMode, setIsStepMode] = useState(false);
+  // Meters into the route the next simulated walk starts from
+  const [startDistance, setStartDistance] = useState(0);
+  const [elevationSettings, setElevationSettings] = useState<ElevationSettings>(DEFAULT_ELEVATION_SETTINGS);
+  const [isLookingUpElevation, setIsLookingUpElevation] = useState(false);
+  const [elevationError, setElevationError] = useState<string | null>(null);
+  const elevationAbortRef = useRef<AbortController | null>(null);
+  const [elevationHoverDistance, setElevationHoverDistance] = useState<number | null>(null);
   const [walkingState, setWalkingState] = useState<WalkingState>('stopped');
   const [coordinates, setCoordinates] = useState<Coordinate[]>([]);
+  const [waypoints, setWaypoints] = useState<Coordinate[]>([]);
+  const [routeLegs, setRouteLegs] = useState<RouteLeg[]>([]);
+  const [routingSettings, setRoutingSettings] = useState<RoutingSettings>(DEFAULT_ROUTING_SETTINGS);
   const [currentCoordinateIndex, setCurrentCoordinateIndex] = useState(0);
+  const [distanceWalked, setDistanceWalked] = useState(0);
   const [aiResponses, setAiResponses] = useState<AIResponse[]>([]);
+  const [walkedTrack, setWalkedTrack] = useState<TrackPoint[]>([]);
   const [currentCoordinate, setCurrentCoordinate] = useState<Coordinate | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number]>([51.505, -0.09]);
   const [mapZoom, setMapZoom] = useState(13);
@@ -80,31 +344,247 @@ function App() {
   const [isValidUrl, setIsValidUrl] = useState(true);
   const [showCoordinates, setShowCoordinates] = useState(false);
   const [showWalkingStatus, setShowWalkingStatus] = useState(false);
-  const [isMapSelectionMode, setIsMapSelectionMode] = useState(false);
-  const [selectedStartPoint, setSelectedStartPoint] = useState<Coordinate | null>(null);
-  const [selectedEndPoint, setSelectedEndPoint] = useState<Coordinate | null>(null);
-  const [mapSelectionStep, setMapSelectionStep] = useState<'start' | 'end'>('start');
-  const walkingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const coordinateIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [routeInputMethod, setRouteInputMethod] = useState<RouteInputMethod>('url');
+  const [routeFileName, setRouteFileName] = useState('');
+  const [routeFileError, setRouteFileError] = useState<string | null>(null);
+  const [routeHistory, setRouteHistory] = useState<RouteHistory>(EMPTY_ROUTE_HISTORY);
+  const [routeSource, setRouteSource] = useState<RouteSource | null>(null);
+  const [activeLibraryRouteId, setActiveLibraryRouteId] = useState<string | null>(null);
+  const [activeLibraryRouteName, setActiveLibraryRouteName] = useState<string | null>(null);
+  const [walkMode, setWalkMode] = useState<WalkMode>('simulated');
+  const [offRouteThreshold, setOffRouteThreshold] = useState(DEFAULT_OFF_ROUTE_THRESHOLD);
+  const [replayTrace, setReplayTrace] = useState<GpsFix[] | null>(null);
+  const [replayTraceName, setReplayTraceName] = useState('');
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [liveUpdate, setLiveUpdate] = useState<LiveTrackerUpdate | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const [speechQueue] = useState(() => new SpeechQueue({ settings: DEFAULT_SPEECH_SETTINGS }));
+  const [isSpeechEnabled, setIsSpeechEnabled] = useState(isSpeechSupported());
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [speechStatus, setSpeechStatus] = useState<SpeechQueueStatus>(speechQueue.getStatus());
+  const [speechVoices, setSpeechVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const isSpeechEnabledRef = useRef<boolean>(isSpeechEnabled);
+  const narrationAbortRef = useRef<AbortController | null>(null);
+  const walkStartTimeRef = useRef<number>(0);
+  // The same start time for rendering the walk statistics
+  const [walkStartTime, setWalkStartTime] = useState(0);
+  const [narrationCalls, setNarrationCalls] = useState<{ id: string; timestamp: string; call: NarrationCall }[]>([]);
+  const [showNarrationCalls, setShowNarrationCalls] = useState(false);
+  const [poiSettings, setPoiSettings] = useState<PoiSettings>(DEFAULT_POI_SETTINGS);
+  const [pois, setPois] = useState<PointOfInterest[]>([]);
+  const [mentionedPoiIds, setMentionedPoiIds] = useState<string[]>([]);
+  const [guideQuestion, setGuideQuestion] = useState('');
+  const [walkSession, setWalkSession] = useState<WalkSession | null>(null);
+  const [resumableSession, setResumableSession] = useState<WalkSession | null>(null);
+  const [walkRecording, setWalkRecording] = useState<WalkRecording>(EMPTY_WALK_RECORDING);
+  const [walkReplay, setWalkReplay] = useState<ReplayPlayer | null>(null);
+  const [walkReplayStatus, setWalkReplayStatus] = useState<ReplayPlayerStatus | null>(null);
+  // Narrator session id of the current walk, read by narrations fired before the next render
+  const walkSessionIdRef = useRef<string | null>(null);
+  // Narrator session for questions asked outside a walk, kept to this page so no two listeners share one
+  const [standaloneSessionId] = useState(() => crypto.randomUUID());
+  const lastSessionSaveRef = useRef<number>(0);
+  const [listenerPreferences, setListenerPreferences] = useState<ListenerPreferences>(loadListenerPreferences);
+  const suppressMapClickRef = useRef<boolean>(false);
+  const liveTrackerRef = useRef<LiveTracker | null>(null);
+  const positionSourceRef = useRef<PositionSource | null>(null);
+  const stopPositionSourceRef = useRef<(() => void) | null>(null);
+  const liveEventHandlerRef = useRef<(event: LiveTrackerEvent) => void>(() => {});
+  const walkSimulatorRef = useRef<WalkSimulator | null>(null);
+  const walkEventHandlerRef = useRef<(event: WalkSimulatorEvent) => void>(() => {});
+  // Sends a trigger held back while a narration was in flight, once that narration is done
+  const sendHeldNarrationRef = useRef<() => void>(() => {});
+  const lastNarrationCheckRef = useRef<RoutePosition | null>(null);
   const lastResponseRef = useRef<string>('');
-  const isApiCallInProgressRef = useRef<boolean>(false);
-  const walkingStateRef = useRef<WalkingState>('stopped');
-  const lastAiCallTimeRef = useRef<number>(0);
-  const totalDistanceTraveledRef = useRef<number>(0);
+  // Response id of the narrator request in flight, if any
+  const activeRequestIdRef = useRef<string | null>(null);
+  const narrationEngineRef = useRef<NarrationTriggerEngine | null>(null);
   const currentPaceRef = useRef<number>(20);
   const [nextAiCallTime, setNextAiCallTime] = useState<number>(0);
+  const [triggerSettings, setTriggerSettings] = useState<NarrationTriggerSettings>(DEFAULT_NARRATION_TRIGGER_SETTINGS);
+  const [narratorSettings, setNarratorSettings] = useState<NarrationSettings>(DEFAULT_NARRATION_SETTINGS);
+  const [lastNarrationTrigger, setLastNarrationTrigger] = useState<NarrationTrigger | null>(null);
+  const [narratorHealth, setNarratorHealth] = useState<NarratorHealth>(INITIAL_NARRATOR_HEALTH);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  // The prefetcher outlives renders, so its requests go through the latest handler
+  const prefetchHandlerRef = useRef<(prediction: NarrationPrediction, signal: AbortSignal) => Promise<PrefetchResult>>(
+    () => Promise.reject(new Error('Prefetching is not ready yet'))
+  );
+  const [narrationPrefetcher] = useState(() => new NarrationPrefetcher({
+    fetchNarration: (prediction, signal) => prefetchHandlerRef.current(prediction, signal)
+  }));
+  const [isWalkSummaryDismissed, setIsWalkSummaryDismissed] = useState(false);
+  const [prefetchStatus, setPrefetchStatus] = useState<NarrationPrefetcherStatus>(narrationPrefetcher.getStatus());
+  const isMapSelectionMode = routeInputMethod === 'map';
+  const t = UI_STRINGS[listenerPreferences.language];
+  // Offer the voices that speak the narration language, or all of them if none do
+  const matchingVoices = speechVoices.filter(voice => isVoiceForLanguage(voice, listenerPreferences.language));
+  const languageVoices = matchingVoices.length > 0 ? matchingVoices : speechVoices;
+  const isRouteEditable = isMapSelectionMode && walkingState === 'stopped' && !isProcessingRoute;
+  const maneuvers = useMemo(() => buildManeuvers(coordinates, routeLegs), [coordinates, routeLegs]);
+  const plannedRouteIndex = useMemo(() => createRouteIndex(coordinates), [coordinates]);
+  // Timed by the latest tick rather than the clock, so the stats only change when the walk does
+  const walkStats = useMemo(() => {
+    const lastWalkTick = walkRecording.ticks[walkRecording.ticks.length - 1];
+    return computeWalkStats({
+      recording: walkRecording,
+      transcript: aiResponses,
+      totalDistance: plannedRouteIndex.totalDistance,
+      distanceWalked,
+      currentPace: walkingState === 'walking' ? lastWalkTick?.pace ?? null : null,
+      startTime: walkStartTime,
+      now: lastWalkTick?.time ?? walkStartTime
+    });
+  }, [walkRecording, aiResponses, plannedRouteIndex, distanceWalked, walkingState, walkStartTime]);
+  const walkSummary = useMemo(() => walkingState === 'stopped' && !isWalkSummaryDismissed
+    ? computeWalkSummary(walkRecording, aiResponses, plannedRouteIndex.totalDistance, distanceWalked)
+    : null, [walkingState, isWalkSummaryDismissed, walkRecording, aiResponses, plannedRouteIndex, distanceWalked]);
+  // Point on the route under the elevation chart's pointer
+  const elevationHoverPoint = elevationHoverDistance !== null && coordinates.length > 0
+    ? locateOnRoute(coordinates, plannedRouteIndex, elevationHoverDistance).coordinate
+    : null;
+  const { providerId: poiProviderId, overpassUrl, nominatimUrl } = poiSettings;
+  // Looked-up tiles stay cached until the POI source changes
+  const poiCache = useMemo(
+    () => new PoiCache(createPoiProvider({ providerId: poiProviderId, overpassUrl, nominatimUrl })),
+    [poiProviderId, overpassUrl, nominatimUrl]
+  );
+  const fallbackLegs = routeLegs
+    .map((leg, index) => ({ leg, index }))
+    .filter(({ leg }) => leg.fallbackReason !== null);
 
-  // Update ref when state changes
-  useEffect(() => {
-    walkingStateRef.current = walkingState;
-  }, [walkingState]);
-
-  // Update pace ref when walking pace changes
+  // Update pace ref and the running simulation when walking pace changes
   useEffect(() => {
     currentPaceRef.current = walkingPace;
+    walkSimulatorRef.current?.setPace(walkingPace);
     console.log(`Walking pace updated to: ${walkingPace} km/h`);
   }, [walkingPace]);
 
+  // Prefetched narrations were predicted and written for the old pace and settings
+  useEffect(() => {
+    narrationPrefetcher.clear('pace or narrator settings changed');
+  }, [narrationPrefetcher, walkingPace, paceModel, simulationSpeed, narratorSettings, listenerPreferences]);
+
+  useEffect(() => narrationPrefetcher.subscribe(setPrefetchStatus), [narrationPrefetcher]);
+
+  // Switch a running simulation between constant and grade-adjusted pace
+  useEffect(() => {
+    walkSimulatorRef.current?.setPaceModel(paceModel);
+  }, [paceModel]);
+
+  // A start point picked on one route means nothing on another, and neither do its elevations
+  useEffect(() => {
+    setStartDistance(0);
+    elevationAbortRef.current?.abort();
+  }, [coordinates]);
+
+  // Speed up the simulation without changing the pace the narrator is told about
+  useEffect(() => {
+    walkSimulatorRef.current?.setTimeScale(simulationSpeed);
+  }, [simulationSpeed]);
+
+  // Apply threshold changes to a live walk in progress
+  useEffect(() => {
+    liveTrackerRef.current?.setOffRouteThreshold(offRouteThreshold);
+  }, [offRouteThreshold]);
+
+  // Remember listener preferences between sessions
+  useEffect(() => {
+    saveListenerPreferences(listenerPreferences);
+  }, [listenerPreferences]);
+
+  // Apply trigger setting changes to a walk in progress
+  useEffect(() => {
+    narrationEngineRef.current?.updateSettings(triggerSettings);
+    setNextAiCallTime(narrationEngineRef.current?.getNextTimedNarration() ?? 0);
+  }, [triggerSettings]);
+
+  // Follow the speech queue so the feed can show what is playing
+  useEffect(() => speechQueue.subscribe(setSpeechStatus), [speechQueue]);
+
+  // Without a chosen voice, the browser picks one for the narration language
+  useEffect(() => {
+    speechQueue.setSettings({ ...speechSettings, lang: LANGUAGE_SPEECH_TAGS[listenerPreferences.language] });
+  }, [speechQueue, speechSettings, listenerPreferences.language]);
+
+  useEffect(() => {
+    document.documentElement.lang = listenerPreferences.language;
+  }, [listenerPreferences.language]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const loadVoices = () => setSpeechVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
+  // Narrations are spoken sentence by sentence as they stream in
+  useEffect(() => {
+    isSpeechEnabledRef.current = isSpeechEnabled;
+    if (!isSpeechEnabled) {
+      speechQueue.clear();
+    }
+  }, [isSpeechEnabled, speechQueue]);
+
+  // Keep the narration transcript of the active saved route up to date
+  useEffect(() => {
+    if (!activeLibraryRouteId || aiResponses.length === 0 || aiResponses.some(response => response.isStreaming)) return;
+    updateSavedRouteTranscript(activeLibraryRouteId, aiResponses).catch(error => {
+      console.error('Error saving narration transcript:', error);
+    });
+  }, [activeLibraryRouteId, aiResponses]);
+
+  // Offer to pick up a walk that was paused or cut off by a reload
+  useEffect(() => {
+    findResumableWalkSession()
+      .then(setResumableSession)
+      .catch(error => {
+        console.error('Error looking for an unfinished walk:', error);
+      });
+  }, []);
+
+  // Keep the current walk session up to date so it survives a reload. While walking, the
+  // whole session is rewritten at most every few seconds rather than on every tick.
+  useEffect(() => {
+    if (!walkSession || aiResponses.some(response => response.isStreaming)) return;
+    const save = () => {
+      lastSessionSaveRef.current = Date.now();
+      saveWalkSessionProgress(walkSession, {
+        status: walkingState === 'stopped' ? 'ended' : walkingState,
+        elapsedSeconds: (Date.now() - walkStartTimeRef.current) / 1000,
+        distanceWalked,
+        track: walkedTrack,
+        transcript: aiResponses,
+        narrationHistory: narrationEngineRef.current?.getSnapshot() ?? null,
+        recording: walkRecording,
+        language: listenerPreferences.language
+      }).catch(error => {
+        console.error('Error saving walk session:', error);
+      });
+    };
+
+    const delay = walkingState === 'walking' ? lastSessionSaveRef.current + SESSION_SAVE_INTERVAL - Date.now() : 0;
+    if (delay <= 0) {
+      save();
+      return;
+    }
+    // Replaced by every update until it fires, so the save carries the latest state
+    const timer = setTimeout(save, delay);
+    return () => clearTimeout(timer);
+  }, [walkSession, walkingState, distanceWalked, walkedTrack, aiResponses, walkRecording, listenerPreferences.language]);
+
+  // Follow the replay player, and stop it when the replay is closed
+  useEffect(() => {
+    if (!walkReplay) return;
+    const unsubscribe = walkReplay.subscribe(setWalkReplayStatus);
+    return () => {
+      unsubscribe();
+      walkReplay.pause();
+    };
+  }, [walkReplay]);
+
   // Extract coordinates from URL
   const extractCoordinatesFromUrl = async (url: string): Promise<Coordinate[]> => {
     try {
@@ -139,60 +619,29 @@ function App() {
     }
   };
 
-  // Get full route from OSRM API
-  const getOSRMRoute = async (startCoord: Coordinate, endCoord: Coordinate): Promise<Coordinate[]> => {
-    try {
-      // OSRM API endpoint for routing
-      const apiUrl = `https://router.project-osrm.org/route/v1/driving/${startCoord.lng},${startCoord.lat};${endCoord.lng},${endCoord.lat}?overview=full&geometries=geojson`
-      
-      console.log('Calling OSRM API:', apiUrl)
-      
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json'
-        }
-      })
-      
-      if (!response.ok) {
-        console.error('OSRM API response not ok:', response.status, response.statusText)
-        throw new Error(`OSRM API error: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      console.log('OSRM API response:', data)
-      
-      if (data.routes && data.routes.length > 0) {
-        const route = data.routes[0]
-        if (route.geometry && route.geometry.coordinates) {
-          console.log('Found route coordinates:', route.geometry.coordinates.length)
-          // Convert from [lng, lat] to {lng, lat} format
-          return route.geometry.coordinates.map((coord: [number, number]) => ({
-            lng: coord[0],
-            lat: coord[1]
-          }))
-        }
-      }
-      
-      throw new Error('No route found in OSRM API response')
-    } catch (error) {
-      console.error('Error getting OSRM route:', error)
-      
-      // Fallback: create intermediate points between start and end
-      console.log('Using fallback route generation for OSRM')
-      const fallbackCoords: Coordinate[] = []
-      const numPoints = 15 // More points for better route simulation
-      
-      for (let i = 0; i <= numPoints; i++) {
-        const progress = i / numPoints
-        const lng = startCoord.lng + (endCoord.lng - startCoord.lng) * progress
-        const lat = startCoord.lat + (endCoord.lat - startCoord.lat) * progress
-        fallbackCoords.push({ lng, lat })
-      }
-      
-      return fallbackCoords
-    }
-  }
+  // Route through every waypoint with the selected provider
+  const buildRoute = async (points: Coordinate[]): Promise<EditableRoute> => {
+    const provider = createRoutingProvider(routingSettings);
+    console.log(`Routing ${points.length} waypoints with ${provider.label}`);
+
+    const legs = await routeWaypoints(provider, points);
+    return { waypoints: points, legs };
+  };
+
+  // Show a routed set of waypoints on the map and use it as the walking route
+  const showRoute = (route: EditableRoute) => {
+    setActiveLibraryRouteId(null);
+    setActiveLibraryRouteName(null);
+    setWaypoints(route.waypoints);
+    setRouteLegs(route.legs);
+    setCoordinates(stitchRouteLegs(route.legs));
+  };
+
+  // Replace the route with a newly loaded one, starting a fresh edit history
+  const loadRoute = (route: EditableRoute) => {
+    showRoute(route);
+    setRouteHistory(EMPTY_ROUTE_HISTORY);
+  };
 
   // Validate BRouter URL
   const validateBRouterUrl = (url: string): boolean => {
@@ -237,9 +686,11 @@ function App() {
       const extractedCoords = await extractCoordinatesFromUrl(routeUrl);
       
       if (extractedCoords.length >= 2) {
-        // Get full route from OSRM
-        const fullRoute = await getOSRMRoute(extractedCoords[0], extractedCoords[extractedCoords.length - 1]);
-        setCoordinates(fullRoute);
+        // Get full route through every BRouter waypoint
+        const route = await buildRoute(extractedCoords);
+        loadRoute(route);
+        setRouteSource({ type: 'brouter', url: routeUrl });
+        const fullRoute = stitchRouteLegs(route.legs);
         
         // Update map center to the start point
         if (fullRoute.length > 0) {
@@ -249,6 +700,8 @@ function App() {
         
         console.log('Route processed successfully:', fullRoute.length, 'coordinates');
       } else {
+        loadRoute(EMPTY_ROUTE);
+        setRouteSource({ type: 'brouter', url: routeUrl });
         setCoordinates(extractedCoords);
         if (extractedCoords.length > 0) {
           setMapCenter([extractedCoords[0].lat, extractedCoords[0].lng]);
@@ -262,239 +715,571 @@ function App() {
     }
   };
 
-  // Calculate distance between two coordinates in meters
-  const calculateDistance = (coord1: Coordinate, coord2: Coordinate): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = coord1.lat * Math.PI / 180;
-    const φ2 = coord2.lat * Math.PI / 180;
-    const Δφ = (coord2.lat - coord1.lat) * Math.PI / 180;
-    const Δλ = (coord2.lng - coord1.lng) * Math.PI / 180;
+  // Describe the walk at a point on the route, as the narrator will see it at the given time
+  const buildNarrationRequest = async (
+    coord: Coordinate,
+    position: RoutePosition,
+    now: number,
+    question?: string,
+    signal?: AbortSignal
+  ): Promise<{ request: NarrationRequest; nearbyPois: NearbyPoi[] }> => {
+    // Live walks report measured pace and distance from the route
+    const liveStatus = walkMode === 'live' ? liveTrackerRef.current?.getLastUpdate() : null;
+    const routeIndex = (walkMode === 'live' ? liveTrackerRef.current?.routeIndex : walkSimulatorRef.current?.routeIndex)
+      ?? plannedRouteIndex;
+
+    // Ground the narration in real places the guide hasn't talked about yet;
+    // a slow or failing POI server only means narrating without them
+    let nearbyPois: NearbyPoi[] = [];
+    if (poiSettings.enabled) {
+      nearbyPois = (await poiCache.getNearby(coord, poiSettings.radius, signal))
+        .filter(poi => !mentionedPoiIds.includes(poi.id))
+        .slice(0, poiSettings.maxPerRequest);
+      setPois(poiCache.getLoadedPois());
+    }
 
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    const context = buildWalkContext({
+      coordinates,
+      routeIndex,
+      position: { ...position, coordinate: coord },
+      maneuvers,
+      pace: liveStatus?.pace ?? walkSimulatorRef.current?.getEffectivePace() ?? currentPaceRef.current,
+      startTime: walkStartTimeRef.current,
+      now,
+      previousNarration: lastResponseRef.current,
+      nearbyPois,
+      offRouteDistance: liveStatus?.position.offRouteDistance ?? null,
+      isOffRoute: liveStatus?.isOffRoute ?? false
+    });
 
-    return R * c;
+    return {
+      request: {
+        context,
+        preferences: listenerPreferences,
+        question,
+        sessionId: walkSessionIdRef.current ?? standaloneSessionId
+      },
+      nearbyPois
+    };
   };
 
-  // Calculate bearing between two coordinates
-  const calculateBearing = (coord1: Coordinate, coord2: Coordinate): number => {
-    const Δλ = (coord2.lng - coord1.lng) * Math.PI / 180;
-    const y = Math.sin(Δλ) * Math.cos(coord2.lat * Math.PI / 180);
-    const x = Math.cos(coord1.lat * Math.PI / 180) * Math.sin(coord2.lat * Math.PI / 180) -
-              Math.sin(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) * Math.cos(Δλ);
-    const bearing = Math.atan2(y, x);
-    return (bearing * 180 / Math.PI + 360) % 360;
+  // Keep the exact request for the preview panel
+  const logNarrationCall = (id: string, call: NarrationCall) => {
+    setNarrationCalls(prev => [
+      { id, timestamp: new Date().toLocaleTimeString(), call },
+      ...prev
+    ].slice(0, MAX_NARRATION_CALLS));
   };
 
-  // Get direction name based on bearing
-  const getDirectionName = (bearing: number): string => {
-    const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
-    const index = Math.round(bearing / 45) % 8;
-    return directions[index];
+  const markPoisMentioned = (poiIds: string[]) => {
+    if (poiIds.length > 0) {
+      setMentionedPoiIds(prev => [...prev, ...poiIds]);
+    }
   };
 
-  // Send coordinate to AI with LangFlow API
-  const sendCoordinateToAI = async (coord: Coordinate) => {
-    // Prevent duplicate API calls
-    if (isApiCallInProgressRef.current) {
-      console.log('API call already in progress, skipping...');
-      return;
+  // Send coordinate to the configured narration provider
+  const sendCoordinateToAI = async (coord: Coordinate, position: RoutePosition, reason: NarrationTriggerReason, question?: string) => {
+    // Prevent duplicate API calls; a listener question takes priority over a narration in progress
+    if (activeRequestIdRef.current) {
+      if (!question) {
+        console.log('API call already in progress, skipping...');
+        return;
+      }
+      cancelNarration();
     }
-    
-    isApiCallInProgressRef.current = true;
-    
+
+    const responseId = crypto.randomUUID();
+    const requestedAt = Date.now();
+    const abortController = new AbortController();
+    activeRequestIdRef.current = responseId;
+    narrationAbortRef.current = abortController;
+
     try {
-      console.log('Sending coordinate to LangFlow:', coord);
-      
-      // Determine walking context
-      let walkingContext = '';
-      let directionInfo = '';
-      
-      // Check if this is start, end, or during walking
-      if (currentCoordinateIndex === 0) {
-        walkingContext = 'START of route';
-      } else if (currentCoordinateIndex >= coordinates.length - 1) {
-        walkingContext = 'END of route';
-      } else {
-        walkingContext = 'WALKING along route';
-        
-        // Calculate direction and turning information
-        const prevCoord = coordinates[currentCoordinateIndex - 1];
-        const currentCoord = coord;
-        const nextCoord = coordinates[currentCoordinateIndex + 1];
-        
-        // Calculate current direction (bearing)
-        const currentBearing = calculateBearing(prevCoord, currentCoord);
-        const nextBearing = calculateBearing(currentCoord, nextCoord);
-        
-        // Determine direction name
-        const directionName = getDirectionName(currentBearing);
-        
-        // Check if turning
-        const bearingDiff = Math.abs(nextBearing - currentBearing);
-        let turningInfo = '';
-        
-        if (bearingDiff > 30) {
-          const turnDirection = nextBearing > currentBearing ? 'right' : 'left';
-          turningInfo = `, turning ${turnDirection}`;
-        }
-        
-        directionInfo = `, heading ${directionName}${turningInfo}`;
-      }
-      
-      const payload = {
-        "input_value": `Current coordinates: ${coord.lat}, ${coord.lng}. Walking pace: ${currentPaceRef.current} km/h. Status: ${walkingContext}. Last direction: ${directionInfo}.`,
-        "output_type": "chat",
-        "input_type": "chat",
-        "session_id": "walkradio_user"
+      console.log(`Sending ${question ? 'question' : 'coordinate'} to ${NARRATION_PROVIDER_LABELS[narratorSettings.providerId]}:`, question ?? coord);
+
+      const { request, nearbyPois } = await buildNarrationRequest(coord, position, Date.now(), question, abortController.signal);
+      // The walk may have been paused or stopped while the places were looked up
+      if (abortController.signal.aborted) return;
+
+      // Show the card as soon as the first token arrives and fill it in as text streams
+      const updateResponse = (message: string, isStreaming: boolean) => {
+        setAiResponses(prev => {
+          const existing = prev.find(response => response.id === responseId);
+          if (existing) {
+            return prev.map(response => response.id === responseId ? { ...response, message, isStreaming } : response);
+          }
+          const newResponse: AIResponse = {
+            id: responseId,
+            timestamp: new Date().toLocaleTimeString(),
+            message,
+            createdAt: new Date().toISOString(),
+            coordinate: coord,
+            question,
+            isStreaming
+          };
+          return [newResponse, ...prev];
+        });
       };
 
-      const options = {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(payload)
+      // Place the narration on the walk's timeline where it was asked for
+      const recordResponse = () => {
+        const narration: RecordedNarration = {
+          time: requestedAt,
+          responseId,
+          reason,
+          coordinate: coord,
+          distance: position.distance
+        };
+        setWalkRecording(prev => addRecordedNarration(prev, narration));
       };
 
-      const response = await fetch('http://localhost:7860/api/v1/run/af5dbb48-ecb9-46ff-98cd-37ebd6d9b915', options);
+      const provider = createNarrationProvider(narratorSettings);
+      let streamedText = '';
+      let retries = 0;
+      try {
+        const aiMessage = await narrateWithRetries(provider, request, {
+          signal: abortController.signal,
+          onRequest: call => logNarrationCall(responseId, call),
+          onToken: (_token, text) => {
+            streamedText = text;
+            updateResponse(text, true);
+          },
+          // Start speaking on the first complete sentence
+          onSentence: sentence => {
+            if (isSpeechEnabledRef.current) {
+              speechQueue.enqueue(responseId, sentence);
+            }
+          }
+        }, {
+          timeoutSeconds: narratorSettings.timeoutSeconds,
+          maxRetries: narratorSettings.maxRetries,
+          onRetry: (attempt, delayMs, error) => {
+            retries = attempt;
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            setNarratorHealth(prev => ({ ...prev, status: 'degraded', lastError: message }));
+            notify('warning', t.narrationRetrying(message, attempt, narratorSettings.maxRetries, Math.round(delayMs / 1000)));
+          }
+        });
+        setNarratorHealth({ status: retries > 0 ? 'degraded' : 'healthy', latencyMs: Date.now() - requestedAt, lastError: null });
+
+        // Check if this is a duplicate of the last response
+        if (lastResponseRef.current === aiMessage) {
+          console.log('Duplicate response detected, not adding to state');
+          setAiResponses(prev => prev.filter(response => response.id !== responseId));
+          speechQueue.skip(responseId);
+        } else {
+          lastResponseRef.current = aiMessage;
+          updateResponse(aiMessage, false);
+          recordResponse();
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+          markPoisMentioned(nearbyPois.filter(poi => isPoiMentioned(poi, aiMessage)).map(poi => poi.id));
+          console.log('AI response received:', aiMessage);
+        }
+
+        // Give the answer room before the next scheduled narration
+        if (question) {
+          recordNarration(position, { reason: 'question' });
+        }
+      } catch (error) {
+        // Keep whatever arrived before the walk was paused or stopped, or the stream broke off,
+        // so the card doesn't stay streaming and hold up saving the transcript
+        if (streamedText) {
+          updateResponse(streamedText.trim(), false);
+          recordResponse();
+        }
+        if (!isAbortError(error)) throw error;
+        console.log('Narration stream cancelled');
+      } finally {
+        if (narrationAbortRef.current === abortController) {
+          narrationAbortRef.current = null;
+        }
       }
+    } catch (error) {
+      console.error('Error requesting narration:', error);
+      // Nothing to report once the walk has been paused or stopped
+      if (abortController.signal.aborted) return;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setNarratorHealth(prev => ({ ...prev, status: 'down', lastError: message }));
+      notify('error', t.narrationFailed(message));
+    } finally {
+      if (activeRequestIdRef.current === responseId) {
+        activeRequestIdRef.current = null;
+        // A paused or stopped walk shouldn't start the next narration
+        if (!abortController.signal.aborted) {
+          sendHeldNarrationRef.current();
+        }
+      }
+    }
+  };
 
-      const data = await response.json();
-      console.log('LangFlow response:', data);
+  // Switch the narration and UI language, dropping a chosen voice that doesn't speak it
+  const changeLanguage = (language: Language) => {
+    setListenerPreferences(prev => ({ ...prev, language }));
+    setSpeechSettings(prev => {
+      const voice = speechVoices.find(candidate => candidate.voiceURI === prev.voiceURI);
+      return voice && !isVoiceForLanguage(voice, language) ? { ...prev, voiceURI: null } : prev;
+    });
+  };
 
-      let aiMessage = 'No response from AI';
+  // Show a message in the notification area, keeping only the latest few
+  const notify = (level: NotificationLevel, message: string) => {
+    setNotifications(prev => [
+      { id: crypto.randomUUID(), level, message, timestamp: new Date().toLocaleTimeString() },
+      ...prev
+    ].slice(0, MAX_NOTIFICATIONS));
+  };
 
-      if (data.outputs && data.outputs.length > 0) {
-        const output = data.outputs[0];
-        
-        if (output.outputs && output.outputs.length > 0) {
-          const result = output.outputs[0];
-          aiMessage = result.results.message.text;
+  // Keep the simulated position, with its time, for exporting the walked track
+  const recordTrackPoint = (coord: Coordinate, time: number = Date.now()) => {
+    setWalkedTrack(prev => [...prev, { ...coord, time: new Date(time).toISOString() }]);
+  };
+
+  // Add a moment of the walk to the recording used for replay
+  const recordWalkTick = (
+    position: RoutePosition,
+    state: WalkingState,
+    pace: number,
+    time = Date.now(),
+    details: Pick<WalkTick, 'timeScale' | 'isJump'> = {}
+  ) => {
+    const tick: WalkTick = {
+      time,
+      coordinate: position.coordinate,
+      segmentIndex: position.segmentIndex,
+      distance: position.distance,
+      pace,
+      state,
+      ...details
+    };
+    setWalkRecording(prev => addRecordedTick(prev, tick));
+  };
+
+  // React to events from the walk simulator
+  const handleWalkEvent = (event: WalkSimulatorEvent) => {
+    switch (event.type) {
+      case 'state':
+        setWalkingState(event.state);
+        if (walkSimulatorRef.current) {
+          recordWalkTick(
+            walkSimulatorRef.current.getPosition(),
+            event.state,
+            walkSimulatorRef.current.getEffectivePace(),
+            Date.now(),
+            { timeScale: walkSimulatorRef.current.getTimeScale() }
+          );
         }
-      }
+        break;
+      case 'position': {
+        const { coordinate, segmentIndex, distance } = event.position;
+        console.log(`Position: ${coordinate.lat}, ${coordinate.lng} at segment ${segmentIndex}, ${distance.toFixed(1)} m walked`);
+        recordTrackPoint(coordinate, event.time);
+        recordWalkTick(
+          event.position,
+          walkSimulatorRef.current?.getState() ?? walkingState,
+          walkSimulatorRef.current?.getEffectivePace() ?? currentPaceRef.current,
+          event.time,
+          { timeScale: walkSimulatorRef.current?.getTimeScale(), isJump: event.isJump }
+        );
+        setCurrentCoordinate(coordinate);
+        setCurrentCoordinateIndex(segmentIndex);
+        setDistanceWalked(distance);
 
-      const newResponse: AIResponse = {
-        timestamp: new Date().toLocaleTimeString(),
-        message: aiMessage
-      };
-      
-      // Check if this is a duplicate of the last response
-      const isDuplicate = lastResponseRef.current === aiMessage;
+        // Check AI request with the current interpolated position
+        checkAndSendAiRequest(event.position);
+        prefetchNextNarration(event.position);
+        break;
+      }
+      case 'finished':
+        console.log('Reached end of route, stopping simulation');
+        break;
+    }
+  };
 
-      if (!isDuplicate) {
-        lastResponseRef.current = aiMessage;
-        setAiResponses(prev => [newResponse, ...prev]);
-        console.log('AI response received:', newResponse.message);
-      } else {
-        console.log('Duplicate response detected, not adding to state');
+  // React to position fixes in live mode
+  const handleLiveEvent = (event: LiveTrackerEvent) => {
+    const { fix, position } = event.update;
+    switch (event.type) {
+      case 'update': {
+        setLiveUpdate(event.update);
+        recordTrackPoint(fix.coordinate, fix.timestamp);
+        recordWalkTick(position, walkingState, event.update.pace ?? 0);
+        setCurrentCoordinate(position.coordinate);
+        setCurrentCoordinateIndex(position.segmentIndex);
+        setDistanceWalked(position.distance);
+        checkAndSendAiRequest(position);
+        break;
       }
+      case 'off-route':
+        // Tell the narrator right away instead of waiting for the next scheduled call
+        console.log(`Walker is off route by ${Math.round(position.offRouteDistance)} m`);
+        requestNarration(fix.coordinate, position, {
+          reason: 'off-route',
+          amount: position.offRouteDistance
+        });
+        break;
+      case 'back-on-route':
+        console.log('Walker is back on route');
+        break;
+      case 'finished':
+        console.log('Reached end of route in live mode');
+        if (transitionLiveWalk('finish')) stopPositionSource();
+        break;
+    }
+  };
+
+  // The simulator and tracker outlive renders, so route their events to the latest handlers
+  useEffect(() => {
+    walkEventHandlerRef.current = handleWalkEvent;
+    liveEventHandlerRef.current = handleLiveEvent;
+    prefetchHandlerRef.current = fetchPrefetchedNarration;
+    sendHeldNarrationRef.current = sendHeldNarration;
+  });
+
+  const startPositionSource = () => {
+    const source = positionSourceRef.current;
+    if (!source) return;
+    stopPositionSourceRef.current = source.start(
+      fix => liveTrackerRef.current?.update(fix),
+      message => setLiveError(message)
+    );
+  };
+
+  const stopPositionSource = () => {
+    stopPositionSourceRef.current?.();
+    stopPositionSourceRef.current = null;
+  };
+
+  // Move a live walk through the same state transitions as the simulator
+  const transitionLiveWalk = (action: WalkAction): boolean => {
+    const nextState = getNextWalkingState(walkingState, action);
+    if (!nextState) return false;
+    setWalkingState(nextState);
+    const lastUpdate = liveTrackerRef.current?.getLastUpdate();
+    if (lastUpdate) {
+      recordWalkTick(lastUpdate.position, nextState, lastUpdate.pace ?? 0);
+    }
+    return true;
+  };
+
+  // Load a recorded GPS trace to replay through the live walking mode
+  const handleReplayTraceChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const fixes = parseGpsTrace(file.name, await file.text());
+      setReplayTrace(fixes);
+      setReplayTraceName(file.name);
+      setLiveError(null);
+      console.log('Loaded GPS trace for replay:', fixes.length, 'fixes');
     } catch (error) {
-      console.error('Error sending coordinate to LangFlow:', error);
-      const errorResponse: AIResponse = {
-        timestamp: new Date().toLocaleTimeString(),
-        message: `Error: ${error instanceof Error ? error.message : 'Unknown error'} - Make sure LangFlow is running on localhost:7860`
-      };
-      setAiResponses(prev => [errorResponse, ...prev]);
-    } finally {
-      isApiCallInProgressRef.current = false;
+      console.error('Error loading GPS trace:', error);
+      setLiveError(error instanceof Error ? error.message : 'Unknown error while reading the GPS trace.');
     }
   };
 
-  // Update coordinate position every second based on current pace
-  const updateCoordinatePosition = () => {
-    if (walkingStateRef.current !== 'walking') {
+  // Note why the guide last spoke, which restarts the trigger policies' counting
+  const recordNarration = (position: RoutePosition, trigger: NarrationTrigger) => {
+    const engine = narrationEngineRef.current;
+    if (!engine) return;
+
+    engine.recordNarration({ now: Date.now(), distance: position.distance, segmentIndex: position.segmentIndex }, trigger);
+    setLastNarrationTrigger(trigger);
+    setNextAiCallTime(engine.getNextTimedNarration() ?? 0);
+  };
+
+  // Record why a narration is being requested, then send it. While another narration is on its way
+  // the trigger is held instead, so its timer isn't reset and a one-shot trigger isn't used up unsent.
+  const requestNarration = (coord: Coordinate, position: RoutePosition, trigger: NarrationTrigger) => {
+    const engine = narrationEngineRef.current;
+    if (!engine) return;
+    if (activeRequestIdRef.current) {
+      engine.holdTrigger(trigger);
       return;
     }
 
-    // Calculate distance to travel in 1 second using the current pace ref
-    const walkingSpeed = currentPaceRef.current / 3.6; // Convert km/h to m/s
-    const distanceThisSecond = walkingSpeed; // Distance in meters per second
-    
-    // Add to total distance traveled
-    totalDistanceTraveledRef.current += distanceThisSecond;
-    
-    console.log(`=== COORDINATE UPDATE ===`);
-    console.log(`Current pace: ${currentPaceRef.current} km/h, Walking speed: ${walkingSpeed} m/s, Distance this second: ${distanceThisSecond} meters`);
-    console.log(`Total distance traveled: ${totalDistanceTraveledRef.current} meters`);
-    
-    // Find the position along the route based on total distance traveled
-    let accumulatedDistance = 0;
-    for (let i = 0; i < coordinates.length - 1; i++) {
-      const segmentDistance = calculateDistance(coordinates[i], coordinates[i + 1]);
-      
-      if (accumulatedDistance + segmentDistance >= totalDistanceTraveledRef.current) {
-        // Interpolate between coordinates
-        const remainingDistance = totalDistanceTraveledRef.current - accumulatedDistance;
-        const progress = remainingDistance / segmentDistance;
-        
-        const coord1 = coordinates[i];
-        const coord2 = coordinates[i + 1];
-        const interpolatedCoord: Coordinate = {
-          lng: coord1.lng + (coord2.lng - coord1.lng) * progress,
-          lat: coord1.lat + (coord2.lat - coord1.lat) * progress
-        };
-        
-        console.log(`Interpolated position: ${interpolatedCoord.lat}, ${interpolatedCoord.lng} at segment ${i}`);
-        setCurrentCoordinate(interpolatedCoord);
-        setCurrentCoordinateIndex(i);
-        
-        // Check AI request with the current interpolated coordinate
-        checkAndSendAiRequest(interpolatedCoord);
-        return;
+    console.log(`Sending AI request - ${describeNarrationTrigger(trigger, t)}`);
+    recordNarration(position, trigger);
+    sendCoordinateToAI(coord, position, trigger.reason);
+  };
+
+  // Send the trigger held back while the last narration was in flight, from where the walker is now
+  const sendHeldNarration = () => {
+    const trigger = narrationEngineRef.current?.takeHeldTrigger();
+    const position = lastNarrationCheckRef.current;
+    if (trigger && position) {
+      requestNarration(position.coordinate, position, trigger);
+    }
+  };
+
+  // Send a listener question to the guide along with the current walk context
+  const askGuide = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = guideQuestion.trim();
+    if (!question || !currentCoordinate) return;
+
+    setGuideQuestion('');
+    sendCoordinateToAI(currentCoordinate, {
+      coordinate: currentCoordinate,
+      segmentIndex: currentCoordinateIndex,
+      distance: distanceWalked
+    }, 'question', question);
+  };
+
+  // Check whether any narration trigger policy wants to fire at this position
+  const checkAndSendAiRequest = (position: RoutePosition) => {
+    const engine = narrationEngineRef.current;
+    if (!engine) return;
+
+    lastNarrationCheckRef.current = position;
+    // A trigger held back by a narration that was then cancelled goes first
+    const trigger = (activeRequestIdRef.current ? null : engine.takeHeldTrigger()) ??
+      engine.evaluate({ now: Date.now(), distance: position.distance, segmentIndex: position.segmentIndex });
+    if (!trigger) return;
+
+    const prefetched = narrationPrefetcher.take(position.distance);
+    if (prefetched) {
+      releasePrefetchedNarration(prefetched, position, trigger);
+    } else {
+      requestNarration(position.coordinate, position, trigger);
+    }
+  };
+
+  // Ask for the narration at a predicted point ahead of the walker, without showing it yet
+  const fetchPrefetchedNarration = async (prediction: NarrationPrediction, signal: AbortSignal): Promise<PrefetchResult> => {
+    const id = crypto.randomUUID();
+    const requestedAt = Date.now();
+    const { request, nearbyPois } = await buildNarrationRequest(prediction.coordinate, prediction, prediction.time, undefined, signal);
+    let narration: string;
+    try {
+      narration = await narrateWithRetries(createNarrationProvider(narratorSettings), request, {
+        signal,
+        onRequest: call => logNarrationCall(id, call)
+      }, {
+        timeoutSeconds: narratorSettings.timeoutSeconds,
+        maxRetries: narratorSettings.maxRetries
+      });
+    } catch (error) {
+      // The live request at the narration point can still succeed, so this only counts as degraded
+      if (!isAbortError(error)) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        setNarratorHealth(prev => ({ ...prev, status: 'degraded', lastError: message }));
       }
-      
-      accumulatedDistance += segmentDistance;
+      throw error;
     }
-    
-    // If we've gone past all coordinates, stop the simulation
-    console.log('Reached end of route, stopping simulation');
-    setWalkingState('stopped');
-    setCurrentCoordinate(coordinates[coordinates.length - 1]);
-    setCurrentCoordinateIndex(coordinates.length - 1);
-    if (walkingIntervalRef.current) {
-      clearInterval(walkingIntervalRef.current);
-      walkingIntervalRef.current = null;
+    setNarratorHealth({ status: 'healthy', latencyMs: Date.now() - requestedAt, lastError: null });
+    return {
+      narration,
+      mentionedPoiIds: nearbyPois.filter(poi => isPoiMentioned(poi, narration)).map(poi => poi.id)
+    };
+  };
+
+  // Simulated walks know their pace, so request the next narration early enough to hide the narrator's latency
+  const prefetchNextNarration = (position: RoutePosition) => {
+    const engine = narrationEngineRef.current;
+    const simulator = walkSimulatorRef.current;
+    if (!narratorSettings.prefetch || walkMode !== 'simulated' || !engine || simulator?.getState() !== 'walking') return;
+
+    // A faster simulation reaches the next narration point sooner
+    const now = Date.now();
+    const forecast = engine.predictNextNarration(
+      { now, distance: position.distance, segmentIndex: position.segmentIndex },
+      (simulator.getEffectivePace() / 3.6) * simulator.getTimeScale()
+    );
+    if (!forecast) return;
+    const timeUntilDue = forecast.time - now;
+    if (timeUntilDue < MIN_PREFETCH_LEAD || timeUntilDue > getPrefetchLeadTime(narratorHealth.latencyMs)) return;
+
+    narrationPrefetcher.prefetch({
+      ...locateOnRoute(simulator.coordinates, simulator.routeIndex, forecast.distance),
+      time: forecast.time
+    });
+  };
+
+  // Show and speak a narration prepared ahead of time now that the walker has reached its point
+  const releasePrefetchedNarration = (prefetched: PrefetchedNarration, position: RoutePosition, trigger: NarrationTrigger) => {
+    console.log(`Using prefetched narration - ${describeNarrationTrigger(trigger, t)}`);
+    recordNarration(position, trigger);
+    if (lastResponseRef.current === prefetched.narration) {
+      console.log('Duplicate response detected, not adding to state');
+      return;
     }
-    if (coordinateIntervalRef.current) {
-      clearInterval(coordinateIntervalRef.current);
-      coordinateIntervalRef.current = null;
+
+    lastResponseRef.current = prefetched.narration;
+    setAiResponses(prev => [{
+      id: prefetched.id,
+      timestamp: new Date().toLocaleTimeString(),
+      message: prefetched.narration,
+      createdAt: new Date().toISOString(),
+      coordinate: position.coordinate
+    }, ...prev]);
+    const narration: RecordedNarration = {
+      time: Date.now(),
+      responseId: prefetched.id,
+      reason: trigger.reason,
+      coordinate: position.coordinate,
+      distance: position.distance
+    };
+    setWalkRecording(prev => addRecordedNarration(prev, narration));
+    markPoisMentioned(prefetched.mentionedPoiIds);
+    if (isSpeechEnabledRef.current) {
+      speechQueue.enqueue(prefetched.id, prefetched.narration);
     }
   };
 
-  // Check if we should send AI request (every 20 seconds)
-  const checkAndSendAiRequest = (currentCoord?: Coordinate) => {
-    const currentTime = Date.now();
-    const timeSinceLastAiCall = currentTime - lastAiCallTimeRef.current;
-    
-    // Use the passed coordinate or fall back to state
-    const coordToUse = currentCoord || currentCoordinate;
-    
-    console.log(`AI check - Time since last call: ${timeSinceLastAiCall}ms, Current coordinate:`, coordToUse);
-    
-    if (timeSinceLastAiCall >= 20000 && coordToUse) { // 20 seconds
-      console.log('Sending AI request - 20 seconds have passed');
-      sendCoordinateToAI(coordToUse);
-      lastAiCallTimeRef.current = currentTime;
-      setNextAiCallTime(currentTime + 20000); // Set next AI call time
-    } else if (timeSinceLastAiCall >= 20000 && !coordToUse) {
-      console.log('20 seconds passed but no current coordinate available');
-    } else {
-      const remainingTime = 20000 - timeSinceLastAiCall;
-      console.log(`Waiting for AI request - ${remainingTime}ms remaining`);
-      setNextAiCallTime(lastAiCallTimeRef.current + 20000);
+  // Abort a narration that is still streaming in
+  const cancelNarration = () => {
+    narrationAbortRef.current?.abort();
+    narrationAbortRef.current = null;
+  };
+
+  // Set up tracking for a live walk along a route, without starting the position source yet
+  const prepareLiveWalk = (route: Coordinate[], startDistance = 0): PositionSource => {
+    const tracker = new LiveTracker(route, { offRouteThreshold, startDistance });
+    tracker.subscribe(event => liveEventHandlerRef.current(event));
+    liveTrackerRef.current = tracker;
+    const source = replayTrace
+      ? createTraceReplaySource(replayTrace, replaySpeed)
+      : createGeolocationSource();
+    positionSourceRef.current = source;
+    setLiveUpdate(null);
+    setLiveError(null);
+    setCurrentCoordinate(null);
+    return source;
+  };
+
+  const createWalkSimulator = (route: Coordinate[]): WalkSimulator => {
+    const simulator = new WalkSimulator(route, { pace: currentPaceRef.current, paceModel, timeScale: simulationSpeed });
+    simulator.subscribe(event => walkEventHandlerRef.current(event));
+    walkSimulatorRef.current = simulator;
+    return simulator;
+  };
+
+  // Store the final state of the current walk before its transcript is replaced
+  const endWalkSession = () => {
+    if (walkSession && walkingState !== 'stopped') {
+      saveWalkSessionProgress(walkSession, {
+        status: 'ended',
+        elapsedSeconds: (Date.now() - walkStartTimeRef.current) / 1000,
+        distanceWalked,
+        track: walkedTrack,
+        transcript: aiResponses,
+        narrationHistory: narrationEngineRef.current?.getSnapshot() ?? null,
+        recording: walkRecording,
+        language: listenerPreferences.language
+      }).catch(error => {
+        console.error('Error saving walk session:', error);
+      });
     }
+    setWalkSession(null);
+    walkSessionIdRef.current = null;
   };
 
   // Start walking simulation
   const startWalking = () => {
     if (coordinates.length === 0) {
-      alert('Please enter a route URL first');
+      alert(t.enterRouteFirst);
       return;
     }
 
@@ -502,80 +1287,234 @@ function App() {
       console.log('Already walking, not starting new simulation');
       return;
     }
+    setIsWalkSummaryDismissed(false);
+
+    // Dispose of any previous simulation first
+    cancelNarration();
+    walkSimulatorRef.current?.stop();
+    stopPositionSource();
+
+    setAiResponses([]);
+    setWalkedTrack([]);
+    setDistanceWalked(0);
+    setLastNarrationTrigger(null);
+    setNarrationCalls([]);
+    setMentionedPoiIds([]);
+    setResumableSession(null);
+    setWalkRecording(EMPTY_WALK_RECORDING);
+    setWalkReplay(null);
+    walkStartTimeRef.current = Date.now();
+    setWalkStartTime(walkStartTimeRef.current);
+    narrationEngineRef.current = new NarrationTriggerEngine(coordinates, maneuvers, triggerSettings);
+    narrationPrefetcher.reset();
+    setNextAiCallTime(narrationEngineRef.current.getNextTimedNarration() ?? 0);
+
+    // Each walk gets its own narrator session, so memory never carries over between walks
+    const session = createWalkSession({
+      routeName: activeLibraryRouteName ?? (routeSource ? describeRouteSource(routeSource, t) : t.unsavedRoute),
+      libraryRouteId: activeLibraryRouteId,
+      mode: walkMode,
+      coordinates,
+      waypoints,
+      legs: routeLegs,
+      source: routeSource,
+      language: listenerPreferences.language
+    });
+    setWalkSession(session);
+    walkSessionIdRef.current = session.id;
+    console.log('Starting walk session', session.id);
+
+    if (walkMode === 'live') {
+      const source = prepareLiveWalk(coordinates);
+      transitionLiveWalk('start');
+      console.log(`Starting live walk with ${source.label}`);
+
+      // Narration triggers are checked on every fix
+      startPositionSource();
+      return;
+    }
+
+    // The start position is checked against the triggers straight away
+    const simulator = createWalkSimulator(coordinates);
+    simulator.start(clampStartDistance(startDistance));
+    setStartDistance(0);
+    if (isStepMode) {
+      simulator.pause();
+    }
+  };
 
-    // Clear any existing intervals first
-    if (walkingIntervalRef.current) {
-      console.log('Clearing existing walking interval');
-      clearInterval(walkingIntervalRef.current);
-      walkingIntervalRef.current = null;
+  // A walk can't start at or past the end of the route, so that falls back to the beginning
+  const clampStartDistance = (distance: number) =>
+    distance > 0 && distance < plannedRouteIndex.totalDistance ? distance : 0;
+
+  // Move the simulated walker to a point on the route, or pick where the next walk starts
+  const seekTo = (distance: number) => {
+    if (walkMode !== 'simulated') return;
+    if (walkingState === 'stopped') {
+      setStartDistance(clampStartDistance(distance));
+      return;
     }
-    if (coordinateIntervalRef.current) {
-      console.log('Clearing existing coordinate interval');
-      clearInterval(coordinateIntervalRef.current);
-      coordinateIntervalRef.current = null;
+    console.log(`Seeking to ${Math.round(distance)} m`);
+    narrationPrefetcher.clear('walker moved');
+    walkSimulatorRef.current?.seek(distance);
+  };
+
+  const seekToPoint = (point: Coordinate) => {
+    if (coordinates.length < 2) return;
+    seekTo(snapToRoute(coordinates, plannedRouteIndex, point).distance);
+  };
+
+  // Advance a paused simulation by one tick or one segment, for debugging narration triggers
+  const stepWalk = (unit: 'tick' | 'segment') => {
+    const simulator = walkSimulatorRef.current;
+    if (!simulator) return;
+    if (!(unit === 'tick' ? simulator.step() : simulator.stepSegment())) {
+      console.log('Not paused, cannot step');
     }
+  };
 
-    setWalkingState('walking');
-    setCurrentCoordinateIndex(0);
-    setCurrentCoordinate(coordinates[0]);
-    setAiResponses([]);
-    lastAiCallTimeRef.current = Date.now();
-    totalDistanceTraveledRef.current = 0; // Reset total distance traveled
-    setNextAiCallTime(Date.now() + 20000); // Set initial next AI call time
-
-    // Send first coordinate immediately
-    sendCoordinateToAI(coordinates[0]);
-
-    // Set up interval for coordinate updates - every 1 second
-    console.log('Creating coordinate update interval - every 1 second');
-    coordinateIntervalRef.current = setInterval(() => {
-      updateCoordinatePosition();
-    }, 1000);
+  // Show a past walk's route, track and transcript, closing the current walk first
+  const showWalkSession = (session: WalkSession) => {
+    if (walkingState !== 'stopped') {
+      stopWalking();
+    }
+    endWalkSession();
+    walkSimulatorRef.current?.stop();
+    stopPositionSource();
+
+    // Routes saved before routing steps were kept have legs without them
+    loadRoute({
+      waypoints: session.waypoints,
+      legs: session.legs.map(leg => ({ ...leg, steps: leg.steps ?? [] }))
+    });
+    if (session.legs.length === 0) {
+      setCoordinates(session.coordinates);
+    }
+    if (session.source) {
+      showRouteSource(session.source);
+    }
+    setRouteSource(session.source);
+    setActiveLibraryRouteId(session.libraryRouteId);
+    setActiveLibraryRouteName(session.libraryRouteId ? session.routeName : null);
+    setWalkMode(session.mode);
+    setAiResponses(session.transcript);
+    lastResponseRef.current = session.transcript[0]?.message ?? '';
+    setWalkedTrack(session.track);
+    setDistanceWalked(session.distanceWalked);
+    setLastNarrationTrigger(null);
+    setNarrationCalls([]);
+    setMentionedPoiIds([]);
+    setResumableSession(null);
+    setWalkRecording(session.recording ?? EMPTY_WALK_RECORDING);
+    setWalkReplay(null);
+
+    const lastPoint = session.track[session.track.length - 1] ?? session.coordinates[0];
+    if (lastPoint) {
+      setMapCenter([lastPoint.lat, lastPoint.lng]);
+      setMapZoom(16);
+    }
+  };
+
+  // Pick up an unfinished walk where it was left, paused until the listener continues
+  const resumeWalkSession = (session: WalkSession) => {
+    setIsWalkSummaryDismissed(false);
+    showWalkSession(session);
+
+    // Elapsed time carries on from where it was, leaving out the time the page was closed
+    walkStartTimeRef.current = Date.now() - session.elapsedSeconds * 1000;
+    setWalkStartTime(walkStartTimeRef.current);
+    setWalkSession(session);
+    walkSessionIdRef.current = session.id;
+    if (session.language) {
+      changeLanguage(session.language);
+    }
+    console.log('Resuming walk session', session.id);
+
+    // Place the walker without letting the old walk's triggers fire
+    narrationEngineRef.current = null;
+    narrationPrefetcher.reset();
+    if (session.mode === 'live') {
+      prepareLiveWalk(session.coordinates, session.distanceWalked);
+      setWalkingState('paused');
+      // Mark where the walk picks up, as the simulator's pause does, so its timing carries on from now
+      const lastTick = session.recording?.ticks[session.recording.ticks.length - 1];
+      if (lastTick) recordWalkTick(lastTick, 'paused', 0);
+    } else {
+      const simulator = createWalkSimulator(session.coordinates);
+      simulator.start(session.distanceWalked);
+      simulator.pause();
+    }
+
+    const engine = new NarrationTriggerEngine(
+      session.coordinates,
+      buildManeuvers(session.coordinates, session.legs),
+      triggerSettings,
+      walkStartTimeRef.current
+    );
+    const history = session.narrationHistory;
+    if (history) {
+      const offset = walkStartTimeRef.current - history.startTime;
+      engine.restoreSnapshot({
+        ...history,
+        startTime: walkStartTimeRef.current,
+        lastTime: history.lastTime === null ? null : history.lastTime + offset
+      });
+    }
+    narrationEngineRef.current = engine;
+    setNextAiCallTime(engine.getNextTimedNarration() ?? 0);
+  };
+
+  // Play a recorded walk back on the map alongside its transcript
+  const openWalkReplay = (recording: WalkRecording) => {
+    if (recording.ticks.length === 0) return;
+    setWalkReplay(new ReplayPlayer(recording));
+  };
+
+  // Load a past walk from the history and open it in replay mode
+  const replayWalkSession = (session: WalkSession) => {
+    showWalkSession(session);
+    if (session.recording) {
+      openWalkReplay(session.recording);
+    }
   };
 
   // Pause walking simulation
   const pauseWalking = () => {
     console.log('Pausing walking simulation');
-    setWalkingState('paused');
-    if (walkingIntervalRef.current) {
-      clearInterval(walkingIntervalRef.current);
-      walkingIntervalRef.current = null;
-    }
-    if (coordinateIntervalRef.current) {
-      clearInterval(coordinateIntervalRef.current);
-      coordinateIntervalRef.current = null;
+    cancelNarration();
+    narrationPrefetcher.clear('walk paused');
+    speechQueue.pause();
+    if (walkMode === 'live') {
+      if (transitionLiveWalk('pause')) stopPositionSource();
+      return;
     }
+    walkSimulatorRef.current?.pause();
   };
 
   // Continue walking simulation
   const continueWalking = () => {
     console.log('Continuing walking simulation');
-    if (walkingState !== 'paused') {
-      console.log('Not paused, cannot continue');
+    speechQueue.resume();
+    if (walkMode === 'live') {
+      if (transitionLiveWalk('resume')) startPositionSource();
       return;
     }
-
-    setWalkingState('walking');
-    
-    // Set up interval for coordinate updates - every 1 second
-    console.log('Creating coordinate update interval - every 1 second');
-    coordinateIntervalRef.current = setInterval(() => {
-      updateCoordinatePosition();
-    }, 1000);
+    if (!walkSimulatorRef.current?.resume()) {
+      console.log('Not paused, cannot continue');
+    }
   };
 
   // Stop walking simulation
   const stopWalking = () => {
     console.log('Stopping walking simulation');
-    setWalkingState('stopped');
-    if (walkingIntervalRef.current) {
-      clearInterval(walkingIntervalRef.current);
-      walkingIntervalRef.current = null;
-    }
-    if (coordinateIntervalRef.current) {
-      clearInterval(coordinateIntervalRef.current);
-      coordinateIntervalRef.current = null;
+    cancelNarration();
+    narrationPrefetcher.clear('walk stopped');
+    speechQueue.clear();
+    if (walkMode === 'live') {
+      if (transitionLiveWalk('stop')) stopPositionSource();
+      return;
     }
+    walkSimulatorRef.current?.stop();
   };
 
   // Get button text and action based on current state
@@ -583,7 +1522,7 @@ function App() {
     switch (walkingState) {
       case 'stopped':
         return {
-          primaryText: 'Start Walking',
+          primaryText: t.startWalking,
           primaryAction: startWalking,
           primaryClass: 'start',
           secondaryText: null,
@@ -592,25 +1531,25 @@ function App() {
         };
       case 'walking':
         return {
-          primaryText: 'Pause',
+          primaryText: t.pause,
           primaryAction: pauseWalking,
           primaryClass: 'pause',
-          secondaryText: 'Stop',
+          secondaryText: t.stop,
           secondaryAction: stopWalking,
           secondaryClass: 'stop'
         };
       case 'paused':
         return {
-          primaryText: 'Continue',
+          primaryText: t.continue,
           primaryAction: continueWalking,
           primaryClass: 'continue',
-          secondaryText: 'Stop',
+          secondaryText: t.stop,
           secondaryAction: stopWalking,
           secondaryClass: 'stop'
         };
       default:
         return {
-          primaryText: 'Start Walking',
+          primaryText: t.startWalking,
           primaryAction: startWalking,
           primaryClass: 'start',
           secondaryText: null,
@@ -622,117 +1561,331 @@ function App() {
 
   const buttonConfig = getButtonConfig();
 
+  // Where the replay is up to, for the map marker and the highlighted narration
+  const replayTick = walkReplayStatus && walkReplay ? getTickAt(walkRecording, walkReplayStatus.time) : null;
+  const replayNarration = walkReplayStatus && walkReplay ? getNarrationAt(walkRecording, walkReplayStatus.time) : null;
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (walkingIntervalRef.current) {
-        clearInterval(walkingIntervalRef.current);
-        walkingIntervalRef.current = null;
-      }
-      if (coordinateIntervalRef.current) {
-        clearInterval(coordinateIntervalRef.current);
-        coordinateIntervalRef.current = null;
-      }
+      narrationAbortRef.current?.abort();
+      speechQueue.clear();
+      walkSimulatorRef.current?.stop();
+      walkSimulatorRef.current = null;
+      stopPositionSourceRef.current?.();
+      stopPositionSourceRef.current = null;
     };
-  }, []);
+  }, [speechQueue]);
+
+  // Apply a route editor change, re-routing only the affected legs
+  const editRoute = async (edit: RouteEdit) => {
+    if (!isRouteEditable) return;
+
+    const currentRoute: EditableRoute = { waypoints, legs: routeLegs };
+    try {
+      setIsProcessingRoute(true);
+      console.log('Editing route:', edit);
+      const editedRoute = await applyRouteEdit(createRoutingProvider(routingSettings), currentRoute, edit);
+      setRouteHistory(prev => pushRouteHistory(prev, currentRoute));
+      showRoute(editedRoute);
+      setRouteSource({ type: 'map' });
+    } catch (error) {
+      console.error('Error editing route:', error);
+    } finally {
+      setIsProcessingRoute(false);
+    }
+  };
 
-  // Handle map click for point selection
+  // Handle map click for adding waypoints
   const handleMapClick = (event: L.LeafletMouseEvent) => {
     if (!isMapSelectionMode) return;
-    
-    const { lat, lng } = event.latlng;
-    const clickedCoord: Coordinate = { lat, lng };
-    
-    if (mapSelectionStep === 'start') {
-      setSelectedStartPoint(clickedCoord);
-      setMapSelectionStep('end');
-      console.log('Start point selected:', clickedCoord);
-    } else {
-      setSelectedEndPoint(clickedCoord);
-      setMapSelectionStep('start');
-      console.log('End point selected:', clickedCoord);
-      
-      // Generate route from selected points
-      if (selectedStartPoint) {
-        generateRouteFromPoints(selectedStartPoint, clickedCoord);
-      }
+    if (suppressMapClickRef.current) {
+      suppressMapClickRef.current = false;
+      return;
     }
+
+    const { lat, lng } = event.latlng;
+    editRoute({ type: 'add', coordinate: { lat, lng } });
   };
 
-  // Generate route from selected start and end points
-  const generateRouteFromPoints = async (start: Coordinate, end: Coordinate) => {
+  // Undo the last route edit
+  const undoRouteEdit = () => {
+    const previousRoute = routeHistory.past[routeHistory.past.length - 1];
+    if (!previousRoute || !isRouteEditable) return;
+
+    setRouteHistory({
+      past: routeHistory.past.slice(0, -1),
+      future: [{ waypoints, legs: routeLegs }, ...routeHistory.future]
+    });
+    showRoute(previousRoute);
+  };
+
+  // Redo the last undone route edit
+  const redoRouteEdit = () => {
+    const nextRoute = routeHistory.future[0];
+    if (!nextRoute || !isRouteEditable) return;
+
+    setRouteHistory({
+      past: [...routeHistory.past, { waypoints, legs: routeLegs }],
+      future: routeHistory.future.slice(1)
+    });
+    showRoute(nextRoute);
+  };
+
+  // Re-route the current waypoints, e.g. after switching provider
+  const rerouteWaypoints = async () => {
+    if (waypoints.length < 2) return;
+
+    const currentRoute: EditableRoute = { waypoints, legs: routeLegs };
     try {
       setIsProcessingRoute(true);
-      console.log('Generating route from selected points:', start, 'to', end);
-      
-      // Get full route from OSRM
-      const fullRoute = await getOSRMRoute(start, end);
-      setCoordinates(fullRoute);
-      
-      // Update map center to the start point
-      if (fullRoute.length > 0) {
-        setMapCenter([fullRoute[0].lat, fullRoute[0].lng]);
-        setMapZoom(15);
+      const route = await buildRoute(waypoints);
+      setRouteHistory(prev => pushRouteHistory(prev, currentRoute));
+      showRoute(route);
+      console.log('Route re-routed successfully');
+    } catch (error) {
+      console.error('Error re-routing waypoints:', error);
+    } finally {
+      setIsProcessingRoute(false);
+    }
+  };
+
+  // Remove every waypoint so the route can be drawn from scratch
+  const clearRoute = () => {
+    if (!isRouteEditable || waypoints.length === 0) return;
+
+    setRouteHistory(prev => pushRouteHistory(prev, { waypoints, legs: routeLegs }));
+    showRoute(EMPTY_ROUTE);
+  };
+
+  // Fill in elevation the route source didn't provide, leg by leg so edits keep it
+  const lookUpElevation = async () => {
+    const provider = createElevationProvider(elevationSettings);
+    const abortController = new AbortController();
+    elevationAbortRef.current = abortController;
+    try {
+      setIsLookingUpElevation(true);
+      setElevationError(null);
+      if (routeLegs.length > 0) {
+        const legs: RouteLeg[] = [];
+        for (const leg of routeLegs) {
+          legs.push({ ...leg, coordinates: await addElevations(provider, leg.coordinates, abortController.signal) });
+        }
+        setRouteLegs(legs);
+        setCoordinates(stitchRouteLegs(legs));
+      } else {
+        setCoordinates(await addElevations(provider, coordinates, abortController.signal));
       }
-      
-      console.log('Route generated successfully:', fullRoute.length, 'coordinates');
+      console.log(`Elevation added with ${provider.label}`);
+    } catch (error) {
+      // The route was changed while its elevations were being looked up
+      if (abortController.signal.aborted) return;
+      console.error('Error looking up elevation:', error);
+      setElevationError(error instanceof Error ? error.message : 'Unknown error while looking up elevation.');
+    } finally {
+      setIsLookingUpElevation(false);
+    }
+  };
+
+  // Load a route from a GPX, KML or GeoJSON file
+  const handleRouteFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setRouteFileName(file.name);
+    setRouteFileError(null);
+
+    try {
+      setIsProcessingRoute(true);
+      const content = await file.text();
+      const parsed = parseRouteFile(file.name, content);
+      loadRoute(EMPTY_ROUTE);
+      setRouteSource({ type: 'file', fileName: file.name });
+      setCoordinates(parsed.coordinates);
+      setMapCenter([parsed.coordinates[0].lat, parsed.coordinates[0].lng]);
+      setMapZoom(15);
+      console.log(`Loaded ${parsed.format} route${parsed.name ? ` "${parsed.name}"` : ''}:`, parsed.coordinates.length, 'coordinates');
     } catch (error) {
-      console.error('Error generating route from points:', error);
+      console.error('Error loading route file:', error);
+      setRouteFileError(error instanceof Error ? error.message : 'Unknown error while reading the route file.');
     } finally {
       setIsProcessingRoute(false);
     }
   };
 
-  // Reset map selection
-  const resetMapSelection = () => {
-    setSelectedStartPoint(null);
-    setSelectedEndPoint(null);
-    setMapSelectionStep('start');
-    setIsMapSelectionMode(false);
+  // Save the current route to the library
+  const saveRouteToLibrary = async (name: string): Promise<SavedRoute> => {
+    const savedRoute = await createSavedRoute({
+      name,
+      coordinates,
+      waypoints,
+      legs: routeLegs,
+      source: routeSource ?? { type: 'map' },
+      distance: calculateRouteDistance(coordinates),
+      lastTranscript: aiResponses
+    });
+    setActiveLibraryRouteId(savedRoute.id);
+    setActiveLibraryRouteName(savedRoute.name);
+    console.log('Route saved to library:', savedRoute.name);
+    return savedRoute;
+  };
+
+  // Point the route input controls at where a route came from
+  const showRouteSource = (source: RouteSource) => {
+    switch (source.type) {
+      case 'brouter':
+        setRouteInputMethod('url');
+        setRouteUrl(source.url);
+        setIsValidUrl(true);
+        break;
+      case 'map':
+        setRouteInputMethod('map');
+        break;
+      case 'file':
+        setRouteInputMethod('file');
+        setRouteFileName(source.fileName);
+        setRouteFileError(null);
+        break;
+    }
+  };
+
+  // Load a saved route together with its last narration transcript
+  const loadSavedRoute = (savedRoute: SavedRoute) => {
+    if (walkingState !== 'stopped') {
+      stopWalking();
+    }
+    endWalkSession();
+
+    // Routes saved before routing steps were kept have legs without them
+    loadRoute({
+      waypoints: savedRoute.waypoints,
+      legs: savedRoute.legs.map(leg => ({ ...leg, steps: leg.steps ?? [] }))
+    });
+    if (savedRoute.legs.length === 0) {
+      setCoordinates(savedRoute.coordinates);
+    }
+    setRouteSource(savedRoute.source);
+    setActiveLibraryRouteId(savedRoute.id);
+    setActiveLibraryRouteName(savedRoute.name);
+    setAiResponses(savedRoute.lastTranscript);
+    lastResponseRef.current = savedRoute.lastTranscript[0]?.message ?? '';
+    setCurrentCoordinate(null);
+    setCurrentCoordinateIndex(0);
+    setDistanceWalked(0);
+    setWalkedTrack([]);
+    setWalkRecording(EMPTY_WALK_RECORDING);
+    setWalkReplay(null);
+    showRouteSource(savedRoute.source);
+
+    if (savedRoute.coordinates.length > 0) {
+      setMapCenter([savedRoute.coordinates[0].lat, savedRoute.coordinates[0].lng]);
+      setMapZoom(15);
+    }
+    console.log('Loaded saved route:', savedRoute.name);
+  };
+
+  // Export the planned route
+  const exportRoute = (format: ExportFormat) => {
+    const name = `WalkRadio route ${new Date().toLocaleDateString()}`;
+    const content = format === 'gpx' ? routeToGpx(coordinates, name) : routeToGeoJson(coordinates, name);
+    downloadExport(content, 'walkradio-route', format);
+  };
+
+  // Export the walked track with narrations as waypoints
+  const exportWalkedTrack = (format: ExportFormat) => {
+    const name = `WalkRadio walk ${walkedTrack[0] ? new Date(walkedTrack[0].time).toLocaleString() : ''}`.trim();
+    const content = format === 'gpx'
+      ? walkToGpx(walkedTrack, aiResponses, name)
+      : walkToGeoJson(walkedTrack, aiResponses, name);
+    downloadExport(content, 'walkradio-walk', format);
   };
 
   return (
     <div className="App">
       <header className="App-header">
-        <h1>WalkRadio - AI Walking Companion</h1>
+        <h1>{t.appTitle}</h1>
+        <select
+          className="language-select"
+          value={listenerPreferences.language}
+          onChange={(e) => changeLanguage(e.target.value as Language)}
+          aria-label={t.language}
+        >
+          {(Object.keys(LANGUAGE_LABELS) as Language[]).map(language => (
+            <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+          ))}
+        </select>
       </header>
 
       <div className="main-container">
         {/* Input Section */}
         <div className="input-section">
+          {resumableSession && walkingState === 'stopped' && (
+            <div className="resume-walk">
+              <span>
+                {t.resumeWalkOn} <strong>{resumableSession.routeName}</strong>{' '}
+                {t.resumeUnfinished(formatDistance(resumableSession.distanceWalked), formatDuration(resumableSession.elapsedSeconds))}
+              </span>
+              <div className="resume-walk-actions">
+                <button type="button" onClick={() => resumeWalkSession(resumableSession)}>
+                  {t.resumeWalk}
+                </button>
+                <button type="button" onClick={() => setResumableSession(null)}>
+                  {t.dismiss}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <RouteLibrary
+            activeRouteId={activeLibraryRouteId}
+            canSave={coordinates.length >= 2}
+            onSave={saveRouteToLibrary}
+            onLoad={loadSavedRoute}
+            t={t}
+          />
+
+          <WalkHistory
+            activeSessionId={walkSession?.id ?? null}
+            onResume={resumeWalkSession}
+            onReplay={replayWalkSession}
+            t={t}
+          />
+
           {/* Route Selection Method */}
           <div className="route-method-selector">
             <div className="method-tabs">
               <button
                 type="button"
-                className={`method-tab ${!isMapSelectionMode ? 'active' : ''}`}
-                onClick={() => {
-                  setIsMapSelectionMode(false);
-                  resetMapSelection();
-                }}
+                className={`method-tab ${routeInputMethod === 'url' ? 'active' : ''}`}
+                onClick={() => setRouteInputMethod('url')}
               >
-                Paste BRouter URL
+                {t.pasteBRouterUrl}
               </button>
               <button
                 type="button"
-                className={`method-tab ${isMapSelectionMode ? 'active' : ''}`}
-                onClick={() => {
-                  setIsMapSelectionMode(true);
-                  setMapSelectionStep('start');
-                }}
+                className={`method-tab ${routeInputMethod === 'map' ? 'active' : ''}`}
+                onClick={() => setRouteInputMethod('map')}
               >
-                Select on Map
+                {t.selectOnMap}
+              </button>
+              <button
+                type="button"
+                className={`method-tab ${routeInputMethod === 'file' ? 'active' : ''}`}
+                onClick={() => setRouteInputMethod('file')}
+              >
+                {t.loadRouteFile}
               </button>
             </div>
           </div>
 
           {/* URL Input Method */}
-          {!isMapSelectionMode && (
+          {routeInputMethod === 'url' && (
             <div className="input-group">
-              <label htmlFor="routeUrl">BRouter Route URL:</label>
+              <label htmlFor="routeUrl">{t.brouterUrlLabel}</label>
               <div className="brouter-help">
-                <p>Create your route at <a href="https://brouter.damsy.net/" target="_blank" rel="noopener noreferrer">BRouter Map</a></p>
-                <small>1. Go to BRouter Map 2. Draw your route 3. Copy the URL 4. Paste it here</small>
+                <p>{t.brouterHelp} <a href="https://brouter.damsy.net/" target="_blank" rel="noopener noreferrer">BRouter Map</a></p>
+                <small>{t.brouterSteps}</small>
               </div>
               <input
                 id="routeUrl"
@@ -759,49 +1912,247 @@ function App() {
             </div>
           )}
 
+          {/* File Input Method */}
+          {routeInputMethod === 'file' && (
+            <div className="input-group">
+              <label htmlFor="routeFile">{t.routeFileLabel}</label>
+              <div className="brouter-help">
+                <p>{t.routeFileHelp}</p>
+                <small>{t.routeFileFormats}</small>
+              </div>
+              <input
+                id="routeFile"
+                type="file"
+                accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json,application/json"
+                onChange={handleRouteFileChange}
+                disabled={isProcessingRoute}
+                className="route-file-input"
+              />
+              {routeFileName && !routeFileError && coordinates.length > 0 && (
+                <div className="route-ready">
+                  <p>{t.routeFileLoaded(routeFileName, coordinates.length)}</p>
+                </div>
+              )}
+              {routeFileError && (
+                <div className="route-error">
+                  <p>{routeFileError}</p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Map Selection Method */}
           {isMapSelectionMode && (
             <div className="map-selection-panel">
               <div className="selection-instructions">
-                <h4>Select Your Route Points</h4>
+                <h4>{t.buildYourRoute}</h4>
                 <div className="instruction-step">
                   <span className="step-number">1</span>
-                  <span className="step-text">
-                    {mapSelectionStep === 'start' 
-                      ? 'Click on the map to select your start point' 
-                      : 'Click on the map to select your end point'
-                    }
-                  </span>
+                  <span className="step-text">{t.mapStepAdd}</span>
                 </div>
-                {selectedStartPoint && (
+                <div className="instruction-step">
+                  <span className="step-number">2</span>
+                  <span className="step-text">{t.mapStepMove}</span>
+                </div>
+                <div className="instruction-step">
+                  <span className="step-number">3</span>
+                  <span className="step-text">{t.mapStepInsert}</span>
+                </div>
+                {waypoints.length > 0 && (
                   <div className="selected-points">
-                    <div className="point-item">
-                      <span className="point-label start">Start Point:</span>
-                      <span className="point-coords">
-                        {selectedStartPoint.lat.toFixed(6)}, {selectedStartPoint.lng.toFixed(6)}
-                      </span>
-                    </div>
-                    {selectedEndPoint && (
-                      <div className="point-item">
-                        <span className="point-label end">End Point:</span>
-                        <span className="point-coords">
-                          {selectedEndPoint.lat.toFixed(6)}, {selectedEndPoint.lng.toFixed(6)}
-                        </span>
-                      </div>
-                    )}
+                    {waypoints.map((waypoint, index) => {
+                      const pointType = index === 0 ? 'start' : index === waypoints.length - 1 ? 'end' : 'via';
+                      return (
+                        <div key={index} className="point-item">
+                          <span className={`point-label ${pointType}`}>
+                            {pointType === 'start' ? t.startPoint : pointType === 'end' ? t.endPoint : t.viaPoint(index)}:
+                          </span>
+                          <span className="point-coords">
+                            {waypoint.lat.toFixed(6)}, {waypoint.lng.toFixed(6)}
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
                 )}
-                {selectedStartPoint && selectedEndPoint && (
+                <div className="route-editor-actions">
+                  <button
+                    type="button"
+                    onClick={undoRouteEdit}
+                    disabled={!isRouteEditable || routeHistory.past.length === 0}
+                  >
+                    {t.undo}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={redoRouteEdit}
+                    disabled={!isRouteEditable || routeHistory.future.length === 0}
+                  >
+                    {t.redo}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clearRoute}
+                    disabled={!isRouteEditable || waypoints.length === 0}
+                  >
+                    {t.clear}
+                  </button>
+                </div>
+                {walkingState !== 'stopped' && (
+                  <p className="route-editor-note">{t.stopToEditRoute}</p>
+                )}
+                {waypoints.length >= 2 && (
                   <div className="route-ready">
-                    <p>Route ready! You can now start walking.</p>
+                    <p>{t.routeReady}</p>
                   </div>
                 )}
               </div>
             </div>
           )}
 
+          {/* Routing Provider */}
+          {routeInputMethod !== 'file' && (
+            <div className="input-group routing-settings">
+              <label htmlFor="routingProvider">{t.routingProvider}</label>
+              <select
+                id="routingProvider"
+                value={routingSettings.providerId}
+                onChange={(e) => setRoutingSettings(prev => ({ ...prev, providerId: e.target.value as RoutingProviderId }))}
+                className="routing-select"
+              >
+                {(Object.keys(ROUTING_PROVIDER_LABELS) as RoutingProviderId[]).map(id => (
+                  <option key={id} value={id}>{ROUTING_PROVIDER_LABELS[id]}</option>
+                ))}
+              </select>
+              {routingSettings.providerId === 'osrm' && (
+                <div className="routing-options">
+                  <input
+                    type="text"
+                    value={routingSettings.osrmBaseUrl}
+                    onChange={(e) => setRoutingSettings(prev => ({ ...prev, osrmBaseUrl: e.target.value }))}
+                    placeholder={t.baseUrl('OSRM')}
+                    aria-label={t.baseUrl('OSRM')}
+                  />
+                  <input
+                    type="text"
+                    value={routingSettings.osrmProfile}
+                    onChange={(e) => setRoutingSettings(prev => ({ ...prev, osrmProfile: e.target.value }))}
+                    placeholder="foot"
+                    aria-label={t.routingProfile('OSRM')}
+                  />
+                </div>
+              )}
+              {routingSettings.providerId === 'brouter' && (
+                <div className="routing-options">
+                  <input
+                    type="text"
+                    value={routingSettings.brouterBaseUrl}
+                    onChange={(e) => setRoutingSettings(prev => ({ ...prev, brouterBaseUrl: e.target.value }))}
+                    placeholder={t.baseUrl('BRouter')}
+                    aria-label={t.baseUrl('BRouter')}
+                  />
+                  <input
+                    type="text"
+                    value={routingSettings.brouterProfile}
+                    onChange={(e) => setRoutingSettings(prev => ({ ...prev, brouterProfile: e.target.value }))}
+                    placeholder="hiking-beta"
+                    aria-label={t.routingProfile('BRouter')}
+                  />
+                </div>
+              )}
+              {waypoints.length >= 2 && (
+                <button
+                  type="button"
+                  className="reroute-btn"
+                  onClick={rerouteWaypoints}
+                  disabled={isProcessingRoute}
+                >
+                  {t.rerouteWith(ROUTING_PROVIDER_LABELS[routingSettings.providerId])}
+                </button>
+              )}
+              {fallbackLegs.length > 0 && (
+                <div className="route-warning">
+                  <p>{t.fallbackRouteInUse(fallbackLegs.map(({ index }) => index + 1).join(', '), fallbackLegs.length)}</p>
+                  <small>{fallbackLegs[0].leg.fallbackReason}</small>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Walking Mode */}
+          <div className="input-group">
+            <label>{t.walkingMode}</label>
+            <div className="method-tabs">
+              <button
+                type="button"
+                className={`method-tab ${walkMode === 'simulated' ? 'active' : ''}`}
+                onClick={() => setWalkMode('simulated')}
+                disabled={walkingState !== 'stopped'}
+              >
+                {t.simulated}
+              </button>
+              <button
+                type="button"
+                className={`method-tab ${walkMode === 'live' ? 'active' : ''}`}
+                onClick={() => setWalkMode('live')}
+                disabled={walkingState !== 'stopped'}
+              >
+                {t.liveGps}
+              </button>
+            </div>
+            {walkMode === 'live' && (
+              <div className="live-settings">
+                <label htmlFor="offRouteThreshold">{t.offRouteThreshold}</label>
+                <input
+                  id="offRouteThreshold"
+                  type="number"
+                  value={offRouteThreshold}
+                  onChange={(e) => setOffRouteThreshold(Math.max(5, Number(e.target.value)))}
+                  min="5"
+                  step="5"
+                />
+                <label htmlFor="replayTrace">{t.replayTraceLabel}</label>
+                <input
+                  id="replayTrace"
+                  type="file"
+                  accept=".gpx,.geojson,.json"
+                  onChange={handleReplayTraceChange}
+                  disabled={walkingState !== 'stopped'}
+                  className="route-file-input"
+                />
+                {replayTrace && (
+                  <div className="replay-trace">
+                    <span>{t.traceFixes(replayTraceName, replayTrace.length)}</span>
+                    <select
+                      value={replaySpeed}
+                      onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                      disabled={walkingState !== 'stopped'}
+                      aria-label={t.replaySpeed}
+                    >
+                      {[1, 2, 5, 10].map(speed => (
+                        <option key={speed} value={speed}>{speed}x</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setReplayTrace(null)}
+                      disabled={walkingState !== 'stopped'}
+                    >
+                      {t.useDeviceGps}
+                    </button>
+                  </div>
+                )}
+                {liveError && (
+                  <div className="route-error">
+                    <p>{liveError}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           <div className="input-group">
-            <label htmlFor="walkingPace">Walking Pace (km/h):</label>
+            <label htmlFor="walkingPace">{t.walkingPace}</label>
             <div className="pace-input-container">
               <button 
                 type="button" 
@@ -832,6 +2183,376 @@ function App() {
                 +
               </button>
             </div>
+            <select
+              value={paceModel}
+              onChange={(e) => setPaceModel(e.target.value as PaceModel)}
+              className="routing-select pace-model-select"
+              aria-label={t.paceModel}
+            >
+              {PACE_MODELS.map(model => (
+                <option key={model} value={model}>{t.paceModels[model]}</option>
+              ))}
+            </select>
+            {paceModel === 'tobler' && !plannedRouteIndex.elevation && coordinates.length > 0 && (
+              <p className="elevation-note">{t.noElevationForPace}</p>
+            )}
+            {walkMode === 'simulated' && (
+              <div className="simulation-options">
+                <label>
+                  {t.simulationSpeed}
+                  <select
+                    value={simulationSpeed}
+                    onChange={(e) => setSimulationSpeed(Number(e.target.value))}
+                  >
+                    {SIMULATION_SPEEDS.map(speed => (
+                      <option key={speed} value={speed}>{speed}x</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={isStepMode}
+                    onChange={(e) => setIsStepMode(e.target.checked)}
+                  />
+                  {t.stepMode}
+                </label>
+                <small className="elevation-note">
+                  {t.simulationSpeedHint} {t.seekHint}
+                </small>
+              </div>
+            )}
+          </div>
+
+          {/* Elevation */}
+          <div className="input-group elevation-settings">
+            <label htmlFor="elevationProvider">{t.elevation}</label>
+            <p className="elevation-note">
+              {coordinates.length === 0
+                ? t.elevationNoRoute
+                : plannedRouteIndex.elevation
+                  ? t.elevationAvailable
+                  : t.elevationMissing}
+            </p>
+            <div className="elevation-lookup">
+              <select
+                id="elevationProvider"
+                value={elevationSettings.providerId}
+                onChange={(e) => setElevationSettings(prev => ({ ...prev, providerId: e.target.value as ElevationProviderId }))}
+                className="routing-select"
+              >
+                {(Object.keys(ELEVATION_PROVIDER_LABELS) as ElevationProviderId[]).map(id => (
+                  <option key={id} value={id}>{ELEVATION_PROVIDER_LABELS[id]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={elevationSettings.providerId === 'open-meteo' ? elevationSettings.openMeteoUrl : elevationSettings.openElevationUrl}
+                onChange={(e) => {
+                  const url = e.target.value;
+                  setElevationSettings(prev => prev.providerId === 'open-meteo'
+                    ? { ...prev, openMeteoUrl: url }
+                    : { ...prev, openElevationUrl: url });
+                }}
+                placeholder={t.elevationServiceUrl}
+                aria-label={t.elevationServiceUrl}
+              />
+              <button
+                type="button"
+                onClick={lookUpElevation}
+                disabled={isLookingUpElevation || walkingState !== 'stopped' || coordinates.length === 0 || plannedRouteIndex.elevation !== undefined}
+              >
+                {isLookingUpElevation ? t.lookingUp : t.lookUpElevation}
+              </button>
+            </div>
+            {elevationError && (
+              <div className="route-error">
+                <p>{elevationError}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Narration Provider */}
+          <div className="input-group">
+            <label htmlFor="narrationProvider">{t.narrator}</label>
+            <select
+              id="narrationProvider"
+              value={narratorSettings.providerId}
+              onChange={(e) => setNarratorSettings(prev => ({ ...prev, providerId: e.target.value as NarrationProviderId }))}
+              className="routing-select"
+            >
+              {(Object.keys(NARRATION_PROVIDER_LABELS) as NarrationProviderId[]).map(id => (
+                <option key={id} value={id}>{NARRATION_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+            {narratorSettings.providerId === 'langflow' && (
+              <div className="narrator-options">
+                <input
+                  type="text"
+                  value={narratorSettings.langflowBaseUrl}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, langflowBaseUrl: e.target.value }))}
+                  placeholder={t.baseUrl('LangFlow')}
+                  aria-label={t.baseUrl('LangFlow')}
+                />
+                <input
+                  type="text"
+                  value={narratorSettings.langflowFlowId}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, langflowFlowId: e.target.value }))}
+                  placeholder={t.flowId}
+                  aria-label={t.flowId}
+                />
+                <input
+                  type="password"
+                  value={narratorSettings.langflowApiKey}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, langflowApiKey: e.target.value }))}
+                  placeholder={t.apiKeyOptional}
+                  aria-label={t.apiKeyOptional}
+                />
+                <input
+                  type="text"
+                  value={narratorSettings.langflowTweakComponent}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, langflowTweakComponent: e.target.value }))}
+                  placeholder={t.agentComponentId}
+                  aria-label={t.agentComponentId}
+                />
+              </div>
+            )}
+            {narratorSettings.providerId === 'openai' && (
+              <div className="narrator-options">
+                <input
+                  type="text"
+                  value={narratorSettings.openaiBaseUrl}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, openaiBaseUrl: e.target.value }))}
+                  placeholder={t.chatCompletionsBaseUrl}
+                  aria-label={t.chatCompletionsBaseUrl}
+                />
+                <input
+                  type="text"
+                  value={narratorSettings.openaiModel}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, openaiModel: e.target.value }))}
+                  placeholder={t.model}
+                  aria-label={t.model}
+                />
+                <input
+                  type="password"
+                  value={narratorSettings.openaiApiKey}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, openaiApiKey: e.target.value }))}
+                  placeholder={t.apiKey}
+                  aria-label={t.apiKey}
+                />
+              </div>
+            )}
+            <label className="narrator-stream-toggle">
+              <input
+                type="checkbox"
+                checked={narratorSettings.stream}
+                onChange={(e) => setNarratorSettings(prev => ({ ...prev, stream: e.target.checked }))}
+              />
+              {t.streamNarration}
+            </label>
+            <label className="narrator-stream-toggle">
+              <input
+                type="checkbox"
+                checked={narratorSettings.prefetch}
+                onChange={(e) => setNarratorSettings(prev => ({ ...prev, prefetch: e.target.checked }))}
+              />
+              {t.prefetchNarration}
+            </label>
+            <div className="narrator-retry-options">
+              <div className="trigger-option">
+                <label htmlFor="narratorTimeout">{t.giveUpAfter}</label>
+                <input
+                  id="narratorTimeout"
+                  type="number"
+                  value={narratorSettings.timeoutSeconds}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, timeoutSeconds: Math.max(5, Number(e.target.value)) }))}
+                  min="5"
+                  step="5"
+                />
+                <span>{t.secondsWithoutReply}</span>
+              </div>
+              <div className="trigger-option">
+                <label htmlFor="narratorRetries">{t.retryFailedRequests}</label>
+                <input
+                  id="narratorRetries"
+                  type="number"
+                  value={narratorSettings.maxRetries}
+                  onChange={(e) => setNarratorSettings(prev => ({ ...prev, maxRetries: Math.min(5, Math.max(0, Number(e.target.value))) }))}
+                  min="0"
+                  max="5"
+                  step="1"
+                />
+                <span>{t.times}</span>
+              </div>
+            </div>
+            {narratorSettings.providerId === 'mock' && (
+              <small className="narrator-hint">{t.mockNarratorHint}</small>
+            )}
+          </div>
+
+          {/* Listener Preferences */}
+          <ListenerPreferencesPanel
+            preferences={listenerPreferences}
+            onChange={setListenerPreferences}
+            t={t}
+          />
+
+          {/* Points of Interest */}
+          <div className="input-group poi-settings">
+            <label className="poi-toggle">
+              <input
+                type="checkbox"
+                checked={poiSettings.enabled}
+                onChange={(e) => setPoiSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+              />
+              {t.tellAboutPlaces}
+            </label>
+            {poiSettings.enabled && (
+              <>
+                <select
+                  value={poiSettings.providerId}
+                  onChange={(e) => setPoiSettings(prev => ({ ...prev, providerId: e.target.value as PoiProviderId }))}
+                  className="routing-select"
+                  aria-label={t.placesSource}
+                >
+                  {(Object.keys(POI_PROVIDER_LABELS) as PoiProviderId[]).map(id => (
+                    <option key={id} value={id}>{POI_PROVIDER_LABELS[id]}</option>
+                  ))}
+                </select>
+                <div className="narrator-options">
+                  {poiSettings.providerId === 'overpass' ? (
+                    <input
+                      type="text"
+                      value={poiSettings.overpassUrl}
+                      onChange={(e) => setPoiSettings(prev => ({ ...prev, overpassUrl: e.target.value }))}
+                      placeholder={t.apiUrl('Overpass')}
+                      aria-label={t.apiUrl('Overpass')}
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={poiSettings.nominatimUrl}
+                      onChange={(e) => setPoiSettings(prev => ({ ...prev, nominatimUrl: e.target.value }))}
+                      placeholder={t.baseUrl('Nominatim')}
+                      aria-label={t.baseUrl('Nominatim')}
+                    />
+                  )}
+                </div>
+                <div className="trigger-option">
+                  <label htmlFor="poiRadius">{t.within}</label>
+                  <input
+                    id="poiRadius"
+                    type="number"
+                    value={poiSettings.radius}
+                    onChange={(e) => setPoiSettings(prev => ({ ...prev, radius: Math.max(25, Number(e.target.value)) }))}
+                    min="25"
+                    step="25"
+                  />
+                  <span>{t.metersUpTo}</span>
+                  <input
+                    type="number"
+                    value={poiSettings.maxPerRequest}
+                    onChange={(e) => setPoiSettings(prev => ({ ...prev, maxPerRequest: Math.max(1, Number(e.target.value)) }))}
+                    min="1"
+                    max="10"
+                    aria-label={t.placesPerNarration}
+                  />
+                  <span>{t.placesPerNarration}</span>
+                </div>
+                {pois.length > 0 && (
+                  <small className="narrator-hint">
+                    {t.placesLoaded(pois.length, mentionedPoiIds.length)}
+                  </small>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Narration Triggers */}
+          <div className="input-group narration-triggers">
+            <label>{t.narrate}</label>
+            <div className="trigger-option">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={triggerSettings.timeEnabled}
+                  onChange={(e) => setTriggerSettings(prev => ({ ...prev, timeEnabled: e.target.checked }))}
+                />
+                {t.every}
+              </label>
+              <input
+                type="number"
+                value={triggerSettings.intervalSeconds}
+                onChange={(e) => setTriggerSettings(prev => ({ ...prev, intervalSeconds: Math.max(5, Number(e.target.value)) }))}
+                min="5"
+                step="5"
+                disabled={!triggerSettings.timeEnabled}
+                aria-label={t.narrationIntervalSeconds}
+              />
+              <span>{t.seconds}</span>
+            </div>
+            <div className="trigger-option">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={triggerSettings.distanceEnabled}
+                  onChange={(e) => setTriggerSettings(prev => ({ ...prev, distanceEnabled: e.target.checked }))}
+                />
+                {t.every}
+              </label>
+              <input
+                type="number"
+                value={triggerSettings.distanceMeters}
+                onChange={(e) => setTriggerSettings(prev => ({ ...prev, distanceMeters: Math.max(10, Number(e.target.value)) }))}
+                min="10"
+                step="10"
+                disabled={!triggerSettings.distanceEnabled}
+                aria-label={t.narrationDistanceMeters}
+              />
+              <span>{t.meters}</span>
+            </div>
+            <div className="trigger-option">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={triggerSettings.maneuverEnabled}
+                  onChange={(e) => setTriggerSettings(prev => ({ ...prev, maneuverEnabled: e.target.checked }))}
+                />
+                {t.beforeTurnsFrom}
+              </label>
+              <input
+                type="number"
+                value={triggerSettings.maneuverLookaheadMeters}
+                onChange={(e) => setTriggerSettings(prev => ({ ...prev, maneuverLookaheadMeters: Math.max(5, Number(e.target.value)) }))}
+                min="5"
+                step="5"
+                disabled={!triggerSettings.maneuverEnabled}
+                aria-label={t.turnAnnouncementDistance}
+              />
+              <span>{t.metersAhead}</span>
+            </div>
+            <div className="trigger-option">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={triggerSettings.arrivalEnabled}
+                  onChange={(e) => setTriggerSettings(prev => ({ ...prev, arrivalEnabled: e.target.checked }))}
+                />
+                {t.atStartAndEnd}
+              </label>
+            </div>
+            <div className="trigger-option">
+              <label htmlFor="minNarrationGap">{t.atMostOnceEvery}</label>
+              <input
+                id="minNarrationGap"
+                type="number"
+                value={triggerSettings.minGapSeconds}
+                onChange={(e) => setTriggerSettings(prev => ({ ...prev, minGapSeconds: Math.max(0, Number(e.target.value)) }))}
+                min="0"
+                step="1"
+              />
+              <span>{t.seconds}</span>
+            </div>
           </div>
 
           {/* Walking Status Display */}
@@ -840,41 +2561,83 @@ function App() {
               className="dropdown-toggle"
               onClick={() => setShowWalkingStatus(!showWalkingStatus)}
             >
-              Walking Status {showWalkingStatus ? '▼' : '▶'}
+              {t.walkingStatus} {showWalkingStatus ? '▼' : '▶'}
             </button>
             {showWalkingStatus && (
               <div className="walking-status">
-                <h3>Walking Status</h3>
+                <h3>{t.walkingStatus}</h3>
                 <div className="status-grid">
                   <div className="status-item">
-                    <span className="status-label">State:</span>
+                    <span className="status-label">{t.statusState}</span>
                     <span className={`status-value status-${walkingState}`}>
-                      {walkingState.charAt(0).toUpperCase() + walkingState.slice(1)}
+                      {t.walkingStates[walkingState]}
                     </span>
                   </div>
                   <div className="status-item">
-                    <span className="status-label">Current Pace:</span>
+                    <span className="status-label">{t.statusCurrentPace}</span>
                     <span className="status-value">{walkingPace} km/h</span>
                   </div>
                   <div className="status-item">
-                    <span className="status-label">Coordinate Updates:</span>
-                    <span className="status-value">Every 1 second</span>
+                    <span className="status-label">{t.statusCoordinateUpdates}</span>
+                    <span className="status-value">{t.everySecond}</span>
+                  </div>
+                  <div className="status-item">
+                    <span className="status-label">{t.statusAiUpdates}</span>
+                    <span className="status-value">{describeNarrationSettings(triggerSettings, t)}</span>
                   </div>
                   <div className="status-item">
-                    <span className="status-label">AI Updates:</span>
-                    <span className="status-value">Every 20 seconds</span>
+                    <span className="status-label">{t.statusNarrator}</span>
+                    <span className={`status-value narrator-health ${narratorHealth.status}`}>
+                      {describeNarratorHealth(narratorHealth, t)}
+                    </span>
                   </div>
+                  {narratorSettings.prefetch && walkMode === 'simulated' && (
+                    <div className="status-item">
+                      <span className="status-label">{t.statusPrefetched}</span>
+                      <span className="status-value">
+                        {t.prefetchSummary(prefetchStatus)}
+                      </span>
+                    </div>
+                  )}
+                  {lastNarrationTrigger && (
+                    <div className="status-item">
+                      <span className="status-label">{t.statusLastNarration}</span>
+                      <span className="status-value">{describeNarrationTrigger(lastNarrationTrigger, t)}</span>
+                    </div>
+                  )}
                   {walkingState === 'walking' && nextAiCallTime > 0 && (
                     <div className="status-item">
-                      <span className="status-label">Next AI Call:</span>
+                      <span className="status-label">{t.statusNextTimedCall}</span>
                       <span className="status-value">
                         {Math.max(0, Math.ceil((nextAiCallTime - Date.now()) / 1000))}s
                       </span>
                     </div>
                   )}
+                  {walkMode === 'live' && liveUpdate && (
+                    <>
+                      <div className="status-item">
+                        <span className="status-label">{t.statusActualPace}</span>
+                        <span className="status-value">
+                          {liveUpdate.pace !== null ? `${liveUpdate.pace.toFixed(1)} km/h` : t.measuring}
+                        </span>
+                      </div>
+                      <div className="status-item">
+                        <span className="status-label">{t.statusDistanceFromRoute}</span>
+                        <span className={`status-value ${liveUpdate.isOffRoute ? 'status-off-route' : ''}`}>
+                          {Math.round(liveUpdate.position.offRouteDistance)} m{liveUpdate.isOffRoute ? ` ${t.offRoute}` : ''}
+                        </span>
+                      </div>
+                      {liveUpdate.fix.accuracy !== null && (
+                        <div className="status-item">
+                          <span className="status-label">{t.statusGpsAccuracy}</span>
+                          <span className="status-value">±{Math.round(liveUpdate.fix.accuracy)} m</span>
+                        </div>
+                      )}
+                    </>
+                  )}
                   {currentCoordinate && (
                     <div className="status-item">
-                      <span className="status-label">Current Position:</span>
+                      <span className="status-label">{t.statusCurrentPosition}</span>
                       <span className="status-value">
                         {currentCoordinate.lat.toFixed(6)}, {currentCoordinate.lng.toFixed(6)}
                       </span>
@@ -885,6 +2648,10 @@ function App() {
             )}
           </div>
 
+          {coordinates.length > 1 && walkingState !== 'stopped' && (
+            <WalkStatistics stats={walkStats} isWalking={walkingState === 'walking'} t={t} />
+          )}
+
           <div className="control-buttons">
             <button
               onClick={buttonConfig.primaryAction}
@@ -900,12 +2667,44 @@ function App() {
                 {buttonConfig.secondaryText}
               </button>
             )}
+            {walkingState === 'stopped' && walkRecording.ticks.length > 0 && !walkReplay && (
+              <button
+                onClick={() => openWalkReplay(walkRecording)}
+                className="walk-btn replay"
+              >
+                {t.replayWalk}
+              </button>
+            )}
           </div>
+
+          {walkMode === 'simulated' && isStepMode && walkingState === 'paused' && (
+            <div className="step-controls">
+              <button type="button" onClick={() => stepWalk('tick')}>{t.step}</button>
+              <button type="button" onClick={() => stepWalk('segment')}>{t.nextSegment}</button>
+              <span>{t.stepPosition(formatDistance(distanceWalked), currentCoordinateIndex + 1, Math.max(1, coordinates.length - 1))}</span>
+            </div>
+          )}
+
+          {walkMode === 'simulated' && walkingState === 'stopped' && startDistance > 0 && (
+            <div className="step-controls">
+              <span>{t.walkStartsAt(formatDistance(startDistance))}</span>
+              <button type="button" onClick={() => setStartDistance(0)}>{t.startFromBeginning}</button>
+            </div>
+          )}
+
+          {walkSummary && (
+            <WalkSummary
+              routeName={walkSession?.routeName ?? activeLibraryRouteName ?? t.yourRoute}
+              stats={walkSummary}
+              onDismiss={() => setIsWalkSummaryDismissed(true)}
+              t={t}
+            />
+          )}
         </div>
 
         {/* Map Section */}
         <div className="map-section">
-          <h3>Route Map</h3>
+          <h3>{t.routeMap}</h3>
           <div className="map-container">
             <MapContainer
               center={mapCenter}
@@ -917,63 +2716,144 @@ function App() {
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
               />
               
-              {/* Route line */}
-              {coordinates.length > 1 && (
+              {/* Route line, drawing straight-line fallback legs dashed */}
+              {routeLegs.length > 0 ? (
+                routeLegs.map((leg, index) => (
+                  <DraggableRouteLeg
+                    key={`leg-${index}`}
+                    positions={leg.coordinates.map(coord => [coord.lat, coord.lng])}
+                    color={leg.fallbackReason ? 'red' : 'blue'}
+                    dashArray={leg.fallbackReason ? '8 8' : undefined}
+                    isEditable={isRouteEditable}
+                    suppressMapClickRef={suppressMapClickRef}
+                    onDragInsert={(coordinate) => editRoute({ type: 'insert', legIndex: index, coordinate })}
+                    onClick={seekToPoint}
+                  />
+                ))
+              ) : coordinates.length > 1 && (
                 <Polyline
                   positions={coordinates.map(coord => [coord.lat, coord.lng])}
                   color="blue"
                   weight={3}
                   opacity={0.7}
+                  eventHandlers={{ click: (e) => seekToPoint({ lat: e.latlng.lat, lng: e.latlng.lng }) }}
                 />
               )}
               
-              {/* Start marker */}
-              {coordinates.length > 0 && (
-                <Marker
-                  position={[coordinates[0].lat, coordinates[0].lng]}
-                  icon={startIcon}
-                >
-                  <Popup>Start Point</Popup>
-                </Marker>
+              {isMapSelectionMode ? (
+                /* Editable waypoint markers */
+                waypoints.map((waypoint, index) => {
+                  const isStart = index === 0;
+                  const isEnd = index > 0 && index === waypoints.length - 1;
+                  return (
+                    <Marker
+                      key={`waypoint-${index}`}
+                      position={[waypoint.lat, waypoint.lng]}
+                      icon={isStart ? startIcon : isEnd ? endIcon : viaIcon}
+                      draggable={isRouteEditable}
+                      eventHandlers={{
+                        click: () => editRoute({ type: 'remove', index }),
+                        dragend: (event) => {
+                          const { lat, lng } = (event.target as L.Marker).getLatLng();
+                          editRoute({ type: 'move', index, coordinate: { lat, lng } });
+                        }
+                      }}
+                    />
+                  );
+                })
+              ) : (
+                <>
+                  {/* Start marker */}
+                  {coordinates.length > 0 && (
+                    <Marker
+                      position={[coordinates[0].lat, coordinates[0].lng]}
+                      icon={startIcon}
+                    >
+                      <Popup>{t.startPoint}</Popup>
+                    </Marker>
+                  )}
+                  
+                  {/* End marker */}
+                  {coordinates.length > 1 && (
+                    <Marker
+                      position={[coordinates[coordinates.length - 1].lat, coordinates[coordinates.length - 1].lng]}
+                      icon={endIcon}
+                    >
+                      <Popup>{t.endPoint}</Popup>
+                    </Marker>
+                  )}
+                  
+                  {/* Via point markers */}
+                  {waypoints.slice(1, -1).map((waypoint, index) => (
+                    <Marker
+                      key={`via-${index}`}
+                      position={[waypoint.lat, waypoint.lng]}
+                      icon={viaIcon}
+                    >
+                      <Popup>{t.viaPoint(index + 1)}</Popup>
+                    </Marker>
+                  ))}
+                </>
               )}
               
-              {/* End marker */}
-              {coordinates.length > 1 && (
+              {/* Points of interest, faded once the guide has mentioned them */}
+              {poiSettings.enabled && pois.map(poi => (
                 <Marker
-                  position={[coordinates[coordinates.length - 1].lat, coordinates[coordinates.length - 1].lng]}
-                  icon={endIcon}
+                  key={poi.id}
+                  position={[poi.coordinate.lat, poi.coordinate.lng]}
+                  icon={mentionedPoiIds.includes(poi.id) ? mentionedPoiIcon : poiIcon}
                 >
-                  <Popup>End Point</Popup>
+                  <Popup>
+                    <strong>{poi.name}</strong><br />
+                    {poi.category}{mentionedPoiIds.includes(poi.id) ? ` · ${t.mentioned}` : ''}
+                  </Popup>
                 </Marker>
-              )}
-              
-              {/* Current position marker */}
-              {currentCoordinate && (
+              ))}
+
+              {/* Raw GPS position in live mode */}
+              {walkMode === 'live' && liveUpdate && (
                 <Marker
-                  position={[currentCoordinate.lat, currentCoordinate.lng]}
-                  icon={currentIcon}
+                  position={[liveUpdate.fix.coordinate.lat, liveUpdate.fix.coordinate.lng]}
+                  icon={gpsIcon}
                 >
-                  <Popup>Current Position</Popup>
+                  <Popup>
+                    {t.gpsPosition}{liveUpdate.fix.accuracy !== null ? ` (±${Math.round(liveUpdate.fix.accuracy)} m)` : ''}
+                  </Popup>
                 </Marker>
               )}
               
-              {/* Selected start point marker */}
-              {selectedStartPoint && (
+              {/* Walk replay: where each narration was asked for, and the replayed position */}
+              {walkReplay && walkRecording.narrations.map(narration => (
+                <Marker
+                  key={`narration-${narration.responseId}`}
+                  position={[narration.coordinate.lat, narration.coordinate.lng]}
+                  icon={narrationPointIcon}
+                  eventHandlers={{ click: () => walkReplay.seek(narration.time) }}
+                />
+              ))}
+              {elevationHoverPoint && (
+                <Marker
+                  position={[elevationHoverPoint.lat, elevationHoverPoint.lng]}
+                  icon={elevationHoverIcon}
+                  interactive={false}
+                />
+              )}
+              {replayTick && (
                 <Marker
-                  position={[selectedStartPoint.lat, selectedStartPoint.lng]}
-                  icon={startIcon}
+                  position={[replayTick.coordinate.lat, replayTick.coordinate.lng]}
+                  icon={replayIcon}
                 >
-                  <Popup>Selected Start Point</Popup>
+                  <Popup>{t.replayPosition}</Popup>
                 </Marker>
               )}
-              
-              {/* Selected end point marker */}
-              {selectedEndPoint && (
+
+              {/* Current position marker */}
+              {currentCoordinate && !walkReplay && (
                 <Marker
-                  position={[selectedEndPoint.lat, selectedEndPoint.lng]}
-                  icon={endIcon}
+                  position={[currentCoordinate.lat, currentCoordinate.lng]}
+                  icon={currentIcon}
                 >
-                  <Popup>Selected End Point</Popup>
+                  <Popup>{t.currentPosition}</Popup>
                 </Marker>
               )}
               
@@ -987,14 +2867,56 @@ function App() {
               <div 
                 className="progress-bar-fill"
                 style={{ 
-                  width: `${coordinates.length > 0 ? Math.round(((currentCoordinateIndex + 1) / coordinates.length) * 100) : 0}%` 
+                  width: `${Math.round(walkStats.progress * 100)}%` 
                 }}
               ></div>
             </div>
             <div className="progress-text">
-              {coordinates.length > 0 ? `${Math.round(((currentCoordinateIndex + 1) / coordinates.length) * 100)}%` : '0%'}
+              {Math.round(walkStats.progress * 100)}%
+              {walkStats.totalDistance > 0 && ` · ${formatDistance(walkStats.distanceWalked)} / ${formatDistance(walkStats.totalDistance)}`}
             </div>
           </div>
+
+          <ElevationProfile
+            coordinates={coordinates}
+            distanceWalked={walkingState !== 'stopped' ? distanceWalked : null}
+            hoverDistance={elevationHoverDistance}
+            onHover={setElevationHoverDistance}
+            t={t}
+          />
+
+          {walkReplay && walkReplayStatus && (
+            <WalkReplay
+              player={walkReplay}
+              status={walkReplayStatus}
+              recording={walkRecording}
+              transcript={aiResponses}
+              onClose={() => setWalkReplay(null)}
+              t={t}
+            />
+          )}
+        </div>
+
+        {/* Turn-by-turn Directions */}
+        <DirectionsPanel
+          maneuvers={maneuvers}
+          distanceWalked={walkingState !== 'stopped' ? distanceWalked : null}
+          t={t}
+        />
+
+        {/* Export */}
+        <div className="export-section">
+          <h3>{t.exportTitle}</h3>
+          <div className="export-group">
+            <span className="export-label">{t.plannedRoute}</span>
+            <button type="button" onClick={() => exportRoute('gpx')} disabled={coordinates.length < 2}>GPX</button>
+            <button type="button" onClick={() => exportRoute('geojson')} disabled={coordinates.length < 2}>GeoJSON</button>
+          </div>
+          <div className="export-group">
+            <span className="export-label">{t.walkedTrack(walkedTrack.length)}</span>
+            <button type="button" onClick={() => exportWalkedTrack('gpx')} disabled={walkedTrack.length < 2}>GPX</button>
+            <button type="button" onClick={() => exportWalkedTrack('geojson')} disabled={walkedTrack.length < 2}>GeoJSON</button>
+          </div>
         </div>
 
         {/* Coordinates Dropdown */}
@@ -1003,18 +2925,20 @@ function App() {
             className="dropdown-toggle"
             onClick={() => setShowCoordinates(!showCoordinates)}
           >
-            Route Coordinates ({coordinates.length} points) {showCoordinates ? '▼' : '▶'}
+            {t.routeCoordinates(coordinates.length)} {showCoordinates ? '▼' : '▶'}
           </button>
           {showCoordinates && (
             <div className="coordinates-content">
               {coordinates.length === 0 ? (
-                <p>No coordinates loaded. Please enter a route URL.</p>
+                <p>{t.noCoordinates}</p>
               ) : (
                 <div className="coordinates-grid">
                   {coordinates.map((coord, index) => (
                     <div
                       key={index}
-                      className={`coordinate-item ${index === currentCoordinateIndex ? 'current' : ''}`}
+                      className={`coordinate-item ${index === currentCoordinateIndex ? 'current' : ''} ${walkMode === 'simulated' ? 'seekable' : ''}`}
+                      onClick={() => seekTo(plannedRouteIndex.cumulativeDistances[index])}
+                      title={walkMode === 'simulated' ? t.moveWalkerHere : undefined}
                     >
                       {index + 1}: {coord.lat.toFixed(6)}, {coord.lng.toFixed(6)}
                     </div>
@@ -1025,25 +2949,138 @@ function App() {
           )}
         </div>
 
-        {/* LangFlow AI Responses */}
+        {/* Narrator Request Preview */}
+        <div className="coordinates-dropdown narration-calls">
+          <button
+            className="dropdown-toggle"
+            onClick={() => setShowNarrationCalls(!showNarrationCalls)}
+          >
+            {t.narratorRequests(narrationCalls.length)} {showNarrationCalls ? '▼' : '▶'}
+          </button>
+          {showNarrationCalls && (
+            <div className="coordinates-content">
+              {narrationCalls.length === 0 ? (
+                <p>{t.noNarratorRequests}</p>
+              ) : (
+                narrationCalls.map(({ id, timestamp, call }) => (
+                  <div key={id} className="narration-call">
+                    <div className="narration-call-header">
+                      <span className="timestamp">{timestamp}</span>
+                      <code>POST {call.url}</code>
+                    </div>
+                    <pre>{JSON.stringify(call.body, null, 2)}</pre>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* AI Responses */}
         <div className="ai-section">
-          <h3>LangFlow AI Responses</h3>
+          <Notifications
+            notifications={notifications}
+            onDismiss={id => setNotifications(prev => prev.filter(notification => notification.id !== id))}
+            onClear={() => setNotifications([])}
+            t={t}
+          />
+          <h3>{t.aiResponses}</h3>
+          {isSpeechSupported() && (
+            <div className="speech-controls">
+              <label className="speech-toggle">
+                <input
+                  type="checkbox"
+                  checked={isSpeechEnabled}
+                  onChange={(e) => setIsSpeechEnabled(e.target.checked)}
+                />
+                {t.speakNarrations}
+              </label>
+              <select
+                value={speechSettings.voiceURI ?? ''}
+                onChange={(e) => setSpeechSettings(prev => ({ ...prev, voiceURI: e.target.value || null }))}
+                aria-label={t.voice}
+              >
+                <option value="">{t.defaultVoice}</option>
+                {languageVoices.map(voice => (
+                  <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                ))}
+              </select>
+              <label>
+                {t.speechRate(speechSettings.rate.toFixed(1))}
+                <input
+                  type="range"
+                  min="0.5"
+                  max="2"
+                  step="0.1"
+                  value={speechSettings.rate}
+                  onChange={(e) => setSpeechSettings(prev => ({ ...prev, rate: Number(e.target.value) }))}
+                />
+              </label>
+              <label>
+                {t.speechVolume(Math.round(speechSettings.volume * 100))}
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={speechSettings.volume}
+                  onChange={(e) => setSpeechSettings(prev => ({ ...prev, volume: Number(e.target.value) }))}
+                />
+              </label>
+            </div>
+          )}
           <div className="ai-responses">
             {aiResponses.length === 0 ? (
-              <p className="no-responses">No AI responses yet. Start walking to see responses from LangFlow.</p>
+              <p className="no-responses">{t.noResponses(NARRATION_PROVIDER_LABELS[narratorSettings.providerId])}</p>
             ) : (
               <div className="responses-container">
-                {aiResponses.map((response, index) => (
-                  <div key={`${response.timestamp}-${index}`} className="ai-response">
-                    <div className="response-header">
-                      <span className="timestamp">{response.timestamp}</span>
+                {aiResponses.map((response, index) => {
+                  const isSpeaking = speechStatus.currentId === response.id;
+                  const isQueued = speechStatus.pendingIds.includes(response.id);
+                  return (
+                    <div
+                      key={`${response.timestamp}-${index}`}
+                      className={`ai-response ${isSpeaking ? 'speaking' : ''} ${response.isStreaming ? 'streaming' : ''} ${response.question ? 'reply' : ''} ${replayNarration?.responseId === response.id ? 'replay-active' : ''}`}
+                    >
+                      {response.question && (
+                        <div className="response-question">{t.youAsked} {response.question}</div>
+                      )}
+                      <div className="response-header">
+                        <span className="timestamp">{response.timestamp}</span>
+                        {isSpeechSupported() && response.coordinate && !response.isStreaming && (
+                          <span className="response-speech-actions">
+                            {isSpeaking && <span className="speech-state">{speechStatus.isPaused ? t.walkingStates.paused : t.speaking}</span>}
+                            {isQueued && <span className="speech-state">{t.queued}</span>}
+                            <button type="button" onClick={() => speechQueue.replay(response.id, response.message)}>
+                              {t.replay}
+                            </button>
+                            {(isSpeaking || isQueued) && (
+                              <button type="button" onClick={() => speechQueue.skip(response.id)}>
+                                {t.skip}
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </div>
+                      <div className="response-message">{response.message}</div>
                     </div>
-                    <div className="response-message">{response.message}</div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
+          <form className="ask-guide" onSubmit={askGuide}>
+            <input
+              type="text"
+              value={guideQuestion}
+              onChange={(e) => setGuideQuestion(e.target.value)}
+              placeholder={walkingState === 'stopped' ? t.askPlaceholderStopped : t.askPlaceholder}
+              disabled={walkingState === 'stopped'}
+            />
+            <button type="submit" disabled={walkingState === 'stopped' || !guideQuestion.trim()}>
+              {t.ask}
+            </button>
+          </form>
         </div>
       </div>
     </div>
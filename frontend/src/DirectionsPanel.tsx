@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { formatDistance } from './geo';
+import type { UiStrings } from './i18n';
+import { findNextManeuver, formatManeuverInstruction, type Maneuver } from './maneuvers';
+
+interface DirectionsPanelProps {
+  maneuvers: Maneuver[];
+  // Meters walked so far, or null when no walk is in progress
+  distanceWalked: number | null;
+  t: UiStrings;
+}
+
+// Turn-by-turn directions for the route, following the walker's progress
+function DirectionsPanel({ maneuvers, distanceWalked, t }: DirectionsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const nextManeuver = distanceWalked !== null ? findNextManeuver(maneuvers, distanceWalked) : null;
+
+  return (
+    <div className="directions-panel">
+      <button
+        className="dropdown-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {t.directionsSteps(maneuvers.length)} {isOpen ? '▼' : '▶'}
+      </button>
+      {nextManeuver && distanceWalked !== null && (
+        <div className="next-maneuver">
+          <strong>{formatManeuverInstruction(nextManeuver, t.instructions)}</strong>
+          <span>{t.inDistance(formatDistance(nextManeuver.distanceFromStart - distanceWalked))}</span>
+        </div>
+      )}
+      {isOpen && (
+        <div className="directions-content">
+          {maneuvers.length === 0 ? (
+            <p>{t.noRouteLoaded}</p>
+          ) : (
+            <ol className="directions-list">
+              {maneuvers.map(maneuver => {
+                const isNext = maneuver === nextManeuver;
+                const isPassed = distanceWalked !== null && maneuver.distanceFromStart <= distanceWalked && !isNext;
+                return (
+                  <li
+                    key={`${maneuver.coordinateIndex}-${maneuver.type}`}
+                    className={`direction-item ${isNext ? 'next' : ''} ${isPassed ? 'passed' : ''}`}
+                  >
+                    <span className="direction-instruction">{formatManeuverInstruction(maneuver, t.instructions)}</span>
+                    <span className="direction-distance">{formatDistance(maneuver.distanceFromStart)}</span>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DirectionsPanel;
@@ -0,0 +1,96 @@
+import { useMemo, type PointerEvent } from 'react';
+import type { Coordinate } from './types';
+import { formatDistance } from './geo';
+import type { UiStrings } from './i18n';
+import { getElevationAt, getElevationChange, getElevationProfile, getGradeAt } from './elevation';
+import { createRouteIndex } from './walkSimulator';
+
+interface ElevationProfileProps {
+  coordinates: Coordinate[];
+  // Meters walked so far, or null when no walk is in progress
+  distanceWalked: number | null;
+  // Distance under the pointer, shared with the map marker
+  hoverDistance: number | null;
+  onHover: (distance: number | null) => void;
+  t: UiStrings;
+}
+
+const WIDTH = 600;
+const HEIGHT = 140;
+const PADDING = 4;
+
+// Elevation along the route, with the walker's position and a hover marker linked to the map
+function ElevationProfile({ coordinates, distanceWalked, hoverDistance, onHover, t }: ElevationProfileProps) {
+  const routeIndex = useMemo(() => createRouteIndex(coordinates), [coordinates]);
+  const profile = useMemo(() => getElevationProfile(routeIndex), [routeIndex]);
+  const change = useMemo(() => getElevationChange(routeIndex), [routeIndex]);
+
+  if (profile.length < 2 || routeIndex.totalDistance === 0) return null;
+
+  const elevations = profile.map(point => point.elevation);
+  const minElevation = Math.min(...elevations);
+  const maxElevation = Math.max(...elevations);
+  // Keep flat routes from being stretched into dramatic hills
+  const range = Math.max(maxElevation - minElevation, 20);
+  const toX = (distance: number) => PADDING + (distance / routeIndex.totalDistance) * (WIDTH - PADDING * 2);
+  const toY = (elevation: number) => HEIGHT - PADDING - ((elevation - minElevation) / range) * (HEIGHT - PADDING * 2);
+
+  const line = profile.map(point => `${toX(point.distance).toFixed(1)},${toY(point.elevation).toFixed(1)}`).join(' ');
+  const area = `${toX(0)},${HEIGHT} ${line} ${toX(routeIndex.totalDistance)},${HEIGHT}`;
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width));
+    onHover(fraction * routeIndex.totalDistance);
+  };
+
+  const hoverElevation = hoverDistance !== null ? getElevationAt(routeIndex, hoverDistance) : null;
+  const hoverGrade = hoverDistance !== null ? getGradeAt(routeIndex, hoverDistance) : null;
+
+  return (
+    <div className="elevation-profile">
+      <div className="elevation-summary">
+        <span>↑ {Math.round(change.gain)} m</span>
+        <span>↓ {Math.round(change.loss)} m</span>
+        <span>{Math.round(minElevation)}–{Math.round(maxElevation)} m</span>
+        {hoverDistance !== null && hoverElevation !== null && (
+          <span className="elevation-hover">
+            {formatDistance(hoverDistance)}: {Math.round(hoverElevation)} m
+            {hoverGrade !== null && `, ${(hoverGrade * 100).toFixed(1)}%`}
+          </span>
+        )}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => onHover(null)}
+        role="img"
+        aria-label={t.elevationProfile}
+      >
+        <polygon points={area} className="elevation-area" />
+        <polyline points={line} className="elevation-line" />
+        {distanceWalked !== null && (
+          <line
+            x1={toX(distanceWalked)}
+            x2={toX(distanceWalked)}
+            y1={0}
+            y2={HEIGHT}
+            className="elevation-position"
+          />
+        )}
+        {hoverDistance !== null && (
+          <line
+            x1={toX(hoverDistance)}
+            x2={toX(hoverDistance)}
+            y1={0}
+            y2={HEIGHT}
+            className="elevation-hover-line"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
+
+export default ElevationProfile;
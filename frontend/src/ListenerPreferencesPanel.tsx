@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { UiStrings } from './i18n';
+import {
+  FORMALITIES,
+  INTEREST_TOPICS,
+  NARRATOR_PERSONAS,
+  type Formality,
+  type ListenerPreferences,
+  type NarratorPersona
+} from './listenerPreferences';
+
+interface ListenerPreferencesPanelProps {
+  preferences: ListenerPreferences;
+  onChange: (preferences: ListenerPreferences) => void;
+  t: UiStrings;
+}
+
+// Interests, persona and tone; changes apply from the next narration
+function ListenerPreferencesPanel({ preferences, onChange, t }: ListenerPreferencesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (changes: Partial<ListenerPreferences>) => onChange({ ...preferences, ...changes });
+
+  const toggleInterest = (topic: string) =>
+    update({
+      interests: preferences.interests.includes(topic)
+        ? preferences.interests.filter(interest => interest !== topic)
+        : [...preferences.interests, topic]
+    });
+
+  return (
+    <div className="listener-preferences">
+      <button
+        className="dropdown-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {t.listenerPreferences} {isOpen ? '▼' : '▶'}
+      </button>
+      {isOpen && (
+        <div className="listener-preferences-content">
+          <div className="preference-row">
+            <span className="preference-label">{t.interests}</span>
+            <div className="interest-topics">
+              {INTEREST_TOPICS.map(topic => (
+                <button
+                  key={topic}
+                  type="button"
+                  className={`interest-topic ${preferences.interests.includes(topic) ? 'active' : ''}`}
+                  onClick={() => toggleInterest(topic)}
+                >
+                  {t.interestTopics[topic] ?? topic}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="preference-row">
+            <label htmlFor="narratorPersona" className="preference-label">{t.persona}</label>
+            <select
+              id="narratorPersona"
+              value={preferences.persona}
+              onChange={(e) => update({ persona: e.target.value as NarratorPersona })}
+            >
+              {NARRATOR_PERSONAS.map(persona => (
+                <option key={persona} value={persona}>{t.personas[persona]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="preference-row">
+            <label htmlFor="narratorFormality" className="preference-label">{t.tone}</label>
+            <select
+              id="narratorFormality"
+              value={preferences.formality}
+              onChange={(e) => update({ formality: e.target.value as Formality })}
+            >
+              {FORMALITIES.map(formality => (
+                <option key={formality} value={formality}>{t.formalities[formality]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="preference-row">
+            <label htmlFor="maxWords" className="preference-label">{t.maxWords}</label>
+            <input
+              id="maxWords"
+              type="number"
+              value={preferences.maxWords}
+              onChange={(e) => update({ maxWords: Math.max(10, Number(e.target.value)) })}
+              min="10"
+              max="200"
+              step="5"
+            />
+          </div>
+          <label className="preference-row family-friendly">
+            <input
+              type="checkbox"
+              checked={preferences.familyFriendly}
+              onChange={(e) => update({ familyFriendly: e.target.checked })}
+            />
+            {t.familyFriendly}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ListenerPreferencesPanel;
@@ -0,0 +1,35 @@
+import type { AppNotification } from './types';
+import type { UiStrings } from './i18n';
+
+interface NotificationsProps {
+  notifications: AppNotification[];
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+  t: UiStrings;
+}
+
+// Errors and warnings, kept out of the narration feed
+function Notifications({ notifications, onDismiss, onClear, t }: NotificationsProps) {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="notifications" role="status" aria-live="polite">
+      {notifications.map(notification => (
+        <div key={notification.id} className={`notification ${notification.level}`}>
+          <span className="timestamp">{notification.timestamp}</span>
+          <span className="notification-message">{notification.message}</span>
+          <button type="button" onClick={() => onDismiss(notification.id)} aria-label={t.dismiss}>
+            ×
+          </button>
+        </div>
+      ))}
+      {notifications.length > 1 && (
+        <button type="button" className="notifications-clear" onClick={onClear}>
+          {t.dismissAll}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default Notifications;
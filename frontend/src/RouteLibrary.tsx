@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistance } from './geo';
+import type { UiStrings } from './i18n';
+import {
+  deleteSavedRoute,
+  describeRouteSource,
+  duplicateSavedRoute,
+  listSavedRoutes,
+  renameSavedRoute,
+  type SavedRoute
+} from './routeLibrary';
+
+interface RouteLibraryProps {
+  activeRouteId: string | null;
+  canSave: boolean;
+  onSave: (name: string) => Promise<SavedRoute>;
+  onLoad: (route: SavedRoute) => void;
+  t: UiStrings;
+}
+
+// Saved routes kept in IndexedDB, with search and basic management
+function RouteLibrary({ activeRouteId, canSave, onSave, onLoad, t }: RouteLibraryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [routes, setRoutes] = useState<SavedRoute[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [newRouteName, setNewRouteName] = useState('');
+  const [editingRouteId, setEditingRouteId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  const refreshRoutes = useCallback(async () => {
+    try {
+      setRoutes(await listSavedRoutes());
+      setLibraryError(null);
+    } catch (error) {
+      console.error('Error loading route library:', error);
+      setLibraryError(t.routeLibraryUnavailable);
+    }
+  }, [t]);
+
+  // Reload whenever the panel is opened so transcripts saved during a walk show up
+  useEffect(() => {
+    if (isOpen) {
+      refreshRoutes();
+    }
+  }, [isOpen, refreshRoutes]);
+
+  const runAction = async (action: () => Promise<unknown>, errorMessage: string) => {
+    try {
+      await action();
+      await refreshRoutes();
+    } catch (error) {
+      console.error('Error updating the route library:', error);
+      setLibraryError(errorMessage);
+    }
+  };
+
+  const handleSave = () =>
+    runAction(async () => {
+      await onSave(newRouteName.trim() || t.defaultRouteName(new Date().toLocaleString()));
+      setNewRouteName('');
+    }, t.couldNotSaveRoute);
+
+  const handleRename = (id: string) =>
+    runAction(async () => {
+      if (editingName.trim()) {
+        await renameSavedRoute(id, editingName.trim());
+      }
+      setEditingRouteId(null);
+    }, t.couldNotRenameRoute);
+
+  const handleDelete = (route: SavedRoute) => {
+    if (!window.confirm(t.confirmDeleteRoute(route.name))) return;
+    runAction(() => deleteSavedRoute(route.id), t.couldNotDeleteRoute);
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredRoutes = query
+    ? routes.filter(route =>
+        route.name.toLowerCase().includes(query) ||
+        describeRouteSource(route.source, t).toLowerCase().includes(query)
+      )
+    : routes;
+
+  return (
+    <div className="route-library">
+      <button
+        className="dropdown-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {t.routeLibrary} {isOpen ? '▼' : '▶'}
+      </button>
+      {isOpen && (
+        <div className="route-library-content">
+          <div className="library-save-row">
+            <input
+              type="text"
+              value={newRouteName}
+              onChange={(e) => setNewRouteName(e.target.value)}
+              placeholder={t.routeNamePlaceholder}
+              disabled={!canSave}
+            />
+            <button type="button" onClick={handleSave} disabled={!canSave}>
+              {t.saveCurrentRoute}
+            </button>
+          </div>
+          <input
+            type="search"
+            className="library-search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder={t.searchSavedRoutes}
+          />
+          {libraryError && <p className="library-error">{libraryError}</p>}
+          {filteredRoutes.length === 0 ? (
+            <p className="no-responses">
+              {routes.length === 0 ? t.noSavedRoutes : t.noRoutesMatch}
+            </p>
+          ) : (
+            <ul className="library-list">
+              {filteredRoutes.map(route => (
+                <li
+                  key={route.id}
+                  className={`library-item ${route.id === activeRouteId ? 'active' : ''}`}
+                >
+                  {editingRouteId === route.id ? (
+                    <div className="library-rename">
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(route.id);
+                          if (e.key === 'Escape') setEditingRouteId(null);
+                        }}
+                        autoFocus
+                      />
+                      <button type="button" onClick={() => handleRename(route.id)}>{t.save}</button>
+                      <button type="button" onClick={() => setEditingRouteId(null)}>{t.cancel}</button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      className="library-load"
+                      onClick={() => onLoad(route)}
+                      title={t.loadThisRoute}
+                    >
+                      {route.name}
+                    </button>
+                  )}
+                  <div className="library-meta">
+                    {describeRouteSource(route.source, t)} · {formatDistance(route.distance)} · {new Date(route.createdAt).toLocaleDateString()}
+                    {route.lastTranscript.length > 0 && ` · ${t.narrationCount(route.lastTranscript.length)}`}
+                  </div>
+                  <div className="library-actions">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingRouteId(route.id);
+                        setEditingName(route.name);
+                      }}
+                    >
+                      {t.rename}
+                    </button>
+                    <button type="button" onClick={() => runAction(() => duplicateSavedRoute(route.id), t.couldNotDuplicateRoute)}>
+                      {t.duplicate}
+                    </button>
+                    <button type="button" onClick={() => handleDelete(route)}>
+                      {t.delete}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RouteLibrary;
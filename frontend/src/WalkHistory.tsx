@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistance, formatDuration } from './geo';
+import type { UiStrings } from './i18n';
+import {
+  deleteWalkSession,
+  isResumable,
+  listWalkSessions,
+  type WalkSession
+} from './walkSessions';
+
+interface WalkHistoryProps {
+  activeSessionId: string | null;
+  onResume: (session: WalkSession) => void;
+  onReplay: (session: WalkSession) => void;
+  t: UiStrings;
+}
+
+// Past walks kept in IndexedDB, with their transcripts
+function WalkHistory({ activeSessionId, onResume, onReplay, t }: WalkHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<WalkSession[]>([]);
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listWalkSessions());
+      setHistoryError(null);
+    } catch (error) {
+      console.error('Error loading walk history:', error);
+      setHistoryError(t.walkHistoryUnavailable);
+    }
+  }, [t]);
+
+  // Reload whenever the panel is opened so the walk in progress shows its latest state
+  useEffect(() => {
+    if (isOpen) {
+      refreshSessions();
+    }
+  }, [isOpen, refreshSessions]);
+
+  const handleDelete = async (session: WalkSession) => {
+    if (!window.confirm(t.confirmDeleteWalk(session.routeName, new Date(session.startedAt).toLocaleString()))) return;
+    try {
+      await deleteWalkSession(session.id);
+      await refreshSessions();
+    } catch (error) {
+      console.error('Error trying to delete the walk:', error);
+      setHistoryError(t.couldNotDeleteWalk);
+    }
+  };
+
+  return (
+    <div className="walk-history">
+      <button
+        className="dropdown-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {t.walkHistory} {isOpen ? '▼' : '▶'}
+      </button>
+      {isOpen && (
+        <div className="walk-history-content">
+          {historyError && <p className="library-error">{historyError}</p>}
+          {sessions.length === 0 ? (
+            <p className="no-responses">{t.noWalksYet}</p>
+          ) : (
+            <ul className="library-list">
+              {sessions.map(session => {
+                const isActive = session.id === activeSessionId;
+                const isExpanded = session.id === expandedSessionId;
+                return (
+                  <li
+                    key={session.id}
+                    className={`library-item ${isActive ? 'active' : ''}`}
+                  >
+                    <div className="walk-session-title">
+                      <strong>{session.routeName}</strong>
+                      <span className={`walk-session-status ${session.status}`}>
+                        {isActive ? t.currentWalk : t.walkSessionStatuses[session.status]}
+                      </span>
+                    </div>
+                    <div className="library-meta">
+                      {new Date(session.startedAt).toLocaleString()} · {formatDuration(session.elapsedSeconds)} ·{' '}
+                      {t.walkedWithNarrations(formatDistance(session.distanceWalked), session.transcript.length)}
+                    </div>
+                    <div className="library-actions">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedSessionId(isExpanded ? null : session.id)}
+                        disabled={session.transcript.length === 0}
+                      >
+                        {isExpanded ? t.hideTranscript : t.transcript}
+                      </button>
+                      {session.recording && session.recording.ticks.length > 0 && !isActive && (
+                        <button type="button" onClick={() => onReplay(session)}>
+                          {t.replay}
+                        </button>
+                      )}
+                      {isResumable(session) && !isActive && (
+                        <button type="button" onClick={() => onResume(session)}>
+                          {t.resume}
+                        </button>
+                      )}
+                      <button type="button" onClick={() => handleDelete(session)} disabled={isActive}>
+                        {t.delete}
+                      </button>
+                    </div>
+                    {isExpanded && (
+                      <ol className="walk-transcript">
+                        {[...session.transcript].reverse().map(response => (
+                          <li key={response.id}>
+                            <span className="timestamp">{response.timestamp}</span>
+                            {response.question && <em> {t.youAsked} {response.question}</em>}
+                            <p>{response.message}</p>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WalkHistory;
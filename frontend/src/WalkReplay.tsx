@@ -0,0 +1,86 @@
+import { formatDistance, formatDuration } from './geo';
+import type { UiStrings } from './i18n';
+import {
+  REPLAY_SPEEDS,
+  getNarrationAt,
+  getTickAt,
+  type ReplayPlayer,
+  type ReplayPlayerStatus,
+  type WalkRecording
+} from './walkRecording';
+import type { AIResponse } from './types';
+
+interface WalkReplayProps {
+  player: ReplayPlayer;
+  status: ReplayPlayerStatus;
+  recording: WalkRecording;
+  transcript: AIResponse[];
+  onClose: () => void;
+  t: UiStrings;
+}
+
+// Timeline scrubber for playing a recorded walk back against its narrations
+function WalkReplay({ player, status, recording, transcript, onClose, t }: WalkReplayProps) {
+  const duration = player.end - player.start;
+  const tick = getTickAt(recording, status.time);
+  const narration = getNarrationAt(recording, status.time);
+  const narrationText = narration && transcript.find(response => response.id === narration.responseId)?.message;
+
+  return (
+    <div className="walk-replay">
+      <div className="walk-replay-controls">
+        <button type="button" onClick={() => (status.isPlaying ? player.pause() : player.play())}>
+          {status.isPlaying ? t.pause : t.play}
+        </button>
+        <span className="walk-replay-time">
+          {formatDuration((status.time - player.start) / 1000)} / {formatDuration(duration / 1000)}
+        </span>
+        <select
+          value={status.speed}
+          onChange={(e) => player.setSpeed(Number(e.target.value))}
+          aria-label={t.playbackSpeed}
+        >
+          {REPLAY_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed}x</option>
+          ))}
+        </select>
+        <button type="button" onClick={onClose}>{t.closeReplay}</button>
+      </div>
+      <div className="walk-replay-timeline">
+        <input
+          type="range"
+          min={player.start}
+          max={player.end}
+          step={100}
+          value={status.time}
+          onChange={(e) => player.seek(Number(e.target.value))}
+          aria-label={t.replayPosition}
+        />
+        {duration > 0 && recording.narrations.map(recorded => (
+          <button
+            key={recorded.responseId}
+            type="button"
+            className={`walk-replay-marker ${recorded === narration ? 'active' : ''}`}
+            style={{ left: `${((recorded.time - player.start) / duration) * 100}%` }}
+            onClick={() => player.seek(recorded.time)}
+            title={t.narrationAt(t.narrationReasons[recorded.reason], formatDistance(recorded.distance))}
+          />
+        ))}
+      </div>
+      <div className="walk-replay-details">
+        {tick && (
+          <span>
+            {t.replayTickDetails(formatDistance(tick.distance), tick.segmentIndex, tick.pace.toFixed(1), t.walkingStates[tick.state])}
+          </span>
+        )}
+        {narration && (
+          <p className="walk-replay-narration">
+            <strong>{t.narrationReasons[narration.reason]}:</strong> {narrationText ?? t.narrationTextUnavailable}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default WalkReplay;
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { formatDistance, formatDuration } from './geo';
+import type { UiStrings } from './i18n';
+import type { WalkStats } from './walkStats';
+
+interface WalkStatisticsProps {
+  stats: WalkStats;
+  isWalking: boolean;
+  t: UiStrings;
+}
+
+const formatPace = (pace: number | null) => (pace !== null ? `${pace.toFixed(1)} km/h` : '–');
+
+// Distance, time and pace figures for the walk in progress
+function WalkStatistics({ stats, isWalking, t }: WalkStatisticsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const arrival = stats.etaSeconds !== null && isWalking
+    ? new Date(Date.now() + stats.etaSeconds * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <div className="walking-status-dropdown walk-statistics">
+      <button
+        className="dropdown-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {t.walkStatistics} {isOpen ? '▼' : '▶'}
+      </button>
+      {isOpen && (
+        <div className="walking-status">
+          <div className="status-grid">
+            <div className="status-item">
+              <span className="status-label">{t.statsWalked}</span>
+              <span className="status-value">
+                {t.distanceOf(formatDistance(stats.distanceWalked), formatDistance(stats.totalDistance))}
+              </span>
+            </div>
+            <div className="status-item">
+              <span className="status-label">{t.statsRemaining}</span>
+              <span className="status-value">{formatDistance(stats.distanceRemaining)}</span>
+            </div>
+            <div className="status-item">
+              <span className="status-label">{t.statsElapsedTime}</span>
+              <span className="status-value">{formatDuration(stats.elapsedSeconds)}</span>
+            </div>
+            <div className="status-item">
+              <span className="status-label">{t.statsMovingTime}</span>
+              <span className="status-value">{formatDuration(stats.movingSeconds)}</span>
+            </div>
+            <div className="status-item">
+              <span className="status-label">{t.statsEta}</span>
+              <span className="status-value">
+                {arrival !== null && stats.etaSeconds !== null ? `${formatDuration(stats.etaSeconds)} (${arrival})` : '–'}
+              </span>
+            </div>
+            <div className="status-item">
+              <span className="status-label">{t.statsAveragePace}</span>
+              <span className="status-value">{formatPace(stats.averagePace)}</span>
+            </div>
+            <div className="status-item">
+              <span className="status-label">{t.statsNarrations}</span>
+              <span className="status-value">
+                {stats.narrationCount}{stats.questionCount > 0 && ` ${t.answeredQuestions(stats.questionCount)}`}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WalkStatistics;
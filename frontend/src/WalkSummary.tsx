@@ -0,0 +1,58 @@
+import { formatDistance, formatDuration } from './geo';
+import type { UiStrings } from './i18n';
+import type { WalkStats } from './walkStats';
+
+interface WalkSummaryProps {
+  routeName: string;
+  stats: WalkStats;
+  onDismiss: () => void;
+  t: UiStrings;
+}
+
+// Shown once a walk has ended
+function WalkSummary({ routeName, stats, onDismiss, t }: WalkSummaryProps) {
+  // Walks stopped within a few meters of the end still count as finished
+  const isComplete = stats.distanceRemaining < 10;
+
+  return (
+    <div className="walk-summary">
+      <div className="walk-summary-title">
+        <strong>{isComplete ? t.walkComplete : t.walkEnded}</strong>
+        <span>{routeName}</span>
+      </div>
+      <div className="walk-summary-figures">
+        <div>
+          <span className="walk-summary-value">{formatDistance(stats.distanceWalked)}</span>
+          <span className="walk-summary-label">
+            {isComplete ? t.summaryWalked : t.summaryOfTotal(formatDistance(stats.totalDistance), Math.round(stats.progress * 100))}
+          </span>
+        </div>
+        <div>
+          <span className="walk-summary-value">{formatDuration(stats.elapsedSeconds)}</span>
+          <span className="walk-summary-label">{t.summaryTotalTime}</span>
+        </div>
+        <div>
+          <span className="walk-summary-value">{formatDuration(stats.movingSeconds)}</span>
+          <span className="walk-summary-label">{t.summaryMoving}</span>
+        </div>
+        <div>
+          <span className="walk-summary-value">{stats.averagePace !== null ? `${stats.averagePace.toFixed(1)} km/h` : '–'}</span>
+          <span className="walk-summary-label">{t.summaryAveragePace}</span>
+        </div>
+        <div>
+          <span className="walk-summary-value">{stats.narrationCount}</span>
+          <span className="walk-summary-label">{t.summaryNarrations}</span>
+        </div>
+        {stats.questionCount > 0 && (
+          <div>
+            <span className="walk-summary-value">{stats.questionCount}</span>
+            <span className="walk-summary-label">{t.summaryQuestionsAnswered}</span>
+          </div>
+        )}
+      </div>
+      <button type="button" onClick={onDismiss}>{t.close}</button>
+    </div>
+  );
+}
+
+export default WalkSummary;
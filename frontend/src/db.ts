@@ -0,0 +1,52 @@
+// Shared IndexedDB connection for everything WalkRadio keeps between sessions
+
+const DB_NAME = 'walkradio';
+const DB_VERSION = 2;
+
+export const ROUTES_STORE = 'routes';
+export const WALK_SESSIONS_STORE = 'walkSessions';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ROUTES_STORE)) {
+          db.createObjectStore(ROUTES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(WALK_SESSIONS_STORE)) {
+          db.createObjectStore(WALK_SESSIONS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Allow a later call to retry opening the database
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+// Wrap an IDBRequest in a promise
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request against an object store
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return requestToPromise(run(transaction.objectStore(storeName)));
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Coordinate } from './types';
+import { addElevations, getElevationAt, getElevationChange, getGradeAt, type ElevationProvider } from './elevation';
+import { createRouteIndex } from './walkSimulator';
+
+// About 111 m apart along the equator: up 10 m, down 4 m, up 6 m
+const hillyRoute: Coordinate[] = [0, 10, 6, 12].map((elevation, i) => ({ lat: 0, lng: i * 0.001, elevation }));
+
+describe('route elevation lookups', () => {
+  const index = createRouteIndex(hillyRoute);
+  const [, first, second] = index.cumulativeDistances;
+
+  it('is left out of the route index when a coordinate has no elevation', () => {
+    expect(index.elevation).toBeDefined();
+    const partial = createRouteIndex([...hillyRoute, { lat: 0, lng: 0.004 }]);
+    expect(partial.elevation).toBeUndefined();
+    expect(getElevationAt(partial, 50)).toBeNull();
+    expect(getGradeAt(partial, 50)).toBeNull();
+    expect(getElevationChange(partial)).toEqual({ gain: 0, loss: 0 });
+  });
+
+  it('interpolates elevation and grade between coordinates', () => {
+    expect(getElevationAt(index, first / 2)).toBeCloseTo(5, 6);
+    expect(getElevationAt(index, index.totalDistance + 5)).toBe(12);
+    expect(getGradeAt(index, first / 2)).toBeCloseTo(10 / first, 6);
+  });
+
+  it('adds up climb and descent over the whole route and part of it', () => {
+    expect(getElevationChange(index).gain).toBeCloseTo(16, 6);
+    expect(getElevationChange(index).loss).toBeCloseTo(4, 6);
+
+    // From halfway up the first climb to halfway down the descent
+    const part = getElevationChange(index, first / 2, (first + second) / 2);
+    expect(part.gain).toBeCloseTo(5, 6);
+    expect(part.loss).toBeCloseTo(2, 6);
+    expect(getElevationChange(index, second, second)).toEqual({ gain: 0, loss: 0 });
+  });
+});
+
+describe('addElevations', () => {
+  const flatRoute: Coordinate[] = [{ lat: 0, lng: 0 }, { lat: 0, lng: 0.001, elevation: 3 }];
+
+  it('only asks for the missing elevations', async () => {
+    const lookup = vi.fn(async (points: Coordinate[]) => points.map(() => 7));
+    const provider: ElevationProvider = { id: 'open-meteo', label: 'Test', lookup };
+    const result = await addElevations(provider, flatRoute);
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(lookup.mock.calls[0][0]).toHaveLength(1);
+    expect(result.map(coord => coord.elevation)).toEqual([7, 3]);
+  });
+
+  it('gives up on a provider that never answers', async () => {
+    vi.useFakeTimers();
+    try {
+      const provider: ElevationProvider = {
+        id: 'open-meteo',
+        label: 'Test',
+        lookup: (_points, signal) => new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+      };
+      const result = addElevations(provider, flatRoute, undefined, 1000);
+      const assertion = expect(result).rejects.toThrow('Test did not answer within 1s');
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    const provider: ElevationProvider = {
+      id: 'open-meteo',
+      label: 'Test',
+      lookup: (_points, signal) => new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      })
+    };
+    const result = addElevations(provider, flatRoute, controller.signal);
+    controller.abort();
+    await expect(result).rejects.toThrow('Aborted');
+  });
+});
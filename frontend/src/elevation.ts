@@ -0,0 +1,280 @@
+import type { Coordinate } from './types';
+import type { RouteIndex } from './walkSimulator';
+
+export type ElevationProviderId = 'open-meteo' | 'open-elevation';
+
+export interface ElevationProvider {
+  id: ElevationProviderId;
+  label: string;
+  // Elevations in meters, in the same order as the points
+  lookup: (points: Coordinate[], signal?: AbortSignal) => Promise<number[]>;
+}
+
+export interface ElevationSettings {
+  providerId: ElevationProviderId;
+  openMeteoUrl: string;
+  openElevationUrl: string;
+}
+
+export const ELEVATION_PROVIDER_LABELS: Record<ElevationProviderId, string> = {
+  'open-meteo': 'Open-Meteo',
+  'open-elevation': 'Open-Elevation'
+};
+
+export const DEFAULT_ELEVATION_SETTINGS: ElevationSettings = {
+  providerId: 'open-meteo',
+  openMeteoUrl: 'https://api.open-meteo.com/v1/elevation',
+  openElevationUrl: 'https://api.open-elevation.com/api/v1/lookup'
+};
+
+// Open-Meteo accepts at most 100 points per request
+const LOOKUP_BATCH_SIZE = 100;
+
+// Milliseconds to wait for one batch of elevations before giving up
+export const ELEVATION_LOOKUP_TIMEOUT = 10000;
+
+// Open-Meteo elevation API, backed by the Copernicus 90 m DEM
+export const createOpenMeteoProvider = (url: string): ElevationProvider => ({
+  id: 'open-meteo',
+  label: ELEVATION_PROVIDER_LABELS['open-meteo'],
+  lookup: async (points, signal) => {
+    const params = new URLSearchParams({
+      latitude: points.map(point => point.lat.toFixed(6)).join(','),
+      longitude: points.map(point => point.lng.toFixed(6)).join(',')
+    });
+    const response = await fetch(`${url}?${params.toString()}`, {
+      headers: {
+        'Accept': 'application/json'
+      },
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo elevation error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data.elevation) || data.elevation.length !== points.length) {
+      throw new Error('Unexpected Open-Meteo elevation response');
+    }
+    return data.elevation.map(Number);
+  }
+});
+
+// Open-Elevation, or a self-hosted instance of it
+export const createOpenElevationProvider = (url: string): ElevationProvider => ({
+  id: 'open-elevation',
+  label: ELEVATION_PROVIDER_LABELS['open-elevation'],
+  lookup: async (points, signal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify({
+        locations: points.map(point => ({ latitude: point.lat, longitude: point.lng }))
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Open-Elevation error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data.results) || data.results.length !== points.length) {
+      throw new Error('Unexpected Open-Elevation response');
+    }
+    return data.results.map((result: { elevation: number }) => Number(result.elevation));
+  }
+});
+
+export const createElevationProvider = (settings: ElevationSettings): ElevationProvider => {
+  switch (settings.providerId) {
+    case 'open-meteo':
+      return createOpenMeteoProvider(settings.openMeteoUrl);
+    case 'open-elevation':
+      return createOpenElevationProvider(settings.openElevationUrl);
+  }
+};
+
+export const hasElevation = (coordinates: Coordinate[]): boolean =>
+  coordinates.length > 0 && coordinates.every(coord => coord.elevation !== undefined);
+
+// Elevations along a route, precomputed with its distances so lookups during a walk stay O(log n)
+export interface RouteElevationIndex {
+  elevations: number[];
+  // Total climb and descent from the route start to each coordinate, in meters
+  cumulativeGain: number[];
+  cumulativeLoss: number[];
+}
+
+// Null unless every coordinate has an elevation
+export const createElevationIndex = (coordinates: Coordinate[]): RouteElevationIndex | null => {
+  if (!hasElevation(coordinates)) return null;
+
+  const elevations = coordinates.map(coord => coord.elevation ?? 0);
+  const cumulativeGain = new Array<number>(elevations.length);
+  const cumulativeLoss = new Array<number>(elevations.length);
+  let gain = 0;
+  let loss = 0;
+  for (let i = 0; i < elevations.length; i++) {
+    if (i > 0) {
+      const change = elevations[i] - elevations[i - 1];
+      if (change > 0) gain += change;
+      else loss -= change;
+    }
+    cumulativeGain[i] = gain;
+    cumulativeLoss[i] = loss;
+  }
+  return { elevations, cumulativeGain, cumulativeLoss };
+};
+
+// Ask the provider for one batch, giving up after the timeout or when the caller's signal aborts
+const lookupBatch = async (
+  provider: ElevationProvider,
+  points: Coordinate[],
+  timeout: number,
+  signal?: AbortSignal
+): Promise<number[]> => {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', cancel, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  try {
+    return await provider.lookup(points, controller.signal);
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`${provider.label} did not answer within ${timeout / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// Fill in elevation for every coordinate that lacks it, asking the provider in batches
+export const addElevations = async (
+  provider: ElevationProvider,
+  coordinates: Coordinate[],
+  signal?: AbortSignal,
+  timeout = ELEVATION_LOOKUP_TIMEOUT
+): Promise<Coordinate[]> => {
+  const missing = coordinates
+    .map((coord, index) => ({ coord, index }))
+    .filter(({ coord }) => coord.elevation === undefined);
+  const result = [...coordinates];
+
+  for (let i = 0; i < missing.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = missing.slice(i, i + LOOKUP_BATCH_SIZE);
+    console.log(`Looking up ${batch.length} elevations with ${provider.label}`);
+    const elevations = await lookupBatch(provider, batch.map(({ coord }) => coord), timeout, signal);
+    batch.forEach(({ coord, index }, batchIndex) => {
+      result[index] = { ...coord, elevation: elevations[batchIndex] };
+    });
+  }
+  return result;
+};
+
+// The segment containing a distance, as the indexes of the coordinates either side of it
+const findSegment = (routeIndex: RouteIndex, distance: number): { low: number; high: number } => {
+  const { cumulativeDistances } = routeIndex;
+  let low = 0;
+  let high = cumulativeDistances.length - 1;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (cumulativeDistances[middle] <= distance) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return { low, high };
+};
+
+// Elevation at a distance along the route, interpolated between coordinates
+export const getElevationAt = (routeIndex: RouteIndex, distance: number): number | null => {
+  const { elevation } = routeIndex;
+  if (!elevation) return null;
+
+  const { elevations } = elevation;
+  if (distance <= 0) return elevations[0];
+  if (distance >= routeIndex.totalDistance) return elevations[elevations.length - 1];
+
+  const { low, high } = findSegment(routeIndex, distance);
+  const { cumulativeDistances } = routeIndex;
+  const length = cumulativeDistances[high] - cumulativeDistances[low];
+  const fraction = length > 0 ? (distance - cumulativeDistances[low]) / length : 0;
+  return elevations[low] + (elevations[high] - elevations[low]) * fraction;
+};
+
+// Meters either side of the walker used to measure the grade, so single noisy points don't count
+const GRADE_WINDOW = 15;
+
+// Rise over run at a distance along the route (0.05 = 5% uphill), or null without elevation data
+export const getGradeAt = (routeIndex: RouteIndex, distance: number): number | null => {
+  const from = Math.max(0, distance - GRADE_WINDOW);
+  const to = Math.min(routeIndex.totalDistance, distance + GRADE_WINDOW);
+  const fromElevation = getElevationAt(routeIndex, from);
+  const toElevation = getElevationAt(routeIndex, to);
+  if (fromElevation === null || toElevation === null || to <= from) return null;
+  return (toElevation - fromElevation) / (to - from);
+};
+
+export interface ElevationProfilePoint {
+  // Meters from the route start
+  distance: number;
+  elevation: number;
+}
+
+export const getElevationProfile = (routeIndex: RouteIndex): ElevationProfilePoint[] =>
+  routeIndex.elevation?.elevations.map((elevation, index) => ({
+    distance: routeIndex.cumulativeDistances[index],
+    elevation
+  })) ?? [];
+
+// Climb and descent from the route start to a distance; within a segment the slope doesn't change
+const getChangeTo = (routeIndex: RouteIndex, elevation: RouteElevationIndex, distance: number) => {
+  const last = elevation.elevations.length - 1;
+  if (distance <= 0) return { gain: 0, loss: 0 };
+  if (distance >= routeIndex.totalDistance) return { gain: elevation.cumulativeGain[last], loss: elevation.cumulativeLoss[last] };
+
+  const { low } = findSegment(routeIndex, distance);
+  const change = (getElevationAt(routeIndex, distance) ?? 0) - elevation.elevations[low];
+  return {
+    gain: elevation.cumulativeGain[low] + Math.max(0, change),
+    loss: elevation.cumulativeLoss[low] + Math.max(0, -change)
+  };
+};
+
+// Total climb and descent between two distances along the route
+export const getElevationChange = (
+  routeIndex: RouteIndex,
+  fromDistance = 0,
+  toDistance = routeIndex.totalDistance
+): { gain: number; loss: number } => {
+  const { elevation } = routeIndex;
+  if (!elevation || toDistance <= fromDistance) return { gain: 0, loss: 0 };
+
+  const from = getChangeTo(routeIndex, elevation, fromDistance);
+  const to = getChangeTo(routeIndex, elevation, toDistance);
+  return { gain: to.gain - from.gain, loss: to.loss - from.loss };
+};
+
+export type PaceModel = 'constant' | 'tobler';
+
+export const PACE_MODELS: PaceModel[] = ['constant', 'tobler'];
+
+// Tobler's hiking function relative to flat ground: 1 on the flat, fastest on a gentle descent
+export const toblerSpeedFactor = (grade: number): number =>
+  Math.exp(-3.5 * Math.abs(grade + 0.05)) / Math.exp(-3.5 * 0.05);
@@ -0,0 +1,56 @@
+import type { Coordinate } from './types';
+
+// Calculate distance between two coordinates in meters
+export const calculateDistance = (coord1: Coordinate, coord2: Coordinate): number => {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = coord1.lat * Math.PI / 180;
+  const φ2 = coord2.lat * Math.PI / 180;
+  const Δφ = (coord2.lat - coord1.lat) * Math.PI / 180;
+  const Δλ = (coord2.lng - coord1.lng) * Math.PI / 180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return R * c;
+};
+
+// Total length of a route in meters
+export const calculateRouteDistance = (coordinates: Coordinate[]): number => {
+  let distance = 0;
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    distance += calculateDistance(coordinates[i], coordinates[i + 1]);
+  }
+  return distance;
+};
+
+// Calculate bearing between two coordinates
+export const calculateBearing = (coord1: Coordinate, coord2: Coordinate): number => {
+  const Δλ = (coord2.lng - coord1.lng) * Math.PI / 180;
+  const y = Math.sin(Δλ) * Math.cos(coord2.lat * Math.PI / 180);
+  const x = Math.cos(coord1.lat * Math.PI / 180) * Math.sin(coord2.lat * Math.PI / 180) -
+            Math.sin(coord1.lat * Math.PI / 180) * Math.cos(coord2.lat * Math.PI / 180) * Math.cos(Δλ);
+  const bearing = Math.atan2(y, x);
+  return (bearing * 180 / Math.PI + 360) % 360;
+};
+
+// Get direction name based on bearing
+export const getDirectionName = (bearing: number): string => {
+  const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  const index = Math.round(bearing / 45) % 8;
+  return directions[index];
+};
+
+// Format a distance in meters for display
+export const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+
+// Format a duration in seconds for display, e.g. "1:05:09" or "12:30"
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
@@ -0,0 +1,1608 @@
+import type { PaceModel } from './elevation';
+import type { Formality, NarratorPersona } from './listenerPreferences';
+import type { NarratorHealthStatus } from './narrationRequests';
+import type { NarrationTriggerReason } from './narrationTriggers';
+import type { WalkSessionStatus } from './walkSessions';
+import type { WalkingState } from './walkSimulator';
+
+export type Language = 'en' | 'de' | 'fr' | 'es' | 'it';
+
+// Each language in its own name, for the language picker
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  it: 'Italiano'
+};
+
+// English names for the narrator's instructions, which are written in English
+export const LANGUAGE_PROMPT_NAMES: Record<Language, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian'
+};
+
+// BCP 47 tag handed to speech synthesis when no particular voice is chosen
+export const LANGUAGE_SPEECH_TAGS: Record<Language, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  fr: 'fr-FR',
+  es: 'es-ES',
+  it: 'it-IT'
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && value in LANGUAGE_LABELS;
+
+// The browser's preferred language when we have strings for it, otherwise English
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator !== 'undefined' ? navigator.language.split('-')[0] : 'en';
+  return isLanguage(preferred) ? preferred : 'en';
+};
+
+// Voices report tags like "de-DE", "de_DE" or just "de"
+export const isVoiceForLanguage = (voice: SpeechSynthesisVoice, language: Language): boolean =>
+  voice.lang.toLowerCase().split(/[-_]/)[0] === language;
+
+// Turn-by-turn instructions, built from OSRM-style maneuver types
+export interface InstructionStrings {
+  // Compass points as returned by getDirectionName
+  directions: Record<string, string>;
+  // Maneuver modifiers such as "slight left"
+  modifiers: Record<string, string>;
+  depart: (direction: string | null, name: string) => string;
+  arrive: string;
+  roundaboutExit: (exit: number, name: string) => string;
+  roundabout: (name: string) => string;
+  continue: (modifier: string, name: string) => string;
+  fork: (modifier: string, name: string) => string;
+  uturn: (name: string) => string;
+  turn: (modifier: string, name: string) => string;
+}
+
+export interface UiStrings {
+  appTitle: string;
+  language: string;
+  pasteBRouterUrl: string;
+  selectOnMap: string;
+  loadRouteFile: string;
+  brouterUrlLabel: string;
+  brouterHelp: string;
+  brouterSteps: string;
+  walkingPace: string;
+  startWalking: string;
+  pause: string;
+  continue: string;
+  stop: string;
+  replayWalk: string;
+  walkingStatus: string;
+  walkingStates: Record<WalkingState, string>;
+  statusState: string;
+  statusCurrentPace: string;
+  statusCoordinateUpdates: string;
+  everySecond: string;
+  statusAiUpdates: string;
+  statusNarrator: string;
+  statusPrefetched: string;
+  statusLastNarration: string;
+  statusNextTimedCall: string;
+  statusActualPace: string;
+  measuring: string;
+  statusDistanceFromRoute: string;
+  offRoute: string;
+  statusGpsAccuracy: string;
+  statusCurrentPosition: string;
+  routeMap: string;
+  aiResponses: string;
+  noResponses: (narrator: string) => string;
+  speakNarrations: string;
+  defaultVoice: string;
+  askPlaceholderStopped: string;
+  askPlaceholder: string;
+  ask: string;
+  youAsked: string;
+  walkStatistics: string;
+  statsWalked: string;
+  distanceOf: (walked: string, total: string) => string;
+  statsRemaining: string;
+  statsElapsedTime: string;
+  statsMovingTime: string;
+  statsEta: string;
+  statsAveragePace: string;
+  statsNarrations: string;
+  answeredQuestions: (count: number) => string;
+  walkComplete: string;
+  walkEnded: string;
+  yourRoute: string;
+  summaryWalked: string;
+  summaryOfTotal: (total: string, percent: number) => string;
+  summaryTotalTime: string;
+  summaryMoving: string;
+  summaryAveragePace: string;
+  summaryNarrations: string;
+  summaryQuestionsAnswered: string;
+  close: string;
+  resumeWalkOn: string;
+  resumeUnfinished: (walked: string, duration: string) => string;
+  resumeWalk: string;
+  dismiss: string;
+  routeFileLabel: string;
+  routeFileHelp: string;
+  routeFileFormats: string;
+  routeFileLoaded: (fileName: string, points: number) => string;
+  buildYourRoute: string;
+  mapStepAdd: string;
+  mapStepMove: string;
+  mapStepInsert: string;
+  startPoint: string;
+  endPoint: string;
+  viaPoint: (index: number) => string;
+  undo: string;
+  redo: string;
+  clear: string;
+  stopToEditRoute: string;
+  routeReady: string;
+  routingProvider: string;
+  baseUrl: (service: string) => string;
+  routingProfile: (service: string) => string;
+  rerouteWith: (provider: string) => string;
+  fallbackRouteInUse: (legs: string, count: number) => string;
+  walkingMode: string;
+  simulated: string;
+  liveGps: string;
+  offRouteThreshold: string;
+  replayTraceLabel: string;
+  traceFixes: (fileName: string, count: number) => string;
+  replaySpeed: string;
+  useDeviceGps: string;
+  paceModel: string;
+  noElevationForPace: string;
+  elevation: string;
+  elevationNoRoute: string;
+  elevationAvailable: string;
+  elevationMissing: string;
+  elevationServiceUrl: string;
+  lookingUp: string;
+  lookUpElevation: string;
+  narrator: string;
+  flowId: string;
+  apiKey: string;
+  apiKeyOptional: string;
+  agentComponentId: string;
+  chatCompletionsBaseUrl: string;
+  model: string;
+  streamNarration: string;
+  prefetchNarration: string;
+  giveUpAfter: string;
+  secondsWithoutReply: string;
+  retryFailedRequests: string;
+  times: string;
+  mockNarratorHint: string;
+  tellAboutPlaces: string;
+  placesSource: string;
+  apiUrl: (service: string) => string;
+  within: string;
+  metersUpTo: string;
+  placesPerNarration: string;
+  placesLoaded: (loaded: number, mentioned: number) => string;
+  narrate: string;
+  every: string;
+  seconds: string;
+  meters: string;
+  narrationIntervalSeconds: string;
+  narrationDistanceMeters: string;
+  beforeTurnsFrom: string;
+  metersAhead: string;
+  turnAnnouncementDistance: string;
+  atStartAndEnd: string;
+  atMostOnceEvery: string;
+  prefetchSummary: (status: { ready: number; pending: number; used: number; discarded: number }) => string;
+  mentioned: string;
+  gpsPosition: string;
+  replayPosition: string;
+  currentPosition: string;
+  exportTitle: string;
+  plannedRoute: string;
+  walkedTrack: (points: number) => string;
+  routeCoordinates: (points: number) => string;
+  noCoordinates: string;
+  narratorRequests: (count: number) => string;
+  noNarratorRequests: string;
+  voice: string;
+  speechRate: (rate: string) => string;
+  speechVolume: (percent: number) => string;
+  speaking: string;
+  queued: string;
+  replay: string;
+  skip: string;
+  enterRouteFirst: string;
+  narrationRetrying: (error: string, attempt: number, maxRetries: number, seconds: number) => string;
+  narrationFailed: (error: string) => string;
+  simulationSpeed: string;
+  stepMode: string;
+  simulationSpeedHint: string;
+  seekHint: string;
+  step: string;
+  nextSegment: string;
+  stepPosition: (walked: string, segment: number, segments: number) => string;
+  walkStartsAt: (distance: string) => string;
+  startFromBeginning: string;
+  moveWalkerHere: string;
+  directionsSteps: (count: number) => string;
+  inDistance: (distance: string) => string;
+  noRouteLoaded: string;
+  instructions: InstructionStrings;
+  play: string;
+  closeReplay: string;
+  playbackSpeed: string;
+  narrationReasons: Record<NarrationTriggerReason, string>;
+  narrationAt: (reason: string, distance: string) => string;
+  replayTickDetails: (walked: string, segment: number, pace: string, state: string) => string;
+  narrationTextUnavailable: string;
+  dismissAll: string;
+  routeLibrary: string;
+  routeNamePlaceholder: string;
+  saveCurrentRoute: string;
+  searchSavedRoutes: string;
+  noSavedRoutes: string;
+  noRoutesMatch: string;
+  loadThisRoute: string;
+  save: string;
+  cancel: string;
+  rename: string;
+  duplicate: string;
+  delete: string;
+  narrationCount: (count: number) => string;
+  defaultRouteName: (date: string) => string;
+  confirmDeleteRoute: (name: string) => string;
+  routeLibraryUnavailable: string;
+  couldNotSaveRoute: string;
+  couldNotRenameRoute: string;
+  couldNotDeleteRoute: string;
+  couldNotDuplicateRoute: string;
+  routeSourceBRouter: string;
+  routeSourceMap: string;
+  routeSourceFile: (fileName: string) => string;
+  walkHistory: string;
+  walkHistoryUnavailable: string;
+  confirmDeleteWalk: (routeName: string, startedAt: string) => string;
+  couldNotDeleteWalk: string;
+  noWalksYet: string;
+  currentWalk: string;
+  walkSessionStatuses: Record<WalkSessionStatus, string>;
+  walkedWithNarrations: (walked: string, count: number) => string;
+  transcript: string;
+  hideTranscript: string;
+  resume: string;
+  listenerPreferences: string;
+  interests: string;
+  interestTopics: Record<string, string>;
+  persona: string;
+  personas: Record<NarratorPersona, string>;
+  tone: string;
+  formalities: Record<Formality, string>;
+  maxWords: string;
+  familyFriendly: string;
+  elevationProfile: string;
+  paceModels: Record<PaceModel, string>;
+  narratorHealthStates: Record<NarratorHealthStatus, string>;
+  narrateEverySeconds: (seconds: number) => string;
+  narrateEveryMeters: (meters: number) => string;
+  narrateBeforeTurns: string;
+  narrateAtStartAndEnd: string;
+  narrationOff: string;
+  triggerStart: string;
+  triggerArrival: (remaining: number) => string;
+  triggerTime: (seconds: number) => string;
+  triggerDistance: (meters: number) => string;
+  triggerManeuver: (instruction: string, distanceAhead: number) => string;
+  triggerOffRoute: (meters: number) => string;
+  triggerQuestion: string;
+  unsavedRoute: string;
+}
+
+export const UI_STRINGS: Record<Language, UiStrings> = {
+  en: {
+    appTitle: 'WalkRadio - AI Walking Companion',
+    language: 'Language',
+    pasteBRouterUrl: 'Paste BRouter URL',
+    selectOnMap: 'Select on Map',
+    loadRouteFile: 'Load route file',
+    brouterUrlLabel: 'BRouter Route URL:',
+    brouterHelp: 'Create your route at',
+    brouterSteps: '1. Go to BRouter Map 2. Draw your route 3. Copy the URL 4. Paste it here',
+    walkingPace: 'Walking Pace (km/h):',
+    startWalking: 'Start Walking',
+    pause: 'Pause',
+    continue: 'Continue',
+    stop: 'Stop',
+    replayWalk: 'Replay Walk',
+    walkingStatus: 'Walking Status',
+    walkingStates: { stopped: 'Stopped', walking: 'Walking', paused: 'Paused' },
+    statusState: 'State:',
+    statusCurrentPace: 'Current Pace:',
+    statusCoordinateUpdates: 'Coordinate Updates:',
+    everySecond: 'Every 1 second',
+    statusAiUpdates: 'AI Updates:',
+    statusNarrator: 'Narrator:',
+    statusPrefetched: 'Prefetched:',
+    statusLastNarration: 'Last Narration:',
+    statusNextTimedCall: 'Next Timed Call:',
+    statusActualPace: 'Actual Pace:',
+    measuring: 'Measuring...',
+    statusDistanceFromRoute: 'Distance from Route:',
+    offRoute: '(off route)',
+    statusGpsAccuracy: 'GPS Accuracy:',
+    statusCurrentPosition: 'Current Position:',
+    routeMap: 'Route Map',
+    aiResponses: 'AI Responses',
+    noResponses: narrator => `No AI responses yet. Start walking to hear from the ${narrator} narrator.`,
+    speakNarrations: 'Speak narrations',
+    defaultVoice: 'Default voice',
+    askPlaceholderStopped: 'Start walking to ask the guide a question',
+    askPlaceholder: 'Ask the guide, e.g. "What is that building?"',
+    ask: 'Ask',
+    youAsked: 'You asked:',
+    walkStatistics: 'Walk Statistics',
+    statsWalked: 'Walked:',
+    distanceOf: (walked, total) => `${walked} of ${total}`,
+    statsRemaining: 'Remaining:',
+    statsElapsedTime: 'Elapsed Time:',
+    statsMovingTime: 'Moving Time:',
+    statsEta: 'ETA:',
+    statsAveragePace: 'Average Pace:',
+    statsNarrations: 'Narrations:',
+    answeredQuestions: count => `+ ${count} answered questions`,
+    walkComplete: 'Walk complete',
+    walkEnded: 'Walk ended',
+    yourRoute: 'Your route',
+    summaryWalked: 'walked',
+    summaryOfTotal: (total, percent) => `of ${total} (${percent}%)`,
+    summaryTotalTime: 'total time',
+    summaryMoving: 'moving',
+    summaryAveragePace: 'average pace',
+    summaryNarrations: 'narrations',
+    summaryQuestionsAnswered: 'questions answered',
+    close: 'Close',
+    resumeWalkOn: 'Your walk on',
+    resumeUnfinished: (walked, duration) => `was left unfinished (${walked} walked in ${duration}).`,
+    resumeWalk: 'Resume walk',
+    dismiss: 'Dismiss',
+    routeFileLabel: 'Route File (GPX, KML or GeoJSON):',
+    routeFileHelp: 'Load a walking route exported from another tool',
+    routeFileFormats: 'GPX tracks or routes, KML LineStrings and GeoJSON LineStrings are supported',
+    routeFileLoaded: (fileName, points) => `Loaded ${fileName} (${points} points). You can now start walking.`,
+    buildYourRoute: 'Build Your Route',
+    mapStepAdd: 'Click on the map to add a waypoint',
+    mapStepMove: 'Drag a marker to move it, click a marker to delete it',
+    mapStepInsert: 'Drag the route line to insert a via point',
+    startPoint: 'Start Point',
+    endPoint: 'End Point',
+    viaPoint: index => `Via Point ${index}`,
+    undo: 'Undo',
+    redo: 'Redo',
+    clear: 'Clear',
+    stopToEditRoute: 'Stop walking to edit the route.',
+    routeReady: 'Route ready! You can now start walking.',
+    routingProvider: 'Routing Provider:',
+    baseUrl: service => `${service} base URL`,
+    routingProfile: service => `${service} profile`,
+    rerouteWith: provider => `Re-route with ${provider}`,
+    fallbackRouteInUse: (legs, count) => `Fallback route in use: straight line for leg${count > 1 ? 's' : ''} ${legs}`,
+    walkingMode: 'Walking Mode:',
+    simulated: 'Simulated',
+    liveGps: 'Live GPS',
+    offRouteThreshold: 'Off-route threshold (m):',
+    replayTraceLabel: 'Replay a recorded GPS trace instead (GPX or GeoJSON):',
+    traceFixes: (fileName, count) => `${fileName} (${count} fixes)`,
+    replaySpeed: 'Replay speed',
+    useDeviceGps: 'Use device GPS',
+    paceModel: 'Pace model',
+    noElevationForPace: 'This route has no elevation data yet, so the pace stays constant.',
+    elevation: 'Elevation:',
+    elevationNoRoute: 'Load a route to see its elevation.',
+    elevationAvailable: 'Elevation data available for the whole route.',
+    elevationMissing: 'Some points have no elevation. BRouter routes and GPX files with <ele> include it; otherwise look it up.',
+    elevationServiceUrl: 'Elevation service URL',
+    lookingUp: 'Looking up...',
+    lookUpElevation: 'Look up elevation',
+    narrator: 'Narrator:',
+    flowId: 'Flow ID',
+    apiKey: 'API key',
+    apiKeyOptional: 'API key (optional)',
+    agentComponentId: 'Agent component ID for prompt tweaks (optional)',
+    chatCompletionsBaseUrl: 'Chat completions base URL',
+    model: 'Model',
+    streamNarration: 'Stream narration as it is generated',
+    prefetchNarration: 'Prepare the next narration before the walker gets there',
+    giveUpAfter: 'Give up after',
+    secondsWithoutReply: 'seconds without a reply',
+    retryFailedRequests: 'Retry failed requests',
+    times: 'times',
+    mockNarratorHint: 'Canned narrations generated locally, no server needed.',
+    tellAboutPlaces: 'Tell the narrator about nearby places',
+    placesSource: 'Places source',
+    apiUrl: service => `${service} API URL`,
+    within: 'Within',
+    metersUpTo: 'meters, up to',
+    placesPerNarration: 'places per narration',
+    placesLoaded: (loaded, mentioned) => `${loaded} places loaded, ${mentioned} mentioned so far`,
+    narrate: 'Narrate:',
+    every: 'Every',
+    seconds: 'seconds',
+    meters: 'meters',
+    narrationIntervalSeconds: 'Narration interval in seconds',
+    narrationDistanceMeters: 'Narration distance in meters',
+    beforeTurnsFrom: 'Before turns, from',
+    metersAhead: 'meters ahead',
+    turnAnnouncementDistance: 'Turn announcement distance in meters',
+    atStartAndEnd: 'At the start and end of the route',
+    atMostOnceEvery: 'At most once every',
+    prefetchSummary: ({ ready, pending, used, discarded }) => `${ready} ready, ${pending} pending · ${used} used, ${discarded} discarded`,
+    mentioned: 'mentioned',
+    gpsPosition: 'GPS Position',
+    replayPosition: 'Replay Position',
+    currentPosition: 'Current Position',
+    exportTitle: 'Export',
+    plannedRoute: 'Planned route:',
+    walkedTrack: points => `Walked track (${points} points):`,
+    routeCoordinates: points => `Route Coordinates (${points} points)`,
+    noCoordinates: 'No coordinates loaded. Please enter a route URL.',
+    narratorRequests: count => `Narrator Requests (${count})`,
+    noNarratorRequests: 'No requests sent yet. Each call to the narrator shows up here exactly as it was sent.',
+    voice: 'Voice',
+    speechRate: rate => `Rate ${rate}x`,
+    speechVolume: percent => `Volume ${percent}%`,
+    speaking: 'Speaking',
+    queued: 'Queued',
+    replay: 'Replay',
+    skip: 'Skip',
+    enterRouteFirst: 'Please enter a route URL first',
+    narrationRetrying: (error, attempt, maxRetries, seconds) => `${error}. Retrying (${attempt} of ${maxRetries}) in ${seconds}s...`,
+    narrationFailed: error => `Narration failed: ${error}`,
+    simulationSpeed: 'Simulation speed',
+    stepMode: 'Step-by-step debug mode',
+    simulationSpeedHint: 'Narrations keep to real time, so a faster simulation covers more ground between them.',
+    seekHint: 'Click the route or a coordinate to move the walker there.',
+    step: 'Step',
+    nextSegment: 'Next segment',
+    stepPosition: (walked, segment, segments) => `${walked} · segment ${segment} of ${segments}`,
+    walkStartsAt: distance => `The walk will start ${distance} into the route.`,
+    startFromBeginning: 'Start from the beginning',
+    moveWalkerHere: 'Move the walker here',
+    directionsSteps: count => `Directions (${count} steps)`,
+    inDistance: distance => `in ${distance}`,
+    noRouteLoaded: 'No route loaded.',
+    instructions: {
+      directions: { N: 'N', NE: 'NE', E: 'E', SE: 'SE', S: 'S', SW: 'SW', W: 'W', NW: 'NW' },
+      modifiers: {
+        left: 'left',
+        right: 'right',
+        'slight left': 'slight left',
+        'slight right': 'slight right',
+        'sharp left': 'sharp left',
+        'sharp right': 'sharp right',
+        straight: 'straight',
+        uturn: 'uturn'
+      },
+      depart: (direction, name) => `Head ${direction ?? 'off'}${name ? ` on ${name}` : ''}`,
+      arrive: 'Arrive at your destination',
+      roundaboutExit: (exit, name) => `At the roundabout, take exit ${exit}${name ? ` onto ${name}` : ''}`,
+      roundabout: name => `Enter the roundabout${name ? ` onto ${name}` : ''}`,
+      continue: (modifier, name) => `Continue ${modifier}${name ? ` onto ${name}` : ''}`,
+      fork: (modifier, name) => `Keep ${modifier} at the fork${name ? ` onto ${name}` : ''}`,
+      uturn: name => `Make a U-turn${name ? ` onto ${name}` : ''}`,
+      turn: (modifier, name) => `Turn ${modifier}${name ? ` onto ${name}` : ''}`
+    },
+    play: 'Play',
+    closeReplay: 'Close replay',
+    playbackSpeed: 'Playback speed',
+    narrationReasons: { start: 'Start', arrival: 'Arrival', time: 'Timed', distance: 'Distance', maneuver: 'Turn', 'off-route': 'Off route', question: 'Question' },
+    narrationAt: (reason, distance) => `${reason} narration at ${distance}`,
+    replayTickDetails: (walked, segment, pace, state) => `${walked} walked · segment ${segment} · ${pace} km/h · ${state}`,
+    narrationTextUnavailable: 'Narration text not available',
+    dismissAll: 'Dismiss all',
+    routeLibrary: 'Route Library',
+    routeNamePlaceholder: 'Name for the current route',
+    saveCurrentRoute: 'Save current route',
+    searchSavedRoutes: 'Search saved routes',
+    noSavedRoutes: 'No saved routes yet.',
+    noRoutesMatch: 'No routes match your search.',
+    loadThisRoute: 'Load this route',
+    save: 'Save',
+    cancel: 'Cancel',
+    rename: 'Rename',
+    duplicate: 'Duplicate',
+    delete: 'Delete',
+    narrationCount: count => `${count} narrations`,
+    defaultRouteName: date => `Route ${date}`,
+    confirmDeleteRoute: name => `Delete "${name}" from the route library?`,
+    routeLibraryUnavailable: 'Could not open the route library in this browser.',
+    couldNotSaveRoute: 'Could not save the route.',
+    couldNotRenameRoute: 'Could not rename the route.',
+    couldNotDeleteRoute: 'Could not delete the route.',
+    couldNotDuplicateRoute: 'Could not duplicate the route.',
+    routeSourceBRouter: 'BRouter URL',
+    routeSourceMap: 'Map selection',
+    routeSourceFile: fileName => `File: ${fileName}`,
+    walkHistory: 'Walk History',
+    walkHistoryUnavailable: 'Could not open the walk history in this browser.',
+    confirmDeleteWalk: (routeName, startedAt) => `Delete the walk on "${routeName}" from ${startedAt}?`,
+    couldNotDeleteWalk: 'Could not delete the walk.',
+    noWalksYet: 'No walks yet.',
+    currentWalk: 'Current walk',
+    walkSessionStatuses: { walking: 'Interrupted', paused: 'Paused', ended: 'Finished' },
+    walkedWithNarrations: (walked, count) => `${walked} walked · ${count} narrations`,
+    transcript: 'Transcript',
+    hideTranscript: 'Hide transcript',
+    resume: 'Resume',
+    listenerPreferences: 'Listener Preferences',
+    interests: 'Interests:',
+    interestTopics: { history: 'history', architecture: 'architecture', food: 'food', art: 'art', music: 'music', nature: 'nature', shopping: 'shopping', 'local tips': 'local tips' },
+    persona: 'Persona:',
+    personas: { 'local-guide': 'Local guide', historian: 'Historian', foodie: 'Food lover', storyteller: 'Storyteller', 'radio-host': 'Radio host' },
+    tone: 'Tone:',
+    formalities: { casual: 'Casual', neutral: 'Neutral', formal: 'Formal' },
+    maxWords: 'Max words:',
+    familyFriendly: 'Family-friendly',
+    elevationProfile: 'Elevation profile',
+    paceModels: { constant: 'Constant pace', tobler: 'Grade-adjusted (Tobler)' },
+    narratorHealthStates: { unknown: 'Not contacted yet', healthy: 'Connected', degraded: 'Slow or retrying', down: 'Unreachable' },
+    narrateEverySeconds: seconds => `every ${seconds}s`,
+    narrateEveryMeters: meters => `every ${meters} m`,
+    narrateBeforeTurns: 'before turns',
+    narrateAtStartAndEnd: 'at start and end',
+    narrationOff: 'Off',
+    triggerStart: 'Start of the route',
+    triggerArrival: remaining => `Arriving, ${remaining} m to go`,
+    triggerTime: seconds => `${seconds} seconds since the last narration`,
+    triggerDistance: meters => `${meters} m walked since the last narration`,
+    triggerManeuver: (instruction, distanceAhead) => `${instruction} in ${distanceAhead} m`,
+    triggerOffRoute: meters => `Off route by ${meters} m`,
+    triggerQuestion: 'Answered a listener question',
+    unsavedRoute: 'Unsaved route'
+  },
+  de: {
+    appTitle: 'WalkRadio - KI-Wanderbegleiter',
+    language: 'Sprache',
+    pasteBRouterUrl: 'BRouter-URL einfügen',
+    selectOnMap: 'Auf der Karte wählen',
+    loadRouteFile: 'Routendatei laden',
+    brouterUrlLabel: 'BRouter-Routen-URL:',
+    brouterHelp: 'Erstelle deine Route auf',
+    brouterSteps: '1. BRouter-Karte öffnen 2. Route zeichnen 3. URL kopieren 4. Hier einfügen',
+    walkingPace: 'Gehtempo (km/h):',
+    startWalking: 'Loslaufen',
+    pause: 'Pause',
+    continue: 'Weiter',
+    stop: 'Stopp',
+    replayWalk: 'Spaziergang abspielen',
+    walkingStatus: 'Status des Spaziergangs',
+    walkingStates: { stopped: 'Angehalten', walking: 'Unterwegs', paused: 'Pausiert' },
+    statusState: 'Zustand:',
+    statusCurrentPace: 'Aktuelles Tempo:',
+    statusCoordinateUpdates: 'Positionsupdates:',
+    everySecond: 'Jede Sekunde',
+    statusAiUpdates: 'KI-Updates:',
+    statusNarrator: 'Erzähler:',
+    statusPrefetched: 'Vorgeladen:',
+    statusLastNarration: 'Letzte Erzählung:',
+    statusNextTimedCall: 'Nächster geplanter Aufruf:',
+    statusActualPace: 'Tatsächliches Tempo:',
+    measuring: 'Wird gemessen...',
+    statusDistanceFromRoute: 'Abstand zur Route:',
+    offRoute: '(abseits der Route)',
+    statusGpsAccuracy: 'GPS-Genauigkeit:',
+    statusCurrentPosition: 'Aktuelle Position:',
+    routeMap: 'Routenkarte',
+    aiResponses: 'KI-Antworten',
+    noResponses: narrator => `Noch keine KI-Antworten. Lauf los, um den ${narrator}-Erzähler zu hören.`,
+    speakNarrations: 'Erzählungen vorlesen',
+    defaultVoice: 'Standardstimme',
+    askPlaceholderStopped: 'Lauf los, um dem Guide eine Frage zu stellen',
+    askPlaceholder: 'Frag den Guide, z. B. „Was ist das für ein Gebäude?“',
+    ask: 'Fragen',
+    youAsked: 'Deine Frage:',
+    walkStatistics: 'Statistik des Spaziergangs',
+    statsWalked: 'Gegangen:',
+    distanceOf: (walked, total) => `${walked} von ${total}`,
+    statsRemaining: 'Verbleibend:',
+    statsElapsedTime: 'Vergangene Zeit:',
+    statsMovingTime: 'Gehzeit:',
+    statsEta: 'Ankunft in:',
+    statsAveragePace: 'Durchschnittstempo:',
+    statsNarrations: 'Erzählungen:',
+    answeredQuestions: count => `+ ${count} beantwortete Fragen`,
+    walkComplete: 'Spaziergang beendet',
+    walkEnded: 'Spaziergang abgebrochen',
+    yourRoute: 'Deine Route',
+    summaryWalked: 'gegangen',
+    summaryOfTotal: (total, percent) => `von ${total} (${percent} %)`,
+    summaryTotalTime: 'Gesamtzeit',
+    summaryMoving: 'in Bewegung',
+    summaryAveragePace: 'Durchschnittstempo',
+    summaryNarrations: 'Erzählungen',
+    summaryQuestionsAnswered: 'beantwortete Fragen',
+    close: 'Schließen',
+    resumeWalkOn: 'Dein Spaziergang auf',
+    resumeUnfinished: (walked, duration) => `wurde nicht beendet (${walked} in ${duration} gegangen).`,
+    resumeWalk: 'Spaziergang fortsetzen',
+    dismiss: 'Ausblenden',
+    routeFileLabel: 'Routendatei (GPX, KML oder GeoJSON):',
+    routeFileHelp: 'Lade eine Route, die aus einem anderen Programm exportiert wurde',
+    routeFileFormats: 'Unterstützt werden GPX-Tracks und -Routen sowie LineStrings aus KML und GeoJSON',
+    routeFileLoaded: (fileName, points) => `${fileName} geladen (${points} Punkte). Du kannst jetzt loslaufen.`,
+    buildYourRoute: 'Route erstellen',
+    mapStepAdd: 'Klicke auf die Karte, um einen Wegpunkt hinzuzufügen',
+    mapStepMove: 'Ziehe eine Markierung, um sie zu verschieben, klicke sie an, um sie zu löschen',
+    mapStepInsert: 'Ziehe an der Routenlinie, um einen Zwischenpunkt einzufügen',
+    startPoint: 'Startpunkt',
+    endPoint: 'Endpunkt',
+    viaPoint: index => `Zwischenpunkt ${index}`,
+    undo: 'Rückgängig',
+    redo: 'Wiederholen',
+    clear: 'Leeren',
+    stopToEditRoute: 'Halte an, um die Route zu bearbeiten.',
+    routeReady: 'Route fertig! Du kannst jetzt loslaufen.',
+    routingProvider: 'Routing-Dienst:',
+    baseUrl: service => `${service}-Basis-URL`,
+    routingProfile: service => `${service}-Profil`,
+    rerouteWith: provider => `Mit ${provider} neu berechnen`,
+    fallbackRouteInUse: (legs, count) => `Ersatzroute in Verwendung: gerade Linie für ${count > 1 ? 'die Abschnitte' : 'Abschnitt'} ${legs}`,
+    walkingMode: 'Gehmodus:',
+    simulated: 'Simuliert',
+    liveGps: 'Live-GPS',
+    offRouteThreshold: 'Abstand bis „abseits der Route“ (m):',
+    replayTraceLabel: 'Stattdessen einen aufgezeichneten GPS-Track abspielen (GPX oder GeoJSON):',
+    traceFixes: (fileName, count) => `${fileName} (${count} Positionen)`,
+    replaySpeed: 'Wiedergabegeschwindigkeit',
+    useDeviceGps: 'GPS des Geräts verwenden',
+    paceModel: 'Tempomodell',
+    noElevationForPace: 'Diese Route hat noch keine Höhendaten, daher bleibt das Tempo konstant.',
+    elevation: 'Höhe:',
+    elevationNoRoute: 'Lade eine Route, um ihr Höhenprofil zu sehen.',
+    elevationAvailable: 'Höhendaten für die ganze Route vorhanden.',
+    elevationMissing: 'Manche Punkte haben keine Höhe. BRouter-Routen und GPX-Dateien mit <ele> enthalten sie, sonst kannst du sie nachschlagen.',
+    elevationServiceUrl: 'URL des Höhendienstes',
+    lookingUp: 'Wird abgefragt...',
+    lookUpElevation: 'Höhe abfragen',
+    narrator: 'Erzähler:',
+    flowId: 'Flow-ID',
+    apiKey: 'API-Schlüssel',
+    apiKeyOptional: 'API-Schlüssel (optional)',
+    agentComponentId: 'Agent-Komponenten-ID für Prompt-Anpassungen (optional)',
+    chatCompletionsBaseUrl: 'Basis-URL für Chat Completions',
+    model: 'Modell',
+    streamNarration: 'Erzählung schon während der Erzeugung anzeigen',
+    prefetchNarration: 'Nächste Erzählung vorbereiten, bevor man dort ankommt',
+    giveUpAfter: 'Aufgeben nach',
+    secondsWithoutReply: 'Sekunden ohne Antwort',
+    retryFailedRequests: 'Fehlgeschlagene Anfragen wiederholen',
+    times: 'Mal',
+    mockNarratorHint: 'Vorgefertigte Erzählungen, lokal erzeugt, ohne Server.',
+    tellAboutPlaces: 'Dem Erzähler Orte in der Nähe nennen',
+    placesSource: 'Quelle für Orte',
+    apiUrl: service => `${service}-API-URL`,
+    within: 'Im Umkreis von',
+    metersUpTo: 'Metern, bis zu',
+    placesPerNarration: 'Orte pro Erzählung',
+    placesLoaded: (loaded, mentioned) => `${loaded} Orte geladen, ${mentioned} bisher erwähnt`,
+    narrate: 'Erzählen:',
+    every: 'Alle',
+    seconds: 'Sekunden',
+    meters: 'Meter',
+    narrationIntervalSeconds: 'Erzählabstand in Sekunden',
+    narrationDistanceMeters: 'Erzählabstand in Metern',
+    beforeTurnsFrom: 'Vor Abbiegungen, ab',
+    metersAhead: 'Metern davor',
+    turnAnnouncementDistance: 'Ansageabstand vor Abbiegungen in Metern',
+    atStartAndEnd: 'Am Anfang und Ende der Route',
+    atMostOnceEvery: 'Höchstens einmal alle',
+    prefetchSummary: ({ ready, pending, used, discarded }) => `${ready} bereit, ${pending} ausstehend · ${used} verwendet, ${discarded} verworfen`,
+    mentioned: 'erwähnt',
+    gpsPosition: 'GPS-Position',
+    replayPosition: 'Wiedergabeposition',
+    currentPosition: 'Aktuelle Position',
+    exportTitle: 'Export',
+    plannedRoute: 'Geplante Route:',
+    walkedTrack: points => `Gegangene Strecke (${points} Punkte):`,
+    routeCoordinates: points => `Routenkoordinaten (${points} Punkte)`,
+    noCoordinates: 'Keine Koordinaten geladen. Bitte gib eine Routen-URL ein.',
+    narratorRequests: count => `Anfragen an den Erzähler (${count})`,
+    noNarratorRequests: 'Noch keine Anfragen gesendet. Jeder Aufruf des Erzählers erscheint hier genau so, wie er gesendet wurde.',
+    voice: 'Stimme',
+    speechRate: rate => `Tempo ${rate}x`,
+    speechVolume: percent => `Lautstärke ${percent} %`,
+    speaking: 'Wird gesprochen',
+    queued: 'In der Warteschlange',
+    replay: 'Wiederholen',
+    skip: 'Überspringen',
+    enterRouteFirst: 'Bitte gib zuerst eine Routen-URL ein',
+    narrationRetrying: (error, attempt, maxRetries, seconds) => `${error}. Neuer Versuch (${attempt} von ${maxRetries}) in ${seconds} s...`,
+    narrationFailed: error => `Erzählung fehlgeschlagen: ${error}`,
+    simulationSpeed: 'Simulationsgeschwindigkeit',
+    stepMode: 'Schrittweiser Debug-Modus',
+    simulationSpeedHint: 'Erzählungen laufen in Echtzeit, eine schnellere Simulation legt also mehr Strecke zwischen ihnen zurück.',
+    seekHint: 'Klicke auf die Route oder eine Koordinate, um den Spaziergänger dorthin zu versetzen.',
+    step: 'Schritt',
+    nextSegment: 'Nächster Abschnitt',
+    stepPosition: (walked, segment, segments) => `${walked} · Abschnitt ${segment} von ${segments}`,
+    walkStartsAt: distance => `Der Spaziergang beginnt nach ${distance} auf der Route.`,
+    startFromBeginning: 'Am Anfang beginnen',
+    moveWalkerHere: 'Spaziergänger hierher versetzen',
+    directionsSteps: count => `Wegbeschreibung (${count} Schritte)`,
+    inDistance: distance => `in ${distance}`,
+    noRouteLoaded: 'Keine Route geladen.',
+    instructions: {
+      directions: { N: 'N', NE: 'NO', E: 'O', SE: 'SO', S: 'S', SW: 'SW', W: 'W', NW: 'NW' },
+      modifiers: {
+        left: 'links',
+        right: 'rechts',
+        'slight left': 'leicht links',
+        'slight right': 'leicht rechts',
+        'sharp left': 'scharf links',
+        'sharp right': 'scharf rechts',
+        straight: 'geradeaus',
+        uturn: 'wenden'
+      },
+      depart: (direction, name) => `${direction ? `Richtung ${direction} losgehen` : 'Losgehen'}${name ? ` auf ${name}` : ''}`,
+      arrive: 'Ziel erreicht',
+      roundaboutExit: (exit, name) => `Im Kreisverkehr die ${exit}. Ausfahrt nehmen${name ? ` auf ${name}` : ''}`,
+      roundabout: name => `In den Kreisverkehr einfahren${name ? ` auf ${name}` : ''}`,
+      continue: (modifier, name) => `Weiter ${modifier}${name ? ` auf ${name}` : ''}`,
+      fork: (modifier, name) => `An der Gabelung ${modifier} halten${name ? ` auf ${name}` : ''}`,
+      uturn: name => `Wenden${name ? ` auf ${name}` : ''}`,
+      turn: (modifier, name) => `${modifier.charAt(0).toUpperCase()}${modifier.slice(1)} abbiegen${name ? ` auf ${name}` : ''}`
+    },
+    play: 'Abspielen',
+    closeReplay: 'Wiedergabe schließen',
+    playbackSpeed: 'Wiedergabegeschwindigkeit',
+    narrationReasons: { start: 'Start', arrival: 'Ankunft', time: 'Zeit', distance: 'Strecke', maneuver: 'Abbiegen', 'off-route': 'Abseits der Route', question: 'Frage' },
+    narrationAt: (reason, distance) => `${reason}: Erzählung bei ${distance}`,
+    replayTickDetails: (walked, segment, pace, state) => `${walked} gelaufen · Abschnitt ${segment} · ${pace} km/h · ${state}`,
+    narrationTextUnavailable: 'Text der Erzählung nicht verfügbar',
+    dismissAll: 'Alle ausblenden',
+    routeLibrary: 'Routenbibliothek',
+    routeNamePlaceholder: 'Name für die aktuelle Route',
+    saveCurrentRoute: 'Aktuelle Route speichern',
+    searchSavedRoutes: 'Gespeicherte Routen durchsuchen',
+    noSavedRoutes: 'Noch keine gespeicherten Routen.',
+    noRoutesMatch: 'Keine Route passt zu deiner Suche.',
+    loadThisRoute: 'Diese Route laden',
+    save: 'Speichern',
+    cancel: 'Abbrechen',
+    rename: 'Umbenennen',
+    duplicate: 'Duplizieren',
+    delete: 'Löschen',
+    narrationCount: count => `${count} Erzählungen`,
+    defaultRouteName: date => `Route ${date}`,
+    confirmDeleteRoute: name => `„${name}“ aus der Routenbibliothek löschen?`,
+    routeLibraryUnavailable: 'Die Routenbibliothek lässt sich in diesem Browser nicht öffnen.',
+    couldNotSaveRoute: 'Die Route konnte nicht gespeichert werden.',
+    couldNotRenameRoute: 'Die Route konnte nicht umbenannt werden.',
+    couldNotDeleteRoute: 'Die Route konnte nicht gelöscht werden.',
+    couldNotDuplicateRoute: 'Die Route konnte nicht dupliziert werden.',
+    routeSourceBRouter: 'BRouter-URL',
+    routeSourceMap: 'Auswahl auf der Karte',
+    routeSourceFile: fileName => `Datei: ${fileName}`,
+    walkHistory: 'Bisherige Spaziergänge',
+    walkHistoryUnavailable: 'Die bisherigen Spaziergänge lassen sich in diesem Browser nicht öffnen.',
+    confirmDeleteWalk: (routeName, startedAt) => `Den Spaziergang auf „${routeName}“ vom ${startedAt} löschen?`,
+    couldNotDeleteWalk: 'Der Spaziergang konnte nicht gelöscht werden.',
+    noWalksYet: 'Noch keine Spaziergänge.',
+    currentWalk: 'Aktueller Spaziergang',
+    walkSessionStatuses: { walking: 'Unterbrochen', paused: 'Pausiert', ended: 'Beendet' },
+    walkedWithNarrations: (walked, count) => `${walked} gelaufen · ${count} Erzählungen`,
+    transcript: 'Mitschrift',
+    hideTranscript: 'Mitschrift ausblenden',
+    resume: 'Fortsetzen',
+    listenerPreferences: 'Hörervorlieben',
+    interests: 'Interessen:',
+    interestTopics: { history: 'Geschichte', architecture: 'Architektur', food: 'Essen', art: 'Kunst', music: 'Musik', nature: 'Natur', shopping: 'Einkaufen', 'local tips': 'Geheimtipps' },
+    persona: 'Rolle:',
+    personas: { 'local-guide': 'Ortskundiger Guide', historian: 'Historiker', foodie: 'Feinschmecker', storyteller: 'Geschichtenerzähler', 'radio-host': 'Radiomoderator' },
+    tone: 'Ton:',
+    formalities: { casual: 'Locker', neutral: 'Neutral', formal: 'Förmlich' },
+    maxWords: 'Max. Wörter:',
+    familyFriendly: 'Familienfreundlich',
+    elevationProfile: 'Höhenprofil',
+    paceModels: { constant: 'Gleichmäßiges Tempo', tobler: 'An die Steigung angepasst (Tobler)' },
+    narratorHealthStates: { unknown: 'Noch nicht kontaktiert', healthy: 'Verbunden', degraded: 'Langsam oder erneuter Versuch', down: 'Nicht erreichbar' },
+    narrateEverySeconds: seconds => `alle ${seconds} s`,
+    narrateEveryMeters: meters => `alle ${meters} m`,
+    narrateBeforeTurns: 'vor dem Abbiegen',
+    narrateAtStartAndEnd: 'am Start und Ziel',
+    narrationOff: 'Aus',
+    triggerStart: 'Start der Route',
+    triggerArrival: remaining => `Fast da, noch ${remaining} m`,
+    triggerTime: seconds => `${seconds} Sekunden seit der letzten Erzählung`,
+    triggerDistance: meters => `${meters} m gelaufen seit der letzten Erzählung`,
+    triggerManeuver: (instruction, distanceAhead) => `${instruction} in ${distanceAhead} m`,
+    triggerOffRoute: meters => `${meters} m abseits der Route`,
+    triggerQuestion: 'Frage des Hörers beantwortet',
+    unsavedRoute: 'Nicht gespeicherte Route'
+  },
+  fr: {
+    appTitle: 'WalkRadio - Compagnon de marche IA',
+    language: 'Langue',
+    pasteBRouterUrl: 'Coller une URL BRouter',
+    selectOnMap: 'Choisir sur la carte',
+    loadRouteFile: 'Charger un fichier d’itinéraire',
+    brouterUrlLabel: 'URL de l’itinéraire BRouter :',
+    brouterHelp: 'Créez votre itinéraire sur',
+    brouterSteps: '1. Ouvrez la carte BRouter 2. Tracez votre itinéraire 3. Copiez l’URL 4. Collez-la ici',
+    walkingPace: 'Allure de marche (km/h) :',
+    startWalking: 'Commencer la marche',
+    pause: 'Pause',
+    continue: 'Reprendre',
+    stop: 'Arrêter',
+    replayWalk: 'Revoir la marche',
+    walkingStatus: 'État de la marche',
+    walkingStates: { stopped: 'Arrêté', walking: 'En marche', paused: 'En pause' },
+    statusState: 'État :',
+    statusCurrentPace: 'Allure actuelle :',
+    statusCoordinateUpdates: 'Mises à jour de position :',
+    everySecond: 'Chaque seconde',
+    statusAiUpdates: 'Mises à jour IA :',
+    statusNarrator: 'Narrateur :',
+    statusPrefetched: 'Préchargées :',
+    statusLastNarration: 'Dernière narration :',
+    statusNextTimedCall: 'Prochain appel programmé :',
+    statusActualPace: 'Allure réelle :',
+    measuring: 'Mesure en cours...',
+    statusDistanceFromRoute: 'Distance à l’itinéraire :',
+    offRoute: '(hors itinéraire)',
+    statusGpsAccuracy: 'Précision GPS :',
+    statusCurrentPosition: 'Position actuelle :',
+    routeMap: 'Carte de l’itinéraire',
+    aiResponses: 'Réponses de l’IA',
+    noResponses: narrator => `Aucune réponse de l’IA pour l’instant. Commencez à marcher pour écouter le narrateur ${narrator}.`,
+    speakNarrations: 'Lire les narrations à voix haute',
+    defaultVoice: 'Voix par défaut',
+    askPlaceholderStopped: 'Commencez à marcher pour poser une question au guide',
+    askPlaceholder: 'Posez une question au guide, par ex. « Quel est ce bâtiment ? »',
+    ask: 'Demander',
+    youAsked: 'Votre question :',
+    walkStatistics: 'Statistiques de la marche',
+    statsWalked: 'Parcouru :',
+    distanceOf: (walked, total) => `${walked} sur ${total}`,
+    statsRemaining: 'Restant :',
+    statsElapsedTime: 'Temps écoulé :',
+    statsMovingTime: 'Temps en mouvement :',
+    statsEta: 'Arrivée dans :',
+    statsAveragePace: 'Allure moyenne :',
+    statsNarrations: 'Narrations :',
+    answeredQuestions: count => `+ ${count} questions répondues`,
+    walkComplete: 'Marche terminée',
+    walkEnded: 'Marche interrompue',
+    yourRoute: 'Votre itinéraire',
+    summaryWalked: 'parcourus',
+    summaryOfTotal: (total, percent) => `sur ${total} (${percent} %)`,
+    summaryTotalTime: 'durée totale',
+    summaryMoving: 'en mouvement',
+    summaryAveragePace: 'allure moyenne',
+    summaryNarrations: 'narrations',
+    summaryQuestionsAnswered: 'questions répondues',
+    close: 'Fermer',
+    resumeWalkOn: 'Votre marche sur',
+    resumeUnfinished: (walked, duration) => `n’a pas été terminée (${walked} parcourus en ${duration}).`,
+    resumeWalk: 'Reprendre la marche',
+    dismiss: 'Ignorer',
+    routeFileLabel: 'Fichier d’itinéraire (GPX, KML ou GeoJSON) :',
+    routeFileHelp: 'Chargez un itinéraire exporté depuis un autre outil',
+    routeFileFormats: 'Les traces et itinéraires GPX ainsi que les LineStrings KML et GeoJSON sont pris en charge',
+    routeFileLoaded: (fileName, points) => `${fileName} chargé (${points} points). Vous pouvez commencer à marcher.`,
+    buildYourRoute: 'Construisez votre itinéraire',
+    mapStepAdd: 'Cliquez sur la carte pour ajouter une étape',
+    mapStepMove: 'Faites glisser un marqueur pour le déplacer, cliquez dessus pour le supprimer',
+    mapStepInsert: 'Faites glisser la ligne de l’itinéraire pour insérer une étape',
+    startPoint: 'Point de départ',
+    endPoint: 'Point d’arrivée',
+    viaPoint: index => `Étape ${index}`,
+    undo: 'Annuler',
+    redo: 'Rétablir',
+    clear: 'Effacer',
+    stopToEditRoute: 'Arrêtez la marche pour modifier l’itinéraire.',
+    routeReady: 'Itinéraire prêt ! Vous pouvez commencer à marcher.',
+    routingProvider: 'Service d’itinéraire :',
+    baseUrl: service => `URL de base ${service}`,
+    routingProfile: service => `Profil ${service}`,
+    rerouteWith: provider => `Recalculer avec ${provider}`,
+    fallbackRouteInUse: (legs, count) => `Itinéraire de secours utilisé : ligne droite pour ${count > 1 ? 'les tronçons' : 'le tronçon'} ${legs}`,
+    walkingMode: 'Mode de marche :',
+    simulated: 'Simulée',
+    liveGps: 'GPS en direct',
+    offRouteThreshold: 'Seuil hors itinéraire (m) :',
+    replayTraceLabel: 'Rejouer plutôt une trace GPS enregistrée (GPX ou GeoJSON) :',
+    traceFixes: (fileName, count) => `${fileName} (${count} positions)`,
+    replaySpeed: 'Vitesse de lecture',
+    useDeviceGps: 'Utiliser le GPS de l’appareil',
+    paceModel: 'Modèle d’allure',
+    noElevationForPace: 'Cet itinéraire n’a pas encore de données d’altitude, l’allure reste donc constante.',
+    elevation: 'Altitude :',
+    elevationNoRoute: 'Chargez un itinéraire pour voir son altitude.',
+    elevationAvailable: 'Données d’altitude disponibles pour tout l’itinéraire.',
+    elevationMissing: 'Certains points n’ont pas d’altitude. Les itinéraires BRouter et les fichiers GPX avec <ele> l’incluent ; sinon, recherchez-la.',
+    elevationServiceUrl: 'URL du service d’altitude',
+    lookingUp: 'Recherche...',
+    lookUpElevation: 'Rechercher l’altitude',
+    narrator: 'Narrateur :',
+    flowId: 'ID du flow',
+    apiKey: 'Clé d’API',
+    apiKeyOptional: 'Clé d’API (facultative)',
+    agentComponentId: 'ID du composant agent pour ajuster le prompt (facultatif)',
+    chatCompletionsBaseUrl: 'URL de base des chat completions',
+    model: 'Modèle',
+    streamNarration: 'Afficher la narration au fil de sa génération',
+    prefetchNarration: 'Préparer la narration suivante avant d’arriver sur place',
+    giveUpAfter: 'Abandonner après',
+    secondsWithoutReply: 'secondes sans réponse',
+    retryFailedRequests: 'Réessayer les requêtes échouées',
+    times: 'fois',
+    mockNarratorHint: 'Narrations toutes prêtes générées localement, sans serveur.',
+    tellAboutPlaces: 'Signaler au narrateur les lieux à proximité',
+    placesSource: 'Source des lieux',
+    apiUrl: service => `URL de l’API ${service}`,
+    within: 'Dans un rayon de',
+    metersUpTo: 'mètres, jusqu’à',
+    placesPerNarration: 'lieux par narration',
+    placesLoaded: (loaded, mentioned) => `${loaded} lieux chargés, ${mentioned} mentionnés jusqu’ici`,
+    narrate: 'Narrer :',
+    every: 'Toutes les',
+    seconds: 'secondes',
+    meters: 'mètres',
+    narrationIntervalSeconds: 'Intervalle de narration en secondes',
+    narrationDistanceMeters: 'Distance entre narrations en mètres',
+    beforeTurnsFrom: 'Avant les virages, à partir de',
+    metersAhead: 'mètres avant',
+    turnAnnouncementDistance: 'Distance d’annonce des virages en mètres',
+    atStartAndEnd: 'Au départ et à l’arrivée',
+    atMostOnceEvery: 'Au plus une fois toutes les',
+    prefetchSummary: ({ ready, pending, used, discarded }) => `${ready} prêtes, ${pending} en attente · ${used} utilisées, ${discarded} abandonnées`,
+    mentioned: 'mentionné',
+    gpsPosition: 'Position GPS',
+    replayPosition: 'Position rejouée',
+    currentPosition: 'Position actuelle',
+    exportTitle: 'Exporter',
+    plannedRoute: 'Itinéraire prévu :',
+    walkedTrack: points => `Trace parcourue (${points} points) :`,
+    routeCoordinates: points => `Coordonnées de l’itinéraire (${points} points)`,
+    noCoordinates: 'Aucune coordonnée chargée. Saisissez l’URL d’un itinéraire.',
+    narratorRequests: count => `Requêtes au narrateur (${count})`,
+    noNarratorRequests: 'Aucune requête envoyée pour l’instant. Chaque appel au narrateur apparaît ici tel qu’il a été envoyé.',
+    voice: 'Voix',
+    speechRate: rate => `Débit ${rate}x`,
+    speechVolume: percent => `Volume ${percent} %`,
+    speaking: 'Lecture',
+    queued: 'En attente',
+    replay: 'Réécouter',
+    skip: 'Passer',
+    enterRouteFirst: 'Saisissez d’abord l’URL d’un itinéraire',
+    narrationRetrying: (error, attempt, maxRetries, seconds) => `${error}. Nouvelle tentative (${attempt} sur ${maxRetries}) dans ${seconds} s...`,
+    narrationFailed: error => `La narration a échoué : ${error}`,
+    simulationSpeed: 'Vitesse de simulation',
+    stepMode: 'Mode débogage pas à pas',
+    simulationSpeedHint: 'Les narrations suivent le temps réel : une simulation plus rapide parcourt donc plus de chemin entre elles.',
+    seekHint: 'Cliquez sur l’itinéraire ou sur une coordonnée pour y déplacer le marcheur.',
+    step: 'Pas',
+    nextSegment: 'Tronçon suivant',
+    stepPosition: (walked, segment, segments) => `${walked} · tronçon ${segment} sur ${segments}`,
+    walkStartsAt: distance => `La marche commencera à ${distance} du départ.`,
+    startFromBeginning: 'Partir du début',
+    moveWalkerHere: 'Déplacer le marcheur ici',
+    directionsSteps: count => `Itinéraire détaillé (${count} étapes)`,
+    inDistance: distance => `dans ${distance}`,
+    noRouteLoaded: 'Aucun itinéraire chargé.',
+    instructions: {
+      directions: { N: 'N', NE: 'NE', E: 'E', SE: 'SE', S: 'S', SW: 'SO', W: 'O', NW: 'NO' },
+      modifiers: {
+        left: 'à gauche',
+        right: 'à droite',
+        'slight left': 'légèrement à gauche',
+        'slight right': 'légèrement à droite',
+        'sharp left': 'franchement à gauche',
+        'sharp right': 'franchement à droite',
+        straight: 'tout droit',
+        uturn: 'demi-tour'
+      },
+      depart: (direction, name) => `Partez${direction ? ` vers ${direction}` : ''}${name ? ` sur ${name}` : ''}`,
+      arrive: 'Vous êtes arrivé à destination',
+      roundaboutExit: (exit, name) => `Au rond-point, prenez la sortie ${exit}${name ? ` vers ${name}` : ''}`,
+      roundabout: name => `Entrez dans le rond-point${name ? ` vers ${name}` : ''}`,
+      continue: (modifier, name) => `Continuez ${modifier}${name ? ` sur ${name}` : ''}`,
+      fork: (modifier, name) => `À l’embranchement, restez ${modifier}${name ? ` sur ${name}` : ''}`,
+      uturn: name => `Faites demi-tour${name ? ` sur ${name}` : ''}`,
+      turn: (modifier, name) => `Tournez ${modifier}${name ? ` sur ${name}` : ''}`
+    },
+    play: 'Lecture',
+    closeReplay: 'Fermer la relecture',
+    playbackSpeed: 'Vitesse de lecture',
+    narrationReasons: { start: 'Départ', arrival: 'Arrivée', time: 'Minuterie', distance: 'Distance', maneuver: 'Virage', 'off-route': 'Hors itinéraire', question: 'Question' },
+    narrationAt: (reason, distance) => `${reason} : narration à ${distance}`,
+    replayTickDetails: (walked, segment, pace, state) => `${walked} parcourus · segment ${segment} · ${pace} km/h · ${state}`,
+    narrationTextUnavailable: 'Texte de la narration indisponible',
+    dismissAll: 'Tout ignorer',
+    routeLibrary: 'Bibliothèque d’itinéraires',
+    routeNamePlaceholder: 'Nom de l’itinéraire actuel',
+    saveCurrentRoute: 'Enregistrer l’itinéraire actuel',
+    searchSavedRoutes: 'Rechercher dans les itinéraires enregistrés',
+    noSavedRoutes: 'Aucun itinéraire enregistré pour l’instant.',
+    noRoutesMatch: 'Aucun itinéraire ne correspond à votre recherche.',
+    loadThisRoute: 'Charger cet itinéraire',
+    save: 'Enregistrer',
+    cancel: 'Annuler',
+    rename: 'Renommer',
+    duplicate: 'Dupliquer',
+    delete: 'Supprimer',
+    narrationCount: count => `${count} narrations`,
+    defaultRouteName: date => `Itinéraire ${date}`,
+    confirmDeleteRoute: name => `Supprimer « ${name} » de la bibliothèque d’itinéraires ?`,
+    routeLibraryUnavailable: 'Impossible d’ouvrir la bibliothèque d’itinéraires dans ce navigateur.',
+    couldNotSaveRoute: 'Impossible d’enregistrer l’itinéraire.',
+    couldNotRenameRoute: 'Impossible de renommer l’itinéraire.',
+    couldNotDeleteRoute: 'Impossible de supprimer l’itinéraire.',
+    couldNotDuplicateRoute: 'Impossible de dupliquer l’itinéraire.',
+    routeSourceBRouter: 'URL BRouter',
+    routeSourceMap: 'Sélection sur la carte',
+    routeSourceFile: fileName => `Fichier : ${fileName}`,
+    walkHistory: 'Historique des marches',
+    walkHistoryUnavailable: 'Impossible d’ouvrir l’historique des marches dans ce navigateur.',
+    confirmDeleteWalk: (routeName, startedAt) => `Supprimer la marche sur « ${routeName} » du ${startedAt} ?`,
+    couldNotDeleteWalk: 'Impossible de supprimer la marche.',
+    noWalksYet: 'Aucune marche pour l’instant.',
+    currentWalk: 'Marche en cours',
+    walkSessionStatuses: { walking: 'Interrompue', paused: 'En pause', ended: 'Terminée' },
+    walkedWithNarrations: (walked, count) => `${walked} parcourus · ${count} narrations`,
+    transcript: 'Transcription',
+    hideTranscript: 'Masquer la transcription',
+    resume: 'Reprendre',
+    listenerPreferences: 'Préférences d’écoute',
+    interests: 'Centres d’intérêt :',
+    interestTopics: { history: 'histoire', architecture: 'architecture', food: 'gastronomie', art: 'art', music: 'musique', nature: 'nature', shopping: 'shopping', 'local tips': 'bons plans' },
+    persona: 'Personnage :',
+    personas: { 'local-guide': 'Guide local', historian: 'Historien', foodie: 'Gourmet', storyteller: 'Conteur', 'radio-host': 'Animateur radio' },
+    tone: 'Ton :',
+    formalities: { casual: 'Décontracté', neutral: 'Neutre', formal: 'Soutenu' },
+    maxWords: 'Mots max. :',
+    familyFriendly: 'Adapté aux enfants',
+    elevationProfile: 'Profil altimétrique',
+    paceModels: { constant: 'Allure constante', tobler: 'Ajustée à la pente (Tobler)' },
+    narratorHealthStates: { unknown: 'Pas encore contacté', healthy: 'Connecté', degraded: 'Lent ou nouvelle tentative', down: 'Injoignable' },
+    narrateEverySeconds: seconds => `toutes les ${seconds} s`,
+    narrateEveryMeters: meters => `tous les ${meters} m`,
+    narrateBeforeTurns: 'avant les virages',
+    narrateAtStartAndEnd: 'au départ et à l’arrivée',
+    narrationOff: 'Désactivé',
+    triggerStart: 'Départ de l’itinéraire',
+    triggerArrival: remaining => `Arrivée proche, encore ${remaining} m`,
+    triggerTime: seconds => `${seconds} secondes depuis la dernière narration`,
+    triggerDistance: meters => `${meters} m parcourus depuis la dernière narration`,
+    triggerManeuver: (instruction, distanceAhead) => `${instruction} dans ${distanceAhead} m`,
+    triggerOffRoute: meters => `${meters} m hors de l’itinéraire`,
+    triggerQuestion: 'Réponse à une question de l’auditeur',
+    unsavedRoute: 'Itinéraire non enregistré'
+  },
+  es: {
+    appTitle: 'WalkRadio - Compañero de paseo con IA',
+    language: 'Idioma',
+    pasteBRouterUrl: 'Pegar URL de BRouter',
+    selectOnMap: 'Elegir en el mapa',
+    loadRouteFile: 'Cargar archivo de ruta',
+    brouterUrlLabel: 'URL de la ruta de BRouter:',
+    brouterHelp: 'Crea tu ruta en',
+    brouterSteps: '1. Abre el mapa de BRouter 2. Dibuja tu ruta 3. Copia la URL 4. Pégala aquí',
+    walkingPace: 'Ritmo de marcha (km/h):',
+    startWalking: 'Empezar a caminar',
+    pause: 'Pausa',
+    continue: 'Continuar',
+    stop: 'Detener',
+    replayWalk: 'Reproducir paseo',
+    walkingStatus: 'Estado del paseo',
+    walkingStates: { stopped: 'Detenido', walking: 'Caminando', paused: 'En pausa' },
+    statusState: 'Estado:',
+    statusCurrentPace: 'Ritmo actual:',
+    statusCoordinateUpdates: 'Actualizaciones de posición:',
+    everySecond: 'Cada segundo',
+    statusAiUpdates: 'Actualizaciones de IA:',
+    statusNarrator: 'Narrador:',
+    statusPrefetched: 'Precargadas:',
+    statusLastNarration: 'Última narración:',
+    statusNextTimedCall: 'Próxima llamada programada:',
+    statusActualPace: 'Ritmo real:',
+    measuring: 'Midiendo...',
+    statusDistanceFromRoute: 'Distancia a la ruta:',
+    offRoute: '(fuera de la ruta)',
+    statusGpsAccuracy: 'Precisión GPS:',
+    statusCurrentPosition: 'Posición actual:',
+    routeMap: 'Mapa de la ruta',
+    aiResponses: 'Respuestas de la IA',
+    noResponses: narrator => `Todavía no hay respuestas de la IA. Empieza a caminar para escuchar al narrador ${narrator}.`,
+    speakNarrations: 'Leer las narraciones en voz alta',
+    defaultVoice: 'Voz predeterminada',
+    askPlaceholderStopped: 'Empieza a caminar para hacerle una pregunta al guía',
+    askPlaceholder: 'Pregunta al guía, p. ej. «¿Qué es ese edificio?»',
+    ask: 'Preguntar',
+    youAsked: 'Preguntaste:',
+    walkStatistics: 'Estadísticas del paseo',
+    statsWalked: 'Recorrido:',
+    distanceOf: (walked, total) => `${walked} de ${total}`,
+    statsRemaining: 'Restante:',
+    statsElapsedTime: 'Tiempo transcurrido:',
+    statsMovingTime: 'Tiempo en movimiento:',
+    statsEta: 'Llegada en:',
+    statsAveragePace: 'Ritmo medio:',
+    statsNarrations: 'Narraciones:',
+    answeredQuestions: count => `+ ${count} preguntas respondidas`,
+    walkComplete: 'Paseo completado',
+    walkEnded: 'Paseo interrumpido',
+    yourRoute: 'Tu ruta',
+    summaryWalked: 'recorridos',
+    summaryOfTotal: (total, percent) => `de ${total} (${percent} %)`,
+    summaryTotalTime: 'tiempo total',
+    summaryMoving: 'en movimiento',
+    summaryAveragePace: 'ritmo medio',
+    summaryNarrations: 'narraciones',
+    summaryQuestionsAnswered: 'preguntas respondidas',
+    close: 'Cerrar',
+    resumeWalkOn: 'Tu paseo por',
+    resumeUnfinished: (walked, duration) => `quedó sin terminar (${walked} recorridos en ${duration}).`,
+    resumeWalk: 'Reanudar el paseo',
+    dismiss: 'Descartar',
+    routeFileLabel: 'Archivo de ruta (GPX, KML o GeoJSON):',
+    routeFileHelp: 'Carga una ruta exportada desde otra herramienta',
+    routeFileFormats: 'Se admiten tracks y rutas GPX y LineStrings de KML y GeoJSON',
+    routeFileLoaded: (fileName, points) => `${fileName} cargado (${points} puntos). Ya puedes empezar a caminar.`,
+    buildYourRoute: 'Crea tu ruta',
+    mapStepAdd: 'Haz clic en el mapa para añadir un punto de paso',
+    mapStepMove: 'Arrastra un marcador para moverlo y haz clic en él para borrarlo',
+    mapStepInsert: 'Arrastra la línea de la ruta para insertar un punto intermedio',
+    startPoint: 'Punto de inicio',
+    endPoint: 'Punto final',
+    viaPoint: index => `Punto intermedio ${index}`,
+    undo: 'Deshacer',
+    redo: 'Rehacer',
+    clear: 'Borrar',
+    stopToEditRoute: 'Detén el paseo para editar la ruta.',
+    routeReady: '¡Ruta lista! Ya puedes empezar a caminar.',
+    routingProvider: 'Servicio de rutas:',
+    baseUrl: service => `URL base de ${service}`,
+    routingProfile: service => `Perfil de ${service}`,
+    rerouteWith: provider => `Recalcular con ${provider}`,
+    fallbackRouteInUse: (legs, count) => `Ruta alternativa en uso: línea recta para ${count > 1 ? 'los tramos' : 'el tramo'} ${legs}`,
+    walkingMode: 'Modo de paseo:',
+    simulated: 'Simulado',
+    liveGps: 'GPS en vivo',
+    offRouteThreshold: 'Umbral fuera de ruta (m):',
+    replayTraceLabel: 'Reproducir en su lugar un track GPS grabado (GPX o GeoJSON):',
+    traceFixes: (fileName, count) => `${fileName} (${count} posiciones)`,
+    replaySpeed: 'Velocidad de reproducción',
+    useDeviceGps: 'Usar el GPS del dispositivo',
+    paceModel: 'Modelo de ritmo',
+    noElevationForPace: 'Esta ruta aún no tiene datos de altitud, así que el ritmo se mantiene constante.',
+    elevation: 'Altitud:',
+    elevationNoRoute: 'Carga una ruta para ver su altitud.',
+    elevationAvailable: 'Hay datos de altitud para toda la ruta.',
+    elevationMissing: 'Algunos puntos no tienen altitud. Las rutas de BRouter y los archivos GPX con <ele> la incluyen; si no, búscala.',
+    elevationServiceUrl: 'URL del servicio de altitud',
+    lookingUp: 'Buscando...',
+    lookUpElevation: 'Buscar la altitud',
+    narrator: 'Narrador:',
+    flowId: 'ID del flujo',
+    apiKey: 'Clave de API',
+    apiKeyOptional: 'Clave de API (opcional)',
+    agentComponentId: 'ID del componente agente para ajustes del prompt (opcional)',
+    chatCompletionsBaseUrl: 'URL base de chat completions',
+    model: 'Modelo',
+    streamNarration: 'Mostrar la narración mientras se genera',
+    prefetchNarration: 'Preparar la siguiente narración antes de llegar allí',
+    giveUpAfter: 'Abandonar tras',
+    secondsWithoutReply: 'segundos sin respuesta',
+    retryFailedRequests: 'Reintentar las peticiones fallidas',
+    times: 'veces',
+    mockNarratorHint: 'Narraciones predefinidas generadas localmente, sin servidor.',
+    tellAboutPlaces: 'Informar al narrador de los lugares cercanos',
+    placesSource: 'Fuente de lugares',
+    apiUrl: service => `URL de la API de ${service}`,
+    within: 'En un radio de',
+    metersUpTo: 'metros, hasta',
+    placesPerNarration: 'lugares por narración',
+    placesLoaded: (loaded, mentioned) => `${loaded} lugares cargados, ${mentioned} mencionados hasta ahora`,
+    narrate: 'Narrar:',
+    every: 'Cada',
+    seconds: 'segundos',
+    meters: 'metros',
+    narrationIntervalSeconds: 'Intervalo de narración en segundos',
+    narrationDistanceMeters: 'Distancia entre narraciones en metros',
+    beforeTurnsFrom: 'Antes de los giros, desde',
+    metersAhead: 'metros antes',
+    turnAnnouncementDistance: 'Distancia de aviso de giros en metros',
+    atStartAndEnd: 'Al principio y al final de la ruta',
+    atMostOnceEvery: 'Como máximo una vez cada',
+    prefetchSummary: ({ ready, pending, used, discarded }) => `${ready} listas, ${pending} pendientes · ${used} usadas, ${discarded} descartadas`,
+    mentioned: 'mencionado',
+    gpsPosition: 'Posición GPS',
+    replayPosition: 'Posición de la reproducción',
+    currentPosition: 'Posición actual',
+    exportTitle: 'Exportar',
+    plannedRoute: 'Ruta planificada:',
+    walkedTrack: points => `Recorrido realizado (${points} puntos):`,
+    routeCoordinates: points => `Coordenadas de la ruta (${points} puntos)`,
+    noCoordinates: 'No hay coordenadas cargadas. Introduce la URL de una ruta.',
+    narratorRequests: count => `Peticiones al narrador (${count})`,
+    noNarratorRequests: 'Todavía no se ha enviado ninguna petición. Cada llamada al narrador aparece aquí tal como se envió.',
+    voice: 'Voz',
+    speechRate: rate => `Velocidad ${rate}x`,
+    speechVolume: percent => `Volumen ${percent} %`,
+    speaking: 'Hablando',
+    queued: 'En cola',
+    replay: 'Repetir',
+    skip: 'Saltar',
+    enterRouteFirst: 'Introduce primero la URL de una ruta',
+    narrationRetrying: (error, attempt, maxRetries, seconds) => `${error}. Reintentando (${attempt} de ${maxRetries}) en ${seconds} s...`,
+    narrationFailed: error => `La narración falló: ${error}`,
+    simulationSpeed: 'Velocidad de simulación',
+    stepMode: 'Modo de depuración paso a paso',
+    simulationSpeedHint: 'Las narraciones siguen el tiempo real, así que una simulación más rápida recorre más distancia entre ellas.',
+    seekHint: 'Haz clic en la ruta o en una coordenada para llevar allí al caminante.',
+    step: 'Paso',
+    nextSegment: 'Siguiente tramo',
+    stepPosition: (walked, segment, segments) => `${walked} · tramo ${segment} de ${segments}`,
+    walkStartsAt: distance => `El paseo empezará a ${distance} del inicio de la ruta.`,
+    startFromBeginning: 'Empezar desde el principio',
+    moveWalkerHere: 'Llevar al caminante aquí',
+    directionsSteps: count => `Indicaciones (${count} pasos)`,
+    inDistance: distance => `en ${distance}`,
+    noRouteLoaded: 'No hay ninguna ruta cargada.',
+    instructions: {
+      directions: { N: 'N', NE: 'NE', E: 'E', SE: 'SE', S: 'S', SW: 'SO', W: 'O', NW: 'NO' },
+      modifiers: {
+        left: 'a la izquierda',
+        right: 'a la derecha',
+        'slight left': 'ligeramente a la izquierda',
+        'slight right': 'ligeramente a la derecha',
+        'sharp left': 'bruscamente a la izquierda',
+        'sharp right': 'bruscamente a la derecha',
+        straight: 'recto',
+        uturn: 'cambio de sentido'
+      },
+      depart: (direction, name) => `Sal${direction ? ` hacia el ${direction}` : ''}${name ? ` por ${name}` : ''}`,
+      arrive: 'Has llegado a tu destino',
+      roundaboutExit: (exit, name) => `En la rotonda, toma la salida ${exit}${name ? ` hacia ${name}` : ''}`,
+      roundabout: name => `Entra en la rotonda${name ? ` hacia ${name}` : ''}`,
+      continue: (modifier, name) => `Sigue ${modifier}${name ? ` por ${name}` : ''}`,
+      fork: (modifier, name) => `En la bifurcación, mantente ${modifier}${name ? ` por ${name}` : ''}`,
+      uturn: name => `Da la vuelta${name ? ` por ${name}` : ''}`,
+      turn: (modifier, name) => `Gira ${modifier}${name ? ` por ${name}` : ''}`
+    },
+    play: 'Reproducir',
+    closeReplay: 'Cerrar la reproducción',
+    playbackSpeed: 'Velocidad de reproducción',
+    narrationReasons: { start: 'Inicio', arrival: 'Llegada', time: 'Tiempo', distance: 'Distancia', maneuver: 'Giro', 'off-route': 'Fuera de ruta', question: 'Pregunta' },
+    narrationAt: (reason, distance) => `${reason}: narración a los ${distance}`,
+    replayTickDetails: (walked, segment, pace, state) => `${walked} recorridos · tramo ${segment} · ${pace} km/h · ${state}`,
+    narrationTextUnavailable: 'Texto de la narración no disponible',
+    dismissAll: 'Descartar todo',
+    routeLibrary: 'Biblioteca de rutas',
+    routeNamePlaceholder: 'Nombre de la ruta actual',
+    saveCurrentRoute: 'Guardar la ruta actual',
+    searchSavedRoutes: 'Buscar rutas guardadas',
+    noSavedRoutes: 'Todavía no hay rutas guardadas.',
+    noRoutesMatch: 'Ninguna ruta coincide con tu búsqueda.',
+    loadThisRoute: 'Cargar esta ruta',
+    save: 'Guardar',
+    cancel: 'Cancelar',
+    rename: 'Renombrar',
+    duplicate: 'Duplicar',
+    delete: 'Eliminar',
+    narrationCount: count => `${count} narraciones`,
+    defaultRouteName: date => `Ruta ${date}`,
+    confirmDeleteRoute: name => `¿Eliminar «${name}» de la biblioteca de rutas?`,
+    routeLibraryUnavailable: 'No se pudo abrir la biblioteca de rutas en este navegador.',
+    couldNotSaveRoute: 'No se pudo guardar la ruta.',
+    couldNotRenameRoute: 'No se pudo renombrar la ruta.',
+    couldNotDeleteRoute: 'No se pudo eliminar la ruta.',
+    couldNotDuplicateRoute: 'No se pudo duplicar la ruta.',
+    routeSourceBRouter: 'URL de BRouter',
+    routeSourceMap: 'Selección en el mapa',
+    routeSourceFile: fileName => `Archivo: ${fileName}`,
+    walkHistory: 'Historial de paseos',
+    walkHistoryUnavailable: 'No se pudo abrir el historial de paseos en este navegador.',
+    confirmDeleteWalk: (routeName, startedAt) => `¿Eliminar el paseo por «${routeName}» del ${startedAt}?`,
+    couldNotDeleteWalk: 'No se pudo eliminar el paseo.',
+    noWalksYet: 'Todavía no hay paseos.',
+    currentWalk: 'Paseo actual',
+    walkSessionStatuses: { walking: 'Interrumpido', paused: 'En pausa', ended: 'Terminado' },
+    walkedWithNarrations: (walked, count) => `${walked} recorridos · ${count} narraciones`,
+    transcript: 'Transcripción',
+    hideTranscript: 'Ocultar la transcripción',
+    resume: 'Reanudar',
+    listenerPreferences: 'Preferencias del oyente',
+    interests: 'Intereses:',
+    interestTopics: { history: 'historia', architecture: 'arquitectura', food: 'comida', art: 'arte', music: 'música', nature: 'naturaleza', shopping: 'compras', 'local tips': 'consejos locales' },
+    persona: 'Personaje:',
+    personas: { 'local-guide': 'Guía local', historian: 'Historiador', foodie: 'Amante de la comida', storyteller: 'Narrador de historias', 'radio-host': 'Locutor de radio' },
+    tone: 'Tono:',
+    formalities: { casual: 'Informal', neutral: 'Neutro', formal: 'Formal' },
+    maxWords: 'Máx. palabras:',
+    familyFriendly: 'Apto para niños',
+    elevationProfile: 'Perfil de altitud',
+    paceModels: { constant: 'Ritmo constante', tobler: 'Ajustado a la pendiente (Tobler)' },
+    narratorHealthStates: { unknown: 'Aún sin contactar', healthy: 'Conectado', degraded: 'Lento o reintentando', down: 'Inaccesible' },
+    narrateEverySeconds: seconds => `cada ${seconds} s`,
+    narrateEveryMeters: meters => `cada ${meters} m`,
+    narrateBeforeTurns: 'antes de los giros',
+    narrateAtStartAndEnd: 'al inicio y al final',
+    narrationOff: 'Desactivado',
+    triggerStart: 'Inicio de la ruta',
+    triggerArrival: remaining => `Llegando, faltan ${remaining} m`,
+    triggerTime: seconds => `${seconds} segundos desde la última narración`,
+    triggerDistance: meters => `${meters} m recorridos desde la última narración`,
+    triggerManeuver: (instruction, distanceAhead) => `${instruction} en ${distanceAhead} m`,
+    triggerOffRoute: meters => `${meters} m fuera de la ruta`,
+    triggerQuestion: 'Respuesta a una pregunta del oyente',
+    unsavedRoute: 'Ruta sin guardar'
+  },
+  it: {
+    appTitle: 'WalkRadio - Compagno di passeggiata IA',
+    language: 'Lingua',
+    pasteBRouterUrl: 'Incolla URL BRouter',
+    selectOnMap: 'Scegli sulla mappa',
+    loadRouteFile: 'Carica file del percorso',
+    brouterUrlLabel: 'URL del percorso BRouter:',
+    brouterHelp: 'Crea il tuo percorso su',
+    brouterSteps: '1. Apri la mappa BRouter 2. Disegna il percorso 3. Copia l’URL 4. Incollalo qui',
+    walkingPace: 'Andatura (km/h):',
+    startWalking: 'Inizia a camminare',
+    pause: 'Pausa',
+    continue: 'Continua',
+    stop: 'Ferma',
+    replayWalk: 'Rivedi la passeggiata',
+    walkingStatus: 'Stato della passeggiata',
+    walkingStates: { stopped: 'Fermo', walking: 'In cammino', paused: 'In pausa' },
+    statusState: 'Stato:',
+    statusCurrentPace: 'Andatura attuale:',
+    statusCoordinateUpdates: 'Aggiornamenti posizione:',
+    everySecond: 'Ogni secondo',
+    statusAiUpdates: 'Aggiornamenti IA:',
+    statusNarrator: 'Narratore:',
+    statusPrefetched: 'Precaricate:',
+    statusLastNarration: 'Ultima narrazione:',
+    statusNextTimedCall: 'Prossima chiamata programmata:',
+    statusActualPace: 'Andatura reale:',
+    measuring: 'Misurazione...',
+    statusDistanceFromRoute: 'Distanza dal percorso:',
+    offRoute: '(fuori percorso)',
+    statusGpsAccuracy: 'Precisione GPS:',
+    statusCurrentPosition: 'Posizione attuale:',
+    routeMap: 'Mappa del percorso',
+    aiResponses: 'Risposte dell’IA',
+    noResponses: narrator => `Ancora nessuna risposta dell’IA. Inizia a camminare per ascoltare il narratore ${narrator}.`,
+    speakNarrations: 'Leggi le narrazioni ad alta voce',
+    defaultVoice: 'Voce predefinita',
+    askPlaceholderStopped: 'Inizia a camminare per fare una domanda alla guida',
+    askPlaceholder: 'Chiedi alla guida, ad es. «Cos’è quell’edificio?»',
+    ask: 'Chiedi',
+    youAsked: 'Hai chiesto:',
+    walkStatistics: 'Statistiche della passeggiata',
+    statsWalked: 'Percorsi:',
+    distanceOf: (walked, total) => `${walked} su ${total}`,
+    statsRemaining: 'Rimanenti:',
+    statsElapsedTime: 'Tempo trascorso:',
+    statsMovingTime: 'Tempo in movimento:',
+    statsEta: 'Arrivo tra:',
+    statsAveragePace: 'Andatura media:',
+    statsNarrations: 'Narrazioni:',
+    answeredQuestions: count => `+ ${count} domande con risposta`,
+    walkComplete: 'Passeggiata completata',
+    walkEnded: 'Passeggiata interrotta',
+    yourRoute: 'Il tuo percorso',
+    summaryWalked: 'percorsi',
+    summaryOfTotal: (total, percent) => `su ${total} (${percent}%)`,
+    summaryTotalTime: 'tempo totale',
+    summaryMoving: 'in movimento',
+    summaryAveragePace: 'andatura media',
+    summaryNarrations: 'narrazioni',
+    summaryQuestionsAnswered: 'domande con risposta',
+    close: 'Chiudi',
+    resumeWalkOn: 'La tua passeggiata su',
+    resumeUnfinished: (walked, duration) => `non è stata completata (${walked} percorsi in ${duration}).`,
+    resumeWalk: 'Riprendi la passeggiata',
+    dismiss: 'Ignora',
+    routeFileLabel: 'File del percorso (GPX, KML o GeoJSON):',
+    routeFileHelp: 'Carica un percorso esportato da un altro strumento',
+    routeFileFormats: 'Sono supportati tracce e percorsi GPX e LineString KML e GeoJSON',
+    routeFileLoaded: (fileName, points) => `${fileName} caricato (${points} punti). Ora puoi iniziare a camminare.`,
+    buildYourRoute: 'Crea il tuo percorso',
+    mapStepAdd: 'Fai clic sulla mappa per aggiungere un punto',
+    mapStepMove: 'Trascina un segnaposto per spostarlo, fai clic per eliminarlo',
+    mapStepInsert: 'Trascina la linea del percorso per inserire un punto intermedio',
+    startPoint: 'Punto di partenza',
+    endPoint: 'Punto di arrivo',
+    viaPoint: index => `Punto intermedio ${index}`,
+    undo: 'Annulla',
+    redo: 'Ripeti',
+    clear: 'Cancella',
+    stopToEditRoute: 'Ferma la passeggiata per modificare il percorso.',
+    routeReady: 'Percorso pronto! Ora puoi iniziare a camminare.',
+    routingProvider: 'Servizio di percorso:',
+    baseUrl: service => `URL di base di ${service}`,
+    routingProfile: service => `Profilo ${service}`,
+    rerouteWith: provider => `Ricalcola con ${provider}`,
+    fallbackRouteInUse: (legs, count) => `Percorso di riserva in uso: linea retta per ${count > 1 ? 'i tratti' : 'il tratto'} ${legs}`,
+    walkingMode: 'Modalità di cammino:',
+    simulated: 'Simulata',
+    liveGps: 'GPS in tempo reale',
+    offRouteThreshold: 'Soglia fuori percorso (m):',
+    replayTraceLabel: 'Riproduci invece una traccia GPS registrata (GPX o GeoJSON):',
+    traceFixes: (fileName, count) => `${fileName} (${count} posizioni)`,
+    replaySpeed: 'Velocità di riproduzione',
+    useDeviceGps: 'Usa il GPS del dispositivo',
+    paceModel: 'Modello di andatura',
+    noElevationForPace: 'Questo percorso non ha ancora dati di altitudine, quindi l’andatura resta costante.',
+    elevation: 'Altitudine:',
+    elevationNoRoute: 'Carica un percorso per vederne l’altitudine.',
+    elevationAvailable: 'Dati di altitudine disponibili per tutto il percorso.',
+    elevationMissing: 'Alcuni punti non hanno l’altitudine. I percorsi BRouter e i file GPX con <ele> la includono; altrimenti cercala.',
+    elevationServiceUrl: 'URL del servizio di altitudine',
+    lookingUp: 'Ricerca...',
+    lookUpElevation: 'Cerca l’altitudine',
+    narrator: 'Narratore:',
+    flowId: 'ID del flow',
+    apiKey: 'Chiave API',
+    apiKeyOptional: 'Chiave API (facoltativa)',
+    agentComponentId: 'ID del componente agente per le modifiche al prompt (facoltativo)',
+    chatCompletionsBaseUrl: 'URL di base delle chat completions',
+    model: 'Modello',
+    streamNarration: 'Mostra la narrazione mentre viene generata',
+    prefetchNarration: 'Prepara la narrazione successiva prima di arrivarci',
+    giveUpAfter: 'Rinuncia dopo',
+    secondsWithoutReply: 'secondi senza risposta',
+    retryFailedRequests: 'Riprova le richieste non riuscite',
+    times: 'volte',
+    mockNarratorHint: 'Narrazioni predefinite generate in locale, senza server.',
+    tellAboutPlaces: 'Segnala al narratore i luoghi vicini',
+    placesSource: 'Fonte dei luoghi',
+    apiUrl: service => `URL dell’API ${service}`,
+    within: 'Entro',
+    metersUpTo: 'metri, fino a',
+    placesPerNarration: 'luoghi per narrazione',
+    placesLoaded: (loaded, mentioned) => `${loaded} luoghi caricati, ${mentioned} citati finora`,
+    narrate: 'Narra:',
+    every: 'Ogni',
+    seconds: 'secondi',
+    meters: 'metri',
+    narrationIntervalSeconds: 'Intervallo di narrazione in secondi',
+    narrationDistanceMeters: 'Distanza tra narrazioni in metri',
+    beforeTurnsFrom: 'Prima delle svolte, da',
+    metersAhead: 'metri prima',
+    turnAnnouncementDistance: 'Distanza di annuncio delle svolte in metri',
+    atStartAndEnd: 'All’inizio e alla fine del percorso',
+    atMostOnceEvery: 'Al massimo una volta ogni',
+    prefetchSummary: ({ ready, pending, used, discarded }) => `${ready} pronte, ${pending} in attesa · ${used} usate, ${discarded} scartate`,
+    mentioned: 'citato',
+    gpsPosition: 'Posizione GPS',
+    replayPosition: 'Posizione della riproduzione',
+    currentPosition: 'Posizione attuale',
+    exportTitle: 'Esporta',
+    plannedRoute: 'Percorso pianificato:',
+    walkedTrack: points => `Traccia percorsa (${points} punti):`,
+    routeCoordinates: points => `Coordinate del percorso (${points} punti)`,
+    noCoordinates: 'Nessuna coordinata caricata. Inserisci l’URL di un percorso.',
+    narratorRequests: count => `Richieste al narratore (${count})`,
+    noNarratorRequests: 'Nessuna richiesta inviata finora. Ogni chiamata al narratore compare qui esattamente come è stata inviata.',
+    voice: 'Voce',
+    speechRate: rate => `Velocità ${rate}x`,
+    speechVolume: percent => `Volume ${percent}%`,
+    speaking: 'In lettura',
+    queued: 'In coda',
+    replay: 'Riascolta',
+    skip: 'Salta',
+    enterRouteFirst: 'Inserisci prima l’URL di un percorso',
+    narrationRetrying: (error, attempt, maxRetries, seconds) => `${error}. Nuovo tentativo (${attempt} di ${maxRetries}) tra ${seconds} s...`,
+    narrationFailed: error => `Narrazione non riuscita: ${error}`,
+    simulationSpeed: 'Velocità di simulazione',
+    stepMode: 'Modalità di debug passo passo',
+    simulationSpeedHint: 'Le narrazioni seguono il tempo reale, quindi una simulazione più veloce percorre più strada tra l’una e l’altra.',
+    seekHint: 'Fai clic sul percorso o su una coordinata per spostarvi il camminatore.',
+    step: 'Passo',
+    nextSegment: 'Tratto successivo',
+    stepPosition: (walked, segment, segments) => `${walked} · tratto ${segment} di ${segments}`,
+    walkStartsAt: distance => `La passeggiata inizierà a ${distance} dalla partenza.`,
+    startFromBeginning: 'Parti dall’inizio',
+    moveWalkerHere: 'Sposta qui il camminatore',
+    directionsSteps: count => `Indicazioni (${count} passi)`,
+    inDistance: distance => `tra ${distance}`,
+    noRouteLoaded: 'Nessun percorso caricato.',
+    instructions: {
+      directions: { N: 'N', NE: 'NE', E: 'E', SE: 'SE', S: 'S', SW: 'SO', W: 'O', NW: 'NO' },
+      modifiers: {
+        left: 'a sinistra',
+        right: 'a destra',
+        'slight left': 'leggermente a sinistra',
+        'slight right': 'leggermente a destra',
+        'sharp left': 'decisamente a sinistra',
+        'sharp right': 'decisamente a destra',
+        straight: 'dritto',
+        uturn: 'inversione a U'
+      },
+      depart: (direction, name) => `Parti${direction ? ` verso ${direction}` : ''}${name ? ` su ${name}` : ''}`,
+      arrive: 'Sei arrivato a destinazione',
+      roundaboutExit: (exit, name) => `Alla rotonda, prendi l’uscita ${exit}${name ? ` su ${name}` : ''}`,
+      roundabout: name => `Entra nella rotonda${name ? ` su ${name}` : ''}`,
+      continue: (modifier, name) => `Prosegui ${modifier}${name ? ` su ${name}` : ''}`,
+      fork: (modifier, name) => `Al bivio, tieni ${modifier}${name ? ` su ${name}` : ''}`,
+      uturn: name => `Fai inversione a U${name ? ` su ${name}` : ''}`,
+      turn: (modifier, name) => `Svolta ${modifier}${name ? ` su ${name}` : ''}`
+    },
+    play: 'Riproduci',
+    closeReplay: 'Chiudi la riproduzione',
+    playbackSpeed: 'Velocità di riproduzione',
+    narrationReasons: { start: 'Partenza', arrival: 'Arrivo', time: 'Tempo', distance: 'Distanza', maneuver: 'Svolta', 'off-route': 'Fuori percorso', question: 'Domanda' },
+    narrationAt: (reason, distance) => `${reason}: narrazione a ${distance}`,
+    replayTickDetails: (walked, segment, pace, state) => `${walked} percorsi · tratto ${segment} · ${pace} km/h · ${state}`,
+    narrationTextUnavailable: 'Testo della narrazione non disponibile',
+    dismissAll: 'Ignora tutto',
+    routeLibrary: 'Libreria dei percorsi',
+    routeNamePlaceholder: 'Nome del percorso attuale',
+    saveCurrentRoute: 'Salva il percorso attuale',
+    searchSavedRoutes: 'Cerca tra i percorsi salvati',
+    noSavedRoutes: 'Nessun percorso salvato per ora.',
+    noRoutesMatch: 'Nessun percorso corrisponde alla ricerca.',
+    loadThisRoute: 'Carica questo percorso',
+    save: 'Salva',
+    cancel: 'Annulla',
+    rename: 'Rinomina',
+    duplicate: 'Duplica',
+    delete: 'Elimina',
+    narrationCount: count => `${count} narrazioni`,
+    defaultRouteName: date => `Percorso ${date}`,
+    confirmDeleteRoute: name => `Eliminare «${name}» dalla libreria dei percorsi?`,
+    routeLibraryUnavailable: 'Impossibile aprire la libreria dei percorsi in questo browser.',
+    couldNotSaveRoute: 'Impossibile salvare il percorso.',
+    couldNotRenameRoute: 'Impossibile rinominare il percorso.',
+    couldNotDeleteRoute: 'Impossibile eliminare il percorso.',
+    couldNotDuplicateRoute: 'Impossibile duplicare il percorso.',
+    routeSourceBRouter: 'URL di BRouter',
+    routeSourceMap: 'Selezione sulla mappa',
+    routeSourceFile: fileName => `File: ${fileName}`,
+    walkHistory: 'Cronologia delle passeggiate',
+    walkHistoryUnavailable: 'Impossibile aprire la cronologia delle passeggiate in questo browser.',
+    confirmDeleteWalk: (routeName, startedAt) => `Eliminare la passeggiata su «${routeName}» del ${startedAt}?`,
+    couldNotDeleteWalk: 'Impossibile eliminare la passeggiata.',
+    noWalksYet: 'Nessuna passeggiata per ora.',
+    currentWalk: 'Passeggiata in corso',
+    walkSessionStatuses: { walking: 'Interrotta', paused: 'In pausa', ended: 'Conclusa' },
+    walkedWithNarrations: (walked, count) => `${walked} percorsi · ${count} narrazioni`,
+    transcript: 'Trascrizione',
+    hideTranscript: 'Nascondi la trascrizione',
+    resume: 'Riprendi',
+    listenerPreferences: 'Preferenze di ascolto',
+    interests: 'Interessi:',
+    interestTopics: { history: 'storia', architecture: 'architettura', food: 'cibo', art: 'arte', music: 'musica', nature: 'natura', shopping: 'shopping', 'local tips': 'consigli locali' },
+    persona: 'Personaggio:',
+    personas: { 'local-guide': 'Guida locale', historian: 'Storico', foodie: 'Buongustaio', storyteller: 'Cantastorie', 'radio-host': 'Conduttore radiofonico' },
+    tone: 'Tono:',
+    formalities: { casual: 'Informale', neutral: 'Neutro', formal: 'Formale' },
+    maxWords: 'Parole max:',
+    familyFriendly: 'Adatto ai bambini',
+    elevationProfile: 'Profilo altimetrico',
+    paceModels: { constant: 'Andatura costante', tobler: 'Adattata alla pendenza (Tobler)' },
+    narratorHealthStates: { unknown: 'Non ancora contattato', healthy: 'Connesso', degraded: 'Lento o in nuovo tentativo', down: 'Irraggiungibile' },
+    narrateEverySeconds: seconds => `ogni ${seconds} s`,
+    narrateEveryMeters: meters => `ogni ${meters} m`,
+    narrateBeforeTurns: 'prima delle svolte',
+    narrateAtStartAndEnd: 'alla partenza e all’arrivo',
+    narrationOff: 'Disattivato',
+    triggerStart: 'Inizio del percorso',
+    triggerArrival: remaining => `In arrivo, mancano ${remaining} m`,
+    triggerTime: seconds => `${seconds} secondi dall’ultima narrazione`,
+    triggerDistance: meters => `${meters} m percorsi dall’ultima narrazione`,
+    triggerManeuver: (instruction, distanceAhead) => `${instruction} tra ${distanceAhead} m`,
+    triggerOffRoute: meters => `${meters} m fuori dal percorso`,
+    triggerQuestion: 'Risposta a una domanda dell’ascoltatore',
+    unsavedRoute: 'Percorso non salvato'
+  }
+};
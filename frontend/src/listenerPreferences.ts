@@ -0,0 +1,85 @@
+// What the listener wants to hear about, and how
+
+import { LANGUAGE_PROMPT_NAMES, UI_STRINGS, detectLanguage, isLanguage, type Language } from './i18n';
+
+export type NarratorPersona = 'local-guide' | 'historian' | 'foodie' | 'storyteller' | 'radio-host';
+
+export type Formality = 'casual' | 'neutral' | 'formal';
+
+export interface ListenerPreferences {
+  interests: string[];
+  persona: NarratorPersona;
+  formality: Formality;
+  maxWords: number;
+  familyFriendly: boolean;
+  // Language the guide narrates in, which the UI follows too
+  language: Language;
+}
+
+export const NARRATOR_PERSONAS: NarratorPersona[] = ['local-guide', 'historian', 'foodie', 'storyteller', 'radio-host'];
+
+export const FORMALITIES: Formality[] = ['casual', 'neutral', 'formal'];
+
+// Sent to the narrator as they are, in English; the panel shows them through UiStrings.interestTopics
+export const INTEREST_TOPICS = [
+  'history',
+  'architecture',
+  'food',
+  'art',
+  'music',
+  'nature',
+  'shopping',
+  'local tips'
+];
+
+export const DEFAULT_LISTENER_PREFERENCES: ListenerPreferences = {
+  interests: [],
+  persona: 'local-guide',
+  formality: 'neutral',
+  // Matches the limit in system_prompt.txt
+  maxWords: 50,
+  familyFriendly: false,
+  language: 'en'
+};
+
+const STORAGE_KEY = 'walkradio.listenerPreferences';
+
+// Read saved preferences, filling in anything missing from older versions
+export const loadListenerPreferences = (): ListenerPreferences => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return { ...DEFAULT_LISTENER_PREFERENCES, language: detectLanguage() };
+
+    const preferences: ListenerPreferences = { ...DEFAULT_LISTENER_PREFERENCES, ...JSON.parse(saved) };
+    return isLanguage(preferences.language) ? preferences : { ...preferences, language: detectLanguage() };
+  } catch (error) {
+    console.error('Error reading listener preferences:', error);
+    return DEFAULT_LISTENER_PREFERENCES;
+  }
+};
+
+export const saveListenerPreferences = (preferences: ListenerPreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving listener preferences:', error);
+  }
+};
+
+// Plain-language instructions for the narrator, appended to the system prompt
+export const describeListenerPreferences = (preferences: ListenerPreferences): string => {
+  const lines = [
+    `Speak as a ${UI_STRINGS.en.personas[preferences.persona].toLowerCase()} in a ${preferences.formality} tone.`,
+    `Keep each message under ${preferences.maxWords} words.`
+  ];
+  if (preferences.interests.length > 0) {
+    lines.push(`The listener is most interested in: ${preferences.interests.join(', ')}.`);
+  }
+  if (preferences.familyFriendly) {
+    lines.push('Keep everything family-friendly; children are listening.');
+  }
+  if (preferences.language !== 'en') {
+    lines.push(`Always narrate and answer in ${LANGUAGE_PROMPT_NAMES[preferences.language]}, even though these instructions are in English.`);
+  }
+  return lines.join('\n');
+};
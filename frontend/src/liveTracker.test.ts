@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Coordinate } from './types';
+import { LiveTracker, snapToRoute, type GpsFix, type LiveTrackerEvent } from './liveTracker';
+import { createRouteIndex } from './walkSimulator';
+
+// Out along the equator and back on a parallel line 20 m to the north, ending next to the start
+const loopRoute: Coordinate[] = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 0.005 },
+  { lat: 0.00018, lng: 0.005 },
+  { lat: 0.00018, lng: 0 }
+];
+
+const fixAt = (coordinate: Coordinate, seconds: number): GpsFix => ({ coordinate, timestamp: seconds * 1000, accuracy: null });
+
+const createTracker = (startDistance?: number) => {
+  const tracker = new LiveTracker(loopRoute, { offRouteThreshold: 40, startDistance });
+  const events: LiveTrackerEvent['type'][] = [];
+  tracker.subscribe(event => events.push(event.type));
+  return { tracker, events };
+};
+
+describe('snapToRoute', () => {
+  it('only considers the route inside the window', () => {
+    const index = createRouteIndex(loopRoute);
+    const nearEnd = { lat: 0.00015, lng: 0.0001 };
+    expect(snapToRoute(loopRoute, index, nearEnd).segmentIndex).toBe(2);
+    expect(snapToRoute(loopRoute, index, nearEnd, { from: 0, to: 200 }).segmentIndex).toBe(0);
+  });
+});
+
+describe('LiveTracker', () => {
+  it('does not finish a loop route when the walk starts next to its end', () => {
+    const { tracker, events } = createTracker();
+    const update = tracker.update(fixAt({ lat: 0.00015, lng: 0.0001 }, 0));
+
+    expect(update.position.segmentIndex).toBe(0);
+    expect(update.isOffRoute).toBe(false);
+    expect(events).not.toContain('finished');
+  });
+
+  it('follows the walker round the loop and finishes back at the start', () => {
+    const { tracker, events } = createTracker();
+    const fixes = [
+      { lat: 0, lng: 0.0001 },
+      { lat: 0, lng: 0.0015 },
+      { lat: 0, lng: 0.003 },
+      { lat: 0, lng: 0.0045 },
+      { lat: 0.0001, lng: 0.005 },
+      { lat: 0.00018, lng: 0.0035 },
+      { lat: 0.00018, lng: 0.002 },
+      { lat: 0.00018, lng: 0.0005 },
+      { lat: 0.00018, lng: 0.0001 }
+    ];
+    // A fix every two minutes, so each one is within reach of the last
+    fixes.forEach((coordinate, index) => tracker.update(fixAt(coordinate, index * 120)));
+
+    expect(events.filter(type => type === 'finished')).toHaveLength(1);
+    expect(events).not.toContain('off-route');
+  });
+
+  it('picks the walker up elsewhere on the route when they leave the snapping window', () => {
+    const { tracker } = createTracker();
+    tracker.update(fixAt({ lat: 0, lng: 0.0001 }, 0));
+    const update = tracker.update(fixAt({ lat: 0, lng: 0.004 }, 10));
+
+    expect(update.isOffRoute).toBe(false);
+    expect(update.position.segmentIndex).toBe(0);
+    expect(update.position.coordinate.lng).toBeCloseTo(0.004, 6);
+  });
+
+  it('snaps near where a resumed walk left off', () => {
+    const index = createRouteIndex(loopRoute);
+    const { tracker } = createTracker(index.cumulativeDistances[2]);
+    const update = tracker.update(fixAt({ lat: 0.00015, lng: 0.0045 }, 0));
+    expect(update.position.segmentIndex).toBe(2);
+  });
+});
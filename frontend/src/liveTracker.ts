@@ -0,0 +1,345 @@
+import type { Coordinate } from './types';
+import { calculateDistance } from './geo';
+import { RouteFileError, parseRouteFile } from './routeFiles';
+import { createRouteIndex, type RouteIndex, type RoutePosition } from './walkSimulator';
+
+// A single position reading from the device or a recorded trace
+export interface GpsFix {
+  coordinate: Coordinate;
+  // Milliseconds since epoch when the fix was taken
+  timestamp: number;
+  // Horizontal accuracy in meters, if known
+  accuracy: number | null;
+}
+
+// Something that produces position fixes; start() returns a function that stops it
+export interface PositionSource {
+  label: string;
+  start: (onFix: (fix: GpsFix) => void, onError: (message: string) => void) => () => void;
+}
+
+export const createGeolocationSource = (): PositionSource => ({
+  label: 'Device GPS',
+  start: (onFix, onError) => {
+    if (!('geolocation' in navigator)) {
+      onError('Geolocation is not available in this browser.');
+      return () => {};
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      position => onFix({
+        coordinate: { lat: position.coords.latitude, lng: position.coords.longitude },
+        timestamp: position.timestamp,
+        accuracy: position.coords.accuracy
+      }),
+      error => onError(error.message || 'Unable to read the device position.'),
+      { enableHighAccuracy: true, maximumAge: 1000, timeout: 20000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+});
+
+// Replays recorded fixes with their original spacing; restarting continues where it stopped
+export const createTraceReplaySource = (fixes: GpsFix[], speedMultiplier = 1): PositionSource => {
+  let nextIndex = 0;
+
+  return {
+    label: 'Recorded trace',
+    start: (onFix, onError) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const emitNext = () => {
+        const fix = fixes[nextIndex];
+        nextIndex++;
+        onFix(fix);
+        if (nextIndex < fixes.length) {
+          const delay = Math.max(0, fixes[nextIndex].timestamp - fix.timestamp) / speedMultiplier;
+          timer = setTimeout(emitNext, delay);
+        } else {
+          timer = null;
+        }
+      };
+
+      if (nextIndex < fixes.length) {
+        timer = setTimeout(emitNext, 0);
+      } else {
+        onError('The recorded trace has been fully replayed.');
+      }
+
+      return () => {
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+      };
+    }
+  };
+};
+
+const readGpxTimes = (content: string): (number | null)[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  const points = Array.from(doc.getElementsByTagName('trkpt'));
+  const routePoints = points.length > 0 ? points : Array.from(doc.getElementsByTagName('rtept'));
+  return routePoints.map(point => {
+    const time = point.getElementsByTagName('time')[0]?.textContent;
+    const parsed = time ? Date.parse(time) : NaN;
+    return Number.isNaN(parsed) ? null : parsed;
+  });
+};
+
+const readGeoJsonTimes = (content: string): (number | null)[] => {
+  const data = JSON.parse(content);
+  const features = data.type === 'FeatureCollection' ? data.features ?? [] : [data];
+  const line = features.find((feature: { geometry?: { type?: string } }) => feature.geometry?.type === 'LineString');
+  const coordTimes: unknown = line?.properties?.coordTimes;
+  if (!Array.isArray(coordTimes)) return [];
+  return coordTimes.map(time => {
+    const parsed = typeof time === 'string' ? Date.parse(time) : NaN;
+    return Number.isNaN(parsed) ? null : parsed;
+  });
+};
+
+// Parse a recorded GPS trace (GPX with <time>, or GeoJSON with coordTimes) into fixes
+export const parseGpsTrace = (fileName: string, content: string): GpsFix[] => {
+  const parsed = parseRouteFile(fileName, content);
+
+  let times: (number | null)[] = [];
+  if (parsed.format === 'gpx') {
+    times = readGpxTimes(content);
+  } else if (parsed.format === 'geojson') {
+    times = readGeoJsonTimes(content);
+  } else {
+    throw new RouteFileError(parsed.format, 'recorded traces must be GPX or GeoJSON files.');
+  }
+
+  // Without usable timestamps, replay the points one second apart
+  const hasTimes = times.length === parsed.coordinates.length && times.every(time => time !== null);
+  const startTime = Date.now();
+
+  return parsed.coordinates.map((coordinate, index) => ({
+    coordinate,
+    timestamp: hasTimes ? (times[index] as number) : startTime + index * 1000,
+    accuracy: null
+  }));
+};
+
+export interface SnappedPosition extends RoutePosition {
+  // Meters between the raw fix and the route
+  offRouteDistance: number;
+}
+
+// Stretch of the route to search, in meters from the start
+export interface SnapWindow {
+  from: number;
+  to: number;
+}
+
+// Project a point onto the nearest segment of the route, or of the part of it inside the window
+export const snapToRoute = (
+  coordinates: Coordinate[],
+  routeIndex: RouteIndex,
+  point: Coordinate,
+  snapWindow?: SnapWindow
+): SnappedPosition => {
+  // Local flat projection around the point, accurate enough over a few hundred meters
+  const metersPerDegreeLat = 110540;
+  const metersPerDegreeLng = 111320 * Math.cos(point.lat * Math.PI / 180);
+  const toLocal = (coord: Coordinate) => ({
+    x: (coord.lng - point.lng) * metersPerDegreeLng,
+    y: (coord.lat - point.lat) * metersPerDegreeLat
+  });
+
+  let best: SnappedPosition | null = null;
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    if (snapWindow && (routeIndex.cumulativeDistances[i + 1] < snapWindow.from || routeIndex.cumulativeDistances[i] > snapWindow.to)) {
+      continue;
+    }
+    const a = toLocal(coordinates[i]);
+    const b = toLocal(coordinates[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    const offRouteDistance = Math.hypot(a.x + t * dx, a.y + t * dy);
+
+    if (!best || offRouteDistance < best.offRouteDistance) {
+      const segmentLength = routeIndex.cumulativeDistances[i + 1] - routeIndex.cumulativeDistances[i];
+      best = {
+        coordinate: {
+          lng: coordinates[i].lng + (coordinates[i + 1].lng - coordinates[i].lng) * t,
+          lat: coordinates[i].lat + (coordinates[i + 1].lat - coordinates[i].lat) * t
+        },
+        segmentIndex: i,
+        distance: routeIndex.cumulativeDistances[i] + segmentLength * t,
+        offRouteDistance
+      };
+    }
+  }
+
+  return best ?? {
+    coordinate: coordinates[0],
+    segmentIndex: 0,
+    distance: 0,
+    offRouteDistance: calculateDistance(point, coordinates[0])
+  };
+};
+
+export interface LiveTrackerUpdate {
+  fix: GpsFix;
+  position: SnappedPosition;
+  isOffRoute: boolean;
+  // Pace in km/h computed from recent fixes, null until there are enough
+  pace: number | null;
+}
+
+export type LiveTrackerEvent =
+  | { type: 'update'; update: LiveTrackerUpdate }
+  | { type: 'off-route'; update: LiveTrackerUpdate }
+  | { type: 'back-on-route'; update: LiveTrackerUpdate }
+  | { type: 'finished'; update: LiveTrackerUpdate };
+
+export type LiveTrackerListener = (event: LiveTrackerEvent) => void;
+
+export interface LiveTrackerOptions {
+  // Meters from the route before the walker counts as off-route
+  offRouteThreshold: number;
+  // Milliseconds of fixes used to compute the pace
+  paceWindow?: number;
+  // Meters from the route end that count as arrived
+  arrivalRadius?: number;
+  // Meters along the route where the walker starts, when resuming part way
+  startDistance?: number;
+}
+
+export const DEFAULT_OFF_ROUTE_THRESHOLD = 40;
+
+// Fixes are snapped near the last known position, so a loop or out-and-back route
+// doesn't put the walker at its far end just because the two ends are close together
+const SNAP_WINDOW_BEHIND = 100;
+const SNAP_WINDOW_AHEAD = 200;
+// Generous ground speed in m/s for widening the window when fixes are far apart
+const SNAP_WINDOW_SPEED = 5;
+
+// Follows real position fixes against a planned route
+export class LiveTracker {
+  readonly coordinates: Coordinate[];
+  readonly routeIndex: RouteIndex;
+  private readonly listeners = new Set<LiveTrackerListener>();
+  private readonly paceWindow: number;
+  private readonly arrivalRadius: number;
+  private offRouteThreshold: number;
+  private recentFixes: GpsFix[] = [];
+  private isOffRoute = false;
+  private hasFinished = false;
+  private lastUpdate: LiveTrackerUpdate | null = null;
+  private readonly startDistance: number;
+  private lastDistance: number;
+  private lastSnapTime: number | null = null;
+
+  constructor(coordinates: Coordinate[], options: LiveTrackerOptions) {
+    if (coordinates.length === 0) {
+      throw new Error('LiveTracker needs at least one coordinate');
+    }
+    this.coordinates = coordinates;
+    this.routeIndex = createRouteIndex(coordinates);
+    this.offRouteThreshold = options.offRouteThreshold;
+    this.paceWindow = options.paceWindow ?? 30000;
+    this.arrivalRadius = options.arrivalRadius ?? 20;
+    this.startDistance = options.startDistance ?? 0;
+    this.lastDistance = this.startDistance;
+  }
+
+  subscribe(listener: LiveTrackerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setOffRouteThreshold(threshold: number) {
+    this.offRouteThreshold = threshold;
+  }
+
+  getLastUpdate(): LiveTrackerUpdate | null {
+    return this.lastUpdate;
+  }
+
+  update(fix: GpsFix): LiveTrackerUpdate {
+    this.recentFixes = [...this.recentFixes, fix].filter(
+      recentFix => fix.timestamp - recentFix.timestamp <= this.paceWindow
+    );
+
+    const position = this.snap(fix);
+    const wasOffRoute = this.isOffRoute;
+    this.isOffRoute = position.offRouteDistance > this.offRouteThreshold;
+
+    const update: LiveTrackerUpdate = {
+      fix,
+      position,
+      isOffRoute: this.isOffRoute,
+      pace: this.calculatePace()
+    };
+    this.lastUpdate = update;
+
+    this.emit({ type: 'update', update });
+    if (this.isOffRoute && !wasOffRoute) {
+      this.emit({ type: 'off-route', update });
+    } else if (!this.isOffRoute && wasOffRoute) {
+      this.emit({ type: 'back-on-route', update });
+    }
+
+    const remaining = this.routeIndex.totalDistance - position.distance;
+    if (!this.hasFinished && !this.isOffRoute && remaining <= this.arrivalRadius && this.hasMadeProgress(position)) {
+      this.hasFinished = true;
+      this.emit({ type: 'finished', update });
+    }
+
+    return update;
+  }
+
+  // Snap within reach of the last position; only when that leaves the walker off the route
+  // but somewhere else on it fits, take that instead (they took a shortcut or tracking was lost)
+  private snap(fix: GpsFix): SnappedPosition {
+    const elapsedSeconds = this.lastSnapTime !== null ? Math.max(0, (fix.timestamp - this.lastSnapTime) / 1000) : 0;
+    const position = snapToRoute(this.coordinates, this.routeIndex, fix.coordinate, {
+      from: this.lastDistance - SNAP_WINDOW_BEHIND,
+      to: this.lastDistance + SNAP_WINDOW_AHEAD + elapsedSeconds * SNAP_WINDOW_SPEED
+    });
+    let snapped = position;
+    if (position.offRouteDistance > this.offRouteThreshold) {
+      const anywhere = snapToRoute(this.coordinates, this.routeIndex, fix.coordinate);
+      if (anywhere.offRouteDistance <= this.offRouteThreshold) {
+        snapped = anywhere;
+      }
+    }
+
+    // Keep the last on-route position while the walker is off the route
+    if (snapped.offRouteDistance <= this.offRouteThreshold) {
+      this.lastDistance = snapped.distance;
+      this.lastSnapTime = fix.timestamp;
+    }
+    return snapped;
+  }
+
+  // Near the end only counts as arrived once the walker has covered at least half of
+  // what was left of the route when tracking started, so starting by the finish of a loop doesn't end the walk
+  private hasMadeProgress(position: SnappedPosition): boolean {
+    const toCover = this.routeIndex.totalDistance - this.startDistance;
+    return position.distance - this.startDistance >= toCover / 2;
+  }
+
+  private calculatePace(): number | null {
+    if (this.recentFixes.length < 2) return null;
+
+    let distance = 0;
+    for (let i = 1; i < this.recentFixes.length; i++) {
+      distance += calculateDistance(this.recentFixes[i - 1].coordinate, this.recentFixes[i].coordinate);
+    }
+    const elapsedSeconds = (this.recentFixes[this.recentFixes.length - 1].timestamp - this.recentFixes[0].timestamp) / 1000;
+    return elapsedSeconds > 0 ? (distance / elapsedSeconds) * 3.6 : null;
+  }
+
+  private emit(event: LiveTrackerEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,203 @@
+import type { Coordinate } from './types';
+import { UI_STRINGS, type InstructionStrings } from './i18n';
+import { calculateBearing, calculateDistance, getDirectionName } from './geo';
+import type { RouteLeg, RouteStep } from './routing';
+import { createRouteIndex, locateOnRoute, type RouteIndex } from './walkSimulator';
+
+// A turn-by-turn instruction placed on the stitched route
+export interface Maneuver {
+  type: string;
+  // Turn direction, or the compass direction to head off in for the departure
+  modifier: string | null;
+  streetName: string;
+  // Roundabout exit number, when the routing step had one
+  exit: number | null;
+  // English, as handed to the narrator; formatManeuverInstruction gives the listener's language
+  instruction: string;
+  // Index of the route coordinate where the maneuver happens
+  coordinateIndex: number;
+  location: Coordinate;
+  // Meters from the route start
+  distanceFromStart: number;
+}
+
+const TURN_SAMPLE_METERS = 15;
+const MIN_TURN_ANGLE = 30;
+
+// Signed change of direction in degrees (-180..180), safe across the 0/360 wraparound
+export const turnAngle = (fromBearing: number, toBearing: number): number =>
+  ((toBearing - fromBearing + 540) % 360) - 180;
+
+const modifierForAngle = (angle: number): string => {
+  const side = angle > 0 ? 'right' : 'left';
+  const magnitude = Math.abs(angle);
+  if (magnitude >= 160) return 'uturn';
+  if (magnitude >= 120) return `sharp ${side}`;
+  if (magnitude >= 60) return side;
+  return `slight ${side}`;
+};
+
+// Readable instruction for an OSRM-style maneuver type and modifier, in English unless other strings are given
+export const formatInstruction = (
+  type: string,
+  modifier: string | null,
+  name: string,
+  exit: number | null = null,
+  strings: InstructionStrings = UI_STRINGS.en.instructions
+): string => {
+  const modifierName = (value: string) => strings.modifiers[value] ?? value;
+  switch (type) {
+    case 'depart':
+      return strings.depart(modifier && (strings.directions[modifier] ?? modifier), name);
+    case 'arrive':
+      return strings.arrive;
+    case 'roundabout':
+    case 'rotary':
+      return exit ? strings.roundaboutExit(exit, name) : strings.roundabout(name);
+    case 'new name':
+    case 'continue':
+      return strings.continue(modifierName(modifier ?? 'straight'), name);
+    case 'fork':
+      return strings.fork(modifierName(modifier ?? 'straight'), name);
+  }
+
+  if (modifier === 'uturn') return strings.uturn(name);
+  if (!modifier || modifier === 'straight') return strings.continue(modifierName('straight'), name);
+  return strings.turn(modifierName(modifier), name);
+};
+
+export const formatManeuverInstruction = (maneuver: Maneuver, strings: InstructionStrings): string =>
+  formatInstruction(maneuver.type, maneuver.modifier, maneuver.streetName, maneuver.exit, strings);
+
+// Maneuvers worth telling the walker about, as opposed to bookkeeping steps
+export const isAnnouncedManeuver = (maneuver: Maneuver): boolean => {
+  if (maneuver.type === 'depart' || maneuver.type === 'arrive') return false;
+  if (maneuver.type === 'new name' || maneuver.type === 'continue') {
+    return maneuver.modifier !== null && maneuver.modifier !== 'straight';
+  }
+  return true;
+};
+
+// Detect turns in the geometry between two coordinate indexes, for routes without steps
+const findTurns = (coordinates: Coordinate[], routeIndex: RouteIndex, fromIndex: number, toIndex: number): Maneuver[] => {
+  const { cumulativeDistances } = routeIndex;
+  const maneuvers: Maneuver[] = [];
+  let lastTurnDistance = -Infinity;
+
+  for (let i = Math.max(1, fromIndex + 1); i < Math.min(toIndex, coordinates.length - 1); i++) {
+    // One bend spread over several close points should count once
+    if (cumulativeDistances[i] - lastTurnDistance < TURN_SAMPLE_METERS * 2) continue;
+
+    // Compare bearings over a short stretch either side so small wiggles don't count
+    const before = locateOnRoute(coordinates, routeIndex, cumulativeDistances[i] - TURN_SAMPLE_METERS).coordinate;
+    const after = locateOnRoute(coordinates, routeIndex, cumulativeDistances[i] + TURN_SAMPLE_METERS).coordinate;
+    const angle = turnAngle(calculateBearing(before, coordinates[i]), calculateBearing(coordinates[i], after));
+
+    if (Math.abs(angle) >= MIN_TURN_ANGLE) {
+      const modifier = modifierForAngle(angle);
+      maneuvers.push({
+        type: 'turn',
+        modifier,
+        streetName: '',
+        exit: null,
+        instruction: formatInstruction('turn', modifier, ''),
+        coordinateIndex: i,
+        location: coordinates[i],
+        distanceFromStart: cumulativeDistances[i]
+      });
+      lastTurnDistance = cumulativeDistances[i];
+    }
+  }
+  return maneuvers;
+};
+
+// Closest coordinate to a step location within a range of the route
+const findNearestIndex = (coordinates: Coordinate[], location: Coordinate, fromIndex: number, toIndex: number): number => {
+  let bestIndex = fromIndex;
+  let bestDistance = Infinity;
+  for (let i = fromIndex; i <= toIndex; i++) {
+    const distance = calculateDistance(coordinates[i], location);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = i;
+    }
+  }
+  return bestIndex;
+};
+
+// Where each leg starts and ends in the stitched route, mirroring stitchRouteLegs
+const getLegRanges = (legs: RouteLeg[]): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  let length = 0;
+  let last: Coordinate | undefined;
+  for (const leg of legs) {
+    const first = leg.coordinates[0];
+    const isJoined = last && first && last.lat === first.lat && last.lng === first.lng;
+    const start = isJoined ? length - 1 : length;
+    length += isJoined ? leg.coordinates.length - 1 : leg.coordinates.length;
+    ranges.push({ start, end: length - 1 });
+    last = leg.coordinates[leg.coordinates.length - 1] ?? last;
+  }
+  return ranges;
+};
+
+// Build the maneuver list for a route from its routing steps, falling back to the geometry
+export const buildManeuvers = (coordinates: Coordinate[], legs: RouteLeg[]): Maneuver[] => {
+  if (coordinates.length < 2) return [];
+
+  const routeIndex = createRouteIndex(coordinates);
+  const lastIndex = coordinates.length - 1;
+  const firstStep: RouteStep | undefined = legs[0]?.steps[0];
+  const direction = getDirectionName(calculateBearing(coordinates[0], coordinates[1]));
+  const maneuvers: Maneuver[] = [{
+    type: 'depart',
+    modifier: direction,
+    streetName: firstStep?.name ?? '',
+    exit: null,
+    instruction: formatInstruction('depart', direction, firstStep?.name ?? ''),
+    coordinateIndex: 0,
+    location: coordinates[0],
+    distanceFromStart: 0
+  }];
+
+  // Routes from files or URLs have no legs, so the whole line is one stretch of geometry
+  const ranges = legs.length > 0 ? getLegRanges(legs) : [{ start: 0, end: lastIndex }];
+  ranges.forEach((range, legIndex) => {
+    const steps = legs[legIndex]?.steps ?? [];
+    if (steps.length === 0) {
+      maneuvers.push(...findTurns(coordinates, routeIndex, range.start, range.end));
+      return;
+    }
+
+    for (const step of steps) {
+      if (step.type === 'depart' || step.type === 'arrive') continue;
+      const coordinateIndex = findNearestIndex(coordinates, step.location, range.start, Math.min(range.end, lastIndex));
+      maneuvers.push({
+        type: step.type,
+        modifier: step.modifier,
+        streetName: step.name,
+        exit: step.exit,
+        instruction: formatInstruction(step.type, step.modifier, step.name, step.exit),
+        coordinateIndex,
+        location: step.location,
+        distanceFromStart: routeIndex.cumulativeDistances[coordinateIndex]
+      });
+    }
+  });
+
+  maneuvers.push({
+    type: 'arrive',
+    modifier: null,
+    streetName: '',
+    exit: null,
+    instruction: formatInstruction('arrive', null, ''),
+    coordinateIndex: lastIndex,
+    location: coordinates[lastIndex],
+    distanceFromStart: routeIndex.totalDistance
+  });
+  return maneuvers;
+};
+
+// The first maneuver still ahead of the walker
+export const findNextManeuver = (maneuvers: Maneuver[], distanceWalked: number): Maneuver | null =>
+  maneuvers.find(maneuver => maneuver.type !== 'depart' && maneuver.distanceFromStart > distanceWalked) ?? null;
@@ -0,0 +1,179 @@
+import type { Coordinate } from './types';
+import { isAbortError } from './narrationProviders';
+
+// A point ahead of the walker where the next narration is expected to be due
+export interface NarrationPrediction {
+  coordinate: Coordinate;
+  segmentIndex: number;
+  // Meters along the route
+  distance: number;
+  // When the walker is expected to get there
+  time: number;
+}
+
+export interface PrefetchResult {
+  narration: string;
+  // Places the narration talks about, so the guide doesn't repeat them
+  mentionedPoiIds: string[];
+}
+
+export interface PrefetchedNarration extends PrefetchResult {
+  id: string;
+  prediction: NarrationPrediction;
+}
+
+export interface NarrationPrefetcherStatus {
+  pending: number;
+  ready: number;
+  // Narrations released to the walker, and predictions thrown away
+  used: number;
+  discarded: number;
+}
+
+export interface NarrationPrefetcherOptions {
+  fetchNarration: (prediction: NarrationPrediction, signal: AbortSignal) => Promise<PrefetchResult>;
+  // How far apart two predictions may be and still count as the same narration point, in meters
+  tolerance?: number;
+}
+
+interface PrefetchEntry {
+  id: string;
+  prediction: NarrationPrediction;
+  result: PrefetchResult | null;
+  controller: AbortController;
+}
+
+// Lead time used before any reply has been timed
+const DEFAULT_NARRATION_LATENCY = 5000;
+// Predictions closer than this aren't worth prefetching, the live request is just as quick
+export const MIN_PREFETCH_LEAD = 2000;
+
+// How long before a narration is due to ask for it, with headroom over the last reply's latency
+export const getPrefetchLeadTime = (latencyMs: number | null): number =>
+  Math.max(MIN_PREFETCH_LEAD * 2, (latencyMs ?? DEFAULT_NARRATION_LATENCY) * 1.5);
+
+// Requests narrations ahead of the walker and holds them, one per route segment,
+// until the walker reaches the predicted point
+export class NarrationPrefetcher {
+  private readonly fetchNarration: NarrationPrefetcherOptions['fetchNarration'];
+  private readonly tolerance: number;
+  private readonly listeners = new Set<(status: NarrationPrefetcherStatus) => void>();
+  private entries = new Map<number, PrefetchEntry>();
+  private used = 0;
+  private discarded = 0;
+
+  constructor(options: NarrationPrefetcherOptions) {
+    this.fetchNarration = options.fetchNarration;
+    this.tolerance = options.tolerance ?? 25;
+  }
+
+  subscribe(listener: (status: NarrationPrefetcherStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): NarrationPrefetcherStatus {
+    const entries = [...this.entries.values()];
+    return {
+      pending: entries.filter(entry => !entry.result).length,
+      ready: entries.filter(entry => entry.result).length,
+      used: this.used,
+      discarded: this.discarded
+    };
+  }
+
+  // Request narration for a predicted point, dropping earlier predictions that no longer agree with it
+  prefetch(prediction: NarrationPrediction) {
+    const discardedBefore = this.discarded;
+    let hasMatch = false;
+    for (const entry of this.entries.values()) {
+      if (this.matches(entry.prediction, prediction.distance)) {
+        hasMatch = true;
+      } else {
+        this.discard(entry, 'prediction moved');
+      }
+    }
+    if (hasMatch) {
+      if (this.discarded !== discardedBefore) this.notify();
+      return;
+    }
+
+    const entry: PrefetchEntry = {
+      id: crypto.randomUUID(),
+      prediction,
+      result: null,
+      controller: new AbortController()
+    };
+    this.entries.set(prediction.segmentIndex, entry);
+    console.log(`Prefetching narration for ${Math.round(prediction.distance)} m, due in ${Math.round((prediction.time - Date.now()) / 1000)}s`);
+    this.notify();
+
+    this.fetchNarration(prediction, entry.controller.signal)
+      .then(result => {
+        if (this.entries.get(prediction.segmentIndex) !== entry) return;
+        entry.result = result;
+        this.notify();
+      })
+      .catch(error => {
+        if (this.entries.get(prediction.segmentIndex) !== entry) return;
+        if (!isAbortError(error)) {
+          console.error('Error prefetching narration:', error);
+        }
+        this.discard(entry, 'request failed');
+        this.notify();
+      });
+  }
+
+  // Hand over the narration prepared for where the walker is now, if one is ready.
+  // One that is still on its way is dropped so the caller can ask for a fresh one.
+  take(distance: number): PrefetchedNarration | null {
+    let found: PrefetchedNarration | null = null;
+    for (const entry of this.entries.values()) {
+      if (this.matches(entry.prediction, distance) && entry.result && !found) {
+        found = { id: entry.id, prediction: entry.prediction, ...entry.result };
+        this.entries.delete(entry.prediction.segmentIndex);
+        this.used++;
+      } else if (entry.prediction.distance <= distance + this.tolerance) {
+        // Already reached or passed without being used
+        this.discard(entry, entry.result ? 'passed' : 'not ready in time');
+      }
+    }
+    this.notify();
+    return found;
+  }
+
+  // Throw away every prediction, e.g. when the walker pauses or changes pace
+  clear(reason: string) {
+    if (this.entries.size === 0) return;
+    [...this.entries.values()].forEach(entry => this.discard(entry, reason));
+    this.notify();
+  }
+
+  // Start counting afresh for a new walk
+  reset() {
+    this.clear('new walk');
+    this.used = 0;
+    this.discarded = 0;
+    this.notify();
+  }
+
+  private matches(prediction: NarrationPrediction, distance: number): boolean {
+    return Math.abs(prediction.distance - distance) <= this.tolerance;
+  }
+
+  private discard(entry: PrefetchEntry, reason: string) {
+    if (this.entries.get(entry.prediction.segmentIndex) !== entry) return;
+    console.log(`Discarding prefetched narration for ${Math.round(entry.prediction.distance)} m: ${reason}`);
+    entry.controller.abort();
+    this.entries.delete(entry.prediction.segmentIndex);
+    this.discarded++;
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
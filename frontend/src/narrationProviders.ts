@@ -0,0 +1,400 @@
+import type { WalkContext } from './walkContext';
+import { describeListenerPreferences, type ListenerPreferences } from './listenerPreferences';
+import systemPromptTemplate from '../../system_prompt.txt?raw';
+
+export type NarrationProviderId = 'langflow' | 'openai' | 'mock';
+
+export interface NarrationRequest {
+  context: WalkContext;
+  preferences: ListenerPreferences;
+  // Set when the listener asked the guide something instead of waiting for a narration
+  question?: string;
+  sessionId: string;
+}
+
+// What was actually sent to the backend, for the request preview
+export interface NarrationCall {
+  url: string;
+  body: unknown;
+}
+
+export interface NarrationStreamHandlers {
+  signal?: AbortSignal;
+  // Called with the exact request before it is sent
+  onRequest?: (call: NarrationCall) => void;
+  // Called for each new piece of text, along with everything received so far
+  onToken?: (token: string, text: string) => void;
+  // Called once per complete sentence, so speech can start before the reply is done
+  onSentence?: (sentence: string) => void;
+}
+
+export interface NarrationProvider {
+  id: NarrationProviderId;
+  label: string;
+  // Resolves with the full narration once the reply is complete
+  narrate: (request: NarrationRequest, handlers?: NarrationStreamHandlers) => Promise<string>;
+}
+
+export interface NarrationSettings {
+  providerId: NarrationProviderId;
+  langflowBaseUrl: string;
+  langflowFlowId: string;
+  langflowApiKey: string;
+  // Component whose system_prompt is tweaked with the previous narration; empty sends no tweaks
+  langflowTweakComponent: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey: string;
+  // Ask the backend to stream tokens instead of returning the whole reply at once
+  stream: boolean;
+  // Give up on a request once the backend has been silent this long
+  timeoutSeconds: number;
+  // Extra attempts after a failed request, with exponential backoff between them
+  maxRetries: number;
+  // Request the next narration ahead of time on simulated walks
+  prefetch: boolean;
+}
+
+export const NARRATION_PROVIDER_LABELS: Record<NarrationProviderId, string> = {
+  langflow: 'LangFlow',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline mock'
+};
+
+export const DEFAULT_NARRATION_SETTINGS: NarrationSettings = {
+  providerId: 'langflow',
+  langflowBaseUrl: 'http://localhost:7860',
+  langflowFlowId: 'af5dbb48-ecb9-46ff-98cd-37ebd6d9b915',
+  langflowApiKey: '',
+  langflowTweakComponent: '',
+  openaiBaseUrl: 'https://api.openai.com/v1',
+  openaiModel: 'gpt-4o-mini',
+  openaiApiKey: '',
+  stream: true,
+  timeoutSeconds: 30,
+  maxRetries: 2,
+  prefetch: true
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Error raised when the narrator backend answers with an HTTP error status
+export class NarrationHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'NarrationHttpError';
+    this.status = status;
+  }
+}
+
+// Resolve after a delay, or reject as soon as the signal aborts
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Narration cancelled', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Narration cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+const SENTENCE_END = /[.!?…]+["'”’)]*\s+/g;
+
+// Split off the complete sentences in a piece of text, leaving any unfinished tail
+export const splitSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  return { sentences, rest: text.slice(start) };
+};
+
+// Accumulates streamed text and reports tokens and finished sentences to the handlers
+const createTextStream = (handlers: NarrationStreamHandlers) => {
+  let text = '';
+  let sentenceStart = 0;
+
+  return {
+    push: (token: string) => {
+      if (!token) return;
+      text += token;
+      handlers.onToken?.(token, text);
+
+      const { sentences, rest } = splitSentences(text.slice(sentenceStart));
+      sentences.forEach(sentence => handlers.onSentence?.(sentence));
+      sentenceStart = text.length - rest.length;
+    },
+    hasText: () => text.length > 0,
+    // Flush the last sentence, which may not end with whitespace
+    finish: (): string => {
+      const rest = text.slice(sentenceStart).trim();
+      if (rest) handlers.onSentence?.(rest);
+      sentenceStart = text.length;
+      return text.trim();
+    }
+  };
+};
+
+// Read a streamed response body line by line
+const readLines = async (response: Response, onLine: (line: string) => boolean | void) => {
+  if (!response.body) {
+    throw new Error('Streaming is not supported in this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = done ? [buffer] : buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      // Returning true from onLine stops reading early
+      if (line.trim() && onLine(line.trim()) === true) {
+        await reader.cancel();
+        return;
+      }
+    }
+    if (done) return;
+  }
+};
+
+// The system prompt shared with the LangFlow agent, with the previous narration and listener preferences filled in
+export const buildSystemPrompt = (request: NarrationRequest): string =>
+  `${systemPromptTemplate.replace('{memory}', request.context.previousNarration)}\n\n` +
+  `Listener preferences (these take priority over the guidance above):\n${describeListenerPreferences(request.preferences)}` +
+  (request.question ? `\n\nThe listener has asked you a question (listenerQuestion). Answer it directly, using the walk context where it helps.` : '');
+
+// Find the chat message in a LangFlow run response, whatever the flow layout
+export const extractLangFlowMessage = (data: unknown): string | null => {
+  if (!data || typeof data !== 'object') return null;
+  const node = data as Record<string, unknown>;
+
+  // Chat outputs carry the reply as results.message.text
+  const message = (node.results as { message?: { text?: unknown } } | undefined)?.message;
+  if (typeof message?.text === 'string') return message.text;
+
+  for (const value of Object.values(node)) {
+    const values = Array.isArray(value) ? value : [value];
+    for (const child of values) {
+      const text = extractLangFlowMessage(child);
+      if (text !== null) return text;
+    }
+  }
+  return null;
+};
+
+// The walk context and listener preferences as the chat input, so flows and models can read every field
+const serializeRequest = (request: NarrationRequest): string => JSON.stringify({
+  ...request.context,
+  ...(request.question ? { listenerQuestion: request.question } : {}),
+  listener: {
+    ...request.preferences,
+    instructions: describeListenerPreferences(request.preferences)
+  }
+});
+
+// A LangFlow flow run through its REST API
+export const createLangFlowProvider = (
+  baseUrl: string,
+  flowId: string,
+  apiKey: string,
+  tweakComponent: string,
+  stream: boolean
+): NarrationProvider => ({
+  id: 'langflow',
+  label: NARRATION_PROVIDER_LABELS.langflow,
+  narrate: async (request, handlers = {}) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (apiKey) {
+      headers['x-api-key'] = apiKey;
+    }
+
+    const url = `${trimTrailingSlash(baseUrl)}/api/v1/run/${flowId}${stream ? '?stream=true' : ''}`;
+    const body: Record<string, unknown> = {
+      input_value: serializeRequest(request),
+      output_type: 'chat',
+      input_type: 'chat',
+      session_id: request.sessionId
+    };
+    if (tweakComponent) {
+      body.tweaks = {
+        [tweakComponent]: { system_prompt: buildSystemPrompt(request) }
+      };
+    }
+    handlers.onRequest?.({ url, body });
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal: handlers.signal,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new NarrationHttpError(response.status, `LangFlow error: ${response.status} - make sure LangFlow is running at ${baseUrl}`);
+    }
+
+    const text = createTextStream(handlers);
+
+    if (!stream) {
+      const data = await response.json();
+      console.log('LangFlow response:', data);
+      text.push(extractLangFlowMessage(data) ?? '');
+    } else {
+      // Each line is a JSON event: token chunks while generating, then the full run result
+      await readLines(response, line => {
+        let event: { event?: string; data?: Record<string, unknown> };
+        try {
+          event = JSON.parse(line);
+        } catch {
+          console.log('Ignoring malformed LangFlow stream line:', line);
+          return;
+        }
+
+        if (event.event === 'token' && typeof event.data?.chunk === 'string') {
+          text.push(event.data.chunk);
+        } else if (event.event === 'error') {
+          throw new Error(`LangFlow error: ${String(event.data?.error ?? 'stream failed')}`);
+        } else if (event.event === 'end') {
+          console.log('LangFlow response:', event.data?.result);
+          // Flows whose model doesn't stream only deliver the text at the end
+          if (!text.hasText()) {
+            text.push(extractLangFlowMessage(event.data?.result) ?? '');
+          }
+          return true;
+        }
+      });
+    }
+
+    if (!text.hasText()) {
+      throw new Error('No chat message found in LangFlow response');
+    }
+    return text.finish();
+  }
+});
+
+// Any chat-completions endpoint that speaks the OpenAI API
+export const createOpenAIProvider = (baseUrl: string, model: string, apiKey: string, stream: boolean): NarrationProvider => ({
+  id: 'openai',
+  label: NARRATION_PROVIDER_LABELS.openai,
+  narrate: async (request, handlers = {}) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const url = `${trimTrailingSlash(baseUrl)}/chat/completions`;
+    const body = {
+      model,
+      stream,
+      messages: [
+        { role: 'system', content: buildSystemPrompt(request) },
+        { role: 'user', content: serializeRequest(request) }
+      ]
+    };
+    handlers.onRequest?.({ url, body });
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal: handlers.signal,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new NarrationHttpError(response.status, `Chat completions error: ${response.status}`);
+    }
+
+    const text = createTextStream(handlers);
+
+    if (!stream) {
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      text.push(typeof content === 'string' ? content : '');
+    } else {
+      // Server-sent events, one "data:" line per chunk and a final [DONE]
+      await readLines(response, line => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return true;
+
+        const chunk = JSON.parse(payload);
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (typeof content === 'string') {
+          text.push(content);
+        }
+      });
+    }
+
+    if (!text.hasText()) {
+      throw new Error('No message found in chat completions response');
+    }
+    return text.finish();
+  }
+});
+
+const MOCK_NARRATIONS = [
+  'You are passing a row of small shops here; the bakery on the corner is a local favourite for breakfast.',
+  'Look up at the facades along this stretch, many of them date back more than a century.',
+  'This street gets busy at lunchtime, when office workers spill out to the cafes nearby.',
+  'Keep an eye out for the mural a little further on, painted by a local artist a few years ago.',
+  'A small square opens up ahead, a good spot to pause if you fancy a rest.',
+  'The church tower you can see over the rooftops has been a landmark for generations.'
+];
+
+const MOCK_TOKEN_DELAY = 60;
+
+// Offline narrator that needs no server; the same position always gives the same text
+export const createMockNarrationProvider = (stream: boolean): NarrationProvider => ({
+  id: 'mock',
+  label: NARRATION_PROVIDER_LABELS.mock,
+  narrate: async (request, handlers = {}) => {
+    const { position, distanceWalked, percentComplete } = request.context;
+    const fullNarration = request.question
+      ? `Good question! You asked "${request.question}". (Mock answer at ${position.lat.toFixed(5)}, ${position.lng.toFixed(5)}, ${percentComplete}% of the way.)`
+      : `${MOCK_NARRATIONS[Math.floor(distanceWalked / 100) % MOCK_NARRATIONS.length]} (Mock narration at ${position.lat.toFixed(5)}, ${position.lng.toFixed(5)}, ${percentComplete}% of the way.)`;
+    // Respect the word limit like a real narrator would
+    const narration = fullNarration.split(' ').slice(0, request.preferences.maxWords).join(' ');
+    const text = createTextStream(handlers);
+    handlers.onRequest?.({ url: 'mock://narration', body: request });
+
+    // Stream word by word to behave like a real backend
+    const tokens = stream ? narration.split(/(?<=\s)/) : [narration];
+    for (const token of tokens) {
+      await wait(MOCK_TOKEN_DELAY, handlers.signal);
+      text.push(token);
+    }
+    return text.finish();
+  }
+});
+
+export const createNarrationProvider = (settings: NarrationSettings): NarrationProvider => {
+  switch (settings.providerId) {
+    case 'langflow':
+      return createLangFlowProvider(settings.langflowBaseUrl, settings.langflowFlowId, settings.langflowApiKey, settings.langflowTweakComponent, settings.stream);
+    case 'openai':
+      return createOpenAIProvider(settings.openaiBaseUrl, settings.openaiModel, settings.openaiApiKey, settings.stream);
+    case 'mock':
+      return createMockNarrationProvider(settings.stream);
+  }
+};
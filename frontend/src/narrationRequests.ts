@@ -0,0 +1,140 @@
+import type { UiStrings } from './i18n';
+import {
+  NarrationHttpError,
+  isAbortError,
+  wait,
+  type NarrationProvider,
+  type NarrationRequest,
+  type NarrationStreamHandlers
+} from './narrationProviders';
+
+export interface NarrationRetryOptions {
+  timeoutSeconds: number;
+  maxRetries: number;
+  // Called before waiting to try again, with the attempt about to be made (1 = first retry)
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 10000;
+
+// Error raised when the narrator goes quiet for longer than the request timeout
+export class NarrationTimeoutError extends Error {
+  readonly timeoutSeconds: number;
+
+  constructor(timeoutSeconds: number) {
+    super(`The narrator did not respond within ${timeoutSeconds} seconds`);
+    this.name = 'NarrationTimeoutError';
+    this.timeoutSeconds = timeoutSeconds;
+  }
+}
+
+// Timeouts, network failures and server-side errors are worth another try; bad settings are not
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof NarrationTimeoutError) return true;
+  if (error instanceof NarrationHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  // fetch rejects with a TypeError when the server can't be reached at all
+  return error instanceof TypeError;
+};
+
+// One attempt, aborted when the outer signal aborts or the backend stays silent too long.
+// The timer restarts on every token so a slow but steady stream isn't cut off.
+const narrateWithTimeout = async (
+  provider: NarrationProvider,
+  request: NarrationRequest,
+  handlers: NarrationStreamHandlers,
+  timeoutSeconds: number
+): Promise<string> => {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  if (handlers.signal?.aborted) {
+    controller.abort();
+  }
+  handlers.signal?.addEventListener('abort', cancel, { once: true });
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutSeconds * 1000);
+  };
+  restartTimer();
+
+  try {
+    return await provider.narrate(request, {
+      ...handlers,
+      signal: controller.signal,
+      onToken: (token, text) => {
+        restartTimer();
+        handlers.onToken?.(token, text);
+      }
+    });
+  } catch (error) {
+    if (timedOut && !handlers.signal?.aborted) {
+      throw new NarrationTimeoutError(timeoutSeconds);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    handlers.signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// Ask the provider for a narration, retrying with exponential backoff.
+// Once any text has streamed in it has been shown and spoken, so a failure after that is final.
+export const narrateWithRetries = async (
+  provider: NarrationProvider,
+  request: NarrationRequest,
+  handlers: NarrationStreamHandlers,
+  options: NarrationRetryOptions
+): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    let hasStreamed = false;
+    try {
+      return await narrateWithTimeout(provider, request, {
+        ...handlers,
+        onToken: (token, text) => {
+          hasStreamed = true;
+          handlers.onToken?.(token, text);
+        }
+      }, options.timeoutSeconds);
+    } catch (error) {
+      if (isAbortError(error) || hasStreamed || attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+      console.log(`Narration attempt ${attempt + 1} failed, retrying in ${delay} ms:`, error);
+      options.onRetry?.(attempt + 1, delay, error);
+      await wait(delay, handlers.signal);
+    }
+  }
+};
+
+export type NarratorHealthStatus = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface NarratorHealth {
+  status: NarratorHealthStatus;
+  // How long the last successful request took, including any retries
+  latencyMs: number | null;
+  lastError: string | null;
+}
+
+export const INITIAL_NARRATOR_HEALTH: NarratorHealth = {
+  status: 'unknown',
+  latencyMs: null,
+  lastError: null
+};
+
+export const describeNarratorHealth = (health: NarratorHealth, t: UiStrings): string => {
+  const label = t.narratorHealthStates[health.status];
+  if (health.status === 'down' && health.lastError) return `${label} (${health.lastError})`;
+  if (health.latencyMs !== null && health.status !== 'unknown') {
+    return `${label} · ${(health.latencyMs / 1000).toFixed(1)}s`;
+  }
+  return label;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Coordinate } from './types';
+import { buildManeuvers } from './maneuvers';
+import { DEFAULT_NARRATION_TRIGGER_SETTINGS, NarrationTriggerEngine, type NarrationTrigger } from './narrationTriggers';
+import { createRouteIndex } from './walkSimulator';
+
+// Heads east for about 333 m, then turns north for about 333 m
+const route: Coordinate[] = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 0.001 },
+  { lat: 0, lng: 0.002 },
+  { lat: 0, lng: 0.003 },
+  { lat: 0.001, lng: 0.003 },
+  { lat: 0.002, lng: 0.003 },
+  { lat: 0.003, lng: 0.003 }
+];
+
+const createEngine = () => new NarrationTriggerEngine(route, buildManeuvers(route, []), {
+  ...DEFAULT_NARRATION_TRIGGER_SETTINGS,
+  maneuverEnabled: true
+}, 0);
+
+const at = (seconds: number, distance: number) => ({ now: seconds * 1000, distance, segmentIndex: 0 });
+
+// What the app does with a trigger while another narration is still in flight
+const fireWhileBusy = (engine: NarrationTriggerEngine, context: ReturnType<typeof at>): NarrationTrigger | null => {
+  const trigger = engine.evaluate(context);
+  if (trigger) engine.holdTrigger(trigger);
+  return trigger;
+};
+
+describe('NarrationTriggerEngine while a narration is in flight', () => {
+  it('holds the trigger without resetting its timer', () => {
+    const engine = createEngine();
+    engine.recordNarration(at(0, 0), { reason: 'start', key: 'arrival:start' });
+
+    expect(fireWhileBusy(engine, at(25, 50))?.reason).toBe('time');
+    expect(engine.getNextTimedNarration()).toBe(20000);
+    // Still due on the next check, so nothing was used up
+    expect(engine.evaluate(at(26, 52))?.reason).toBe('time');
+
+    const held = engine.takeHeldTrigger();
+    expect(held?.reason).toBe('time');
+    expect(engine.takeHeldTrigger()).toBeNull();
+  });
+
+  it('keeps a turn announcement the walker passes before the narration in flight is done', () => {
+    const engine = createEngine();
+    engine.recordNarration(at(0, 0), { reason: 'start', key: 'arrival:start' });
+
+    const turn = fireWhileBusy(engine, at(10, 310));
+    expect(turn?.reason).toBe('maneuver');
+    // Past the turn, a timed narration comes due but doesn't push the turn out
+    expect(fireWhileBusy(engine, at(30, 360))?.reason).toBe('time');
+
+    const held = engine.takeHeldTrigger();
+    expect(held).toBe(turn);
+    if (held) engine.recordNarration(at(31, 362), held);
+    expect(engine.getSnapshot().firedKeys).toContain(turn?.key);
+  });
+
+  it('sends the arrival once the narration in flight is done', () => {
+    const engine = createEngine();
+    engine.recordNarration(at(0, 0), { reason: 'start', key: 'arrival:start' });
+    const total = createRouteIndex(route).totalDistance;
+
+    expect(fireWhileBusy(engine, at(2, total - 10))?.reason).toBe('arrival');
+    expect(engine.takeHeldTrigger()?.key).toBe('arrival:end');
+  });
+});
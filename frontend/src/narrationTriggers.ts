@@ -0,0 +1,306 @@
+import type { Coordinate } from './types';
+import type { UiStrings } from './i18n';
+import { findNextManeuver, formatManeuverInstruction, isAnnouncedManeuver, type Maneuver } from './maneuvers';
+import { createRouteIndex, type RouteIndex } from './walkSimulator';
+
+export type NarrationTriggerReason = 'start' | 'arrival' | 'time' | 'distance' | 'maneuver' | 'off-route' | 'question';
+
+export interface NarrationTrigger {
+  reason: NarrationTriggerReason;
+  // Seconds or meters the trigger fired after, meters to go for arrivals and turns, or meters off route
+  amount?: number;
+  // The turn being announced, for maneuver triggers
+  maneuver?: Maneuver;
+  // One-shot triggers carry a key so they fire only once per walk
+  key?: string;
+  // Fire even if the minimum gap since the last narration has not passed
+  bypassMinGap?: boolean;
+}
+
+export interface NarrationTriggerContext {
+  now: number;
+  // Meters walked along the route
+  distance: number;
+  segmentIndex: number;
+}
+
+export interface NarrationHistory {
+  // When the walk started, so timed narrations have something to count from
+  startTime: number;
+  lastTime: number | null;
+  lastDistance: number;
+  firedKeys: Set<string>;
+}
+
+// Plain-data copy of a NarrationHistory, so a walk can be picked up after a reload
+export interface NarrationHistorySnapshot {
+  startTime: number;
+  lastTime: number | null;
+  lastDistance: number;
+  firedKeys: string[];
+}
+
+// Where and when the next narration is expected to fire
+export interface NarrationForecast {
+  // Meters along the route
+  distance: number;
+  time: number;
+}
+
+export interface NarrationRoute {
+  coordinates: Coordinate[];
+  routeIndex: RouteIndex;
+  maneuvers: Maneuver[];
+}
+
+export interface NarrationTriggerPolicy {
+  id: string;
+  evaluate: (context: NarrationTriggerContext, history: NarrationHistory, route: NarrationRoute) => NarrationTrigger | null;
+}
+
+export interface NarrationTriggerSettings {
+  timeEnabled: boolean;
+  intervalSeconds: number;
+  distanceEnabled: boolean;
+  distanceMeters: number;
+  maneuverEnabled: boolean;
+  // Announce a turn when it is this many meters ahead
+  maneuverLookaheadMeters: number;
+  arrivalEnabled: boolean;
+  // Announce the arrival when this many meters remain
+  arrivalRadiusMeters: number;
+  minGapSeconds: number;
+}
+
+export const DEFAULT_NARRATION_TRIGGER_SETTINGS: NarrationTriggerSettings = {
+  timeEnabled: true,
+  intervalSeconds: 20,
+  distanceEnabled: false,
+  distanceMeters: 150,
+  maneuverEnabled: false,
+  maneuverLookaheadMeters: 40,
+  arrivalEnabled: true,
+  arrivalRadiusMeters: 30,
+  minGapSeconds: 8
+};
+
+// Narrate at a fixed time interval
+export const createTimePolicy = (intervalSeconds: number): NarrationTriggerPolicy => ({
+  id: 'time',
+  evaluate: (context, history) => {
+    if (context.now - (history.lastTime ?? history.startTime) < intervalSeconds * 1000) return null;
+    return { reason: 'time', amount: intervalSeconds };
+  }
+});
+
+// Narrate every N meters walked
+export const createDistancePolicy = (everyMeters: number): NarrationTriggerPolicy => ({
+  id: 'distance',
+  evaluate: (context, history) => {
+    if (context.distance - history.lastDistance < everyMeters) return null;
+    return { reason: 'distance', amount: everyMeters };
+  }
+});
+
+const getManeuverKey = (maneuver: Maneuver) => `maneuver:${maneuver.coordinateIndex}`;
+
+// Narrate just before the next turn-by-turn maneuver
+export const createManeuverPolicy = (lookaheadMeters: number): NarrationTriggerPolicy => ({
+  id: 'maneuver',
+  evaluate: (context, _history, { maneuvers }) => {
+    const maneuver = findNextManeuver(maneuvers.filter(isAnnouncedManeuver), context.distance);
+    if (!maneuver) return null;
+
+    const distanceAhead = maneuver.distanceFromStart - context.distance;
+    if (distanceAhead > lookaheadMeters) return null;
+    return {
+      reason: 'maneuver',
+      amount: distanceAhead,
+      maneuver,
+      key: getManeuverKey(maneuver)
+    };
+  }
+});
+
+// Narrate at the start of the route and when approaching its end
+export const createArrivalPolicy = (radiusMeters: number): NarrationTriggerPolicy => ({
+  id: 'arrival',
+  evaluate: (context, history, { routeIndex }) => {
+    if (history.lastTime === null) {
+      return { reason: 'start', key: 'arrival:start', bypassMinGap: true };
+    }
+    const remaining = routeIndex.totalDistance - context.distance;
+    if (remaining <= radiusMeters) {
+      return {
+        reason: 'arrival',
+        amount: Math.max(0, remaining),
+        key: 'arrival:end',
+        bypassMinGap: true
+      };
+    }
+    return null;
+  }
+});
+
+export const createPoliciesFromSettings = (settings: NarrationTriggerSettings): NarrationTriggerPolicy[] => {
+  // Earlier policies win when several want to fire on the same tick
+  const policies: NarrationTriggerPolicy[] = [];
+  if (settings.arrivalEnabled) policies.push(createArrivalPolicy(settings.arrivalRadiusMeters));
+  if (settings.maneuverEnabled) policies.push(createManeuverPolicy(settings.maneuverLookaheadMeters));
+  if (settings.distanceEnabled) policies.push(createDistancePolicy(settings.distanceMeters));
+  if (settings.timeEnabled) policies.push(createTimePolicy(settings.intervalSeconds));
+  return policies;
+};
+
+export const describeNarrationSettings = (settings: NarrationTriggerSettings, t: UiStrings): string => {
+  const parts: string[] = [];
+  if (settings.timeEnabled) parts.push(t.narrateEverySeconds(settings.intervalSeconds));
+  if (settings.distanceEnabled) parts.push(t.narrateEveryMeters(settings.distanceMeters));
+  if (settings.maneuverEnabled) parts.push(t.narrateBeforeTurns);
+  if (settings.arrivalEnabled) parts.push(t.narrateAtStartAndEnd);
+  return parts.length > 0 ? parts.join(', ') : t.narrationOff;
+};
+
+// Human-readable explanation of a trigger, shown in the walking status
+export const describeNarrationTrigger = (trigger: NarrationTrigger, t: UiStrings): string => {
+  const amount = Math.round(trigger.amount ?? 0);
+  switch (trigger.reason) {
+    case 'start':
+      return t.triggerStart;
+    case 'arrival':
+      return t.triggerArrival(amount);
+    case 'time':
+      return t.triggerTime(amount);
+    case 'distance':
+      return t.triggerDistance(amount);
+    case 'maneuver':
+      return trigger.maneuver
+        ? t.triggerManeuver(formatManeuverInstruction(trigger.maneuver, t.instructions), amount)
+        : t.narrationReasons.maneuver;
+    case 'off-route':
+      return t.triggerOffRoute(amount);
+    case 'question':
+      return t.triggerQuestion;
+  }
+};
+
+// Combines trigger policies with a minimum gap between narrations
+export class NarrationTriggerEngine {
+  private readonly route: NarrationRoute;
+  private settings: NarrationTriggerSettings;
+  private policies: NarrationTriggerPolicy[];
+  private history: NarrationHistory;
+  // Fired while another narration was still on its way, and waiting to be sent
+  private heldTrigger: NarrationTrigger | null = null;
+
+  constructor(coordinates: Coordinate[], maneuvers: Maneuver[], settings: NarrationTriggerSettings, startTime = Date.now()) {
+    this.route = { coordinates, routeIndex: createRouteIndex(coordinates), maneuvers };
+    this.settings = settings;
+    this.policies = createPoliciesFromSettings(settings);
+    this.history = { startTime, lastTime: null, lastDistance: 0, firedKeys: new Set() };
+  }
+
+  // Swap in new settings mid-walk without forgetting what was already narrated
+  updateSettings(settings: NarrationTriggerSettings) {
+    this.settings = settings;
+    this.policies = createPoliciesFromSettings(settings);
+  }
+
+  // When the time policy will next fire, or null if it is turned off
+  getNextTimedNarration(): number | null {
+    if (!this.settings.timeEnabled) return null;
+    return (this.history.lastTime ?? this.history.startTime) + this.settings.intervalSeconds * 1000;
+  }
+
+  evaluate(context: NarrationTriggerContext): NarrationTrigger | null {
+    const gapPassed = this.history.lastTime === null ||
+      context.now - this.history.lastTime >= this.settings.minGapSeconds * 1000;
+
+    for (const policy of this.policies) {
+      const trigger = policy.evaluate(context, this.history, this.route);
+      if (!trigger || (trigger.key && this.history.firedKeys.has(trigger.key))) continue;
+      if (!gapPassed && !trigger.bypassMinGap) continue;
+      return trigger;
+    }
+    return null;
+  }
+
+  // Keep a trigger that can't be sent yet instead of recording it unsent.
+  // One-shot triggers aren't given up for a regular one, which will come round again anyway.
+  holdTrigger(trigger: NarrationTrigger) {
+    if (this.heldTrigger?.key && !trigger.key) return;
+    this.heldTrigger = trigger;
+  }
+
+  takeHeldTrigger(): NarrationTrigger | null {
+    const trigger = this.heldTrigger;
+    this.heldTrigger = null;
+    return trigger;
+  }
+
+  // Predict the next narration for a walker keeping this speed in m/s.
+  // Off-route narrations and questions can't be foreseen, so only the route-based policies count.
+  predictNextNarration(context: NarrationTriggerContext, speed: number): NarrationForecast | null {
+    if (speed <= 0 || this.history.lastTime === null) return null;
+
+    const { routeIndex, maneuvers } = this.route;
+    const atDistance = (distance: number): NarrationForecast => ({
+      distance,
+      time: context.now + (Math.max(0, distance - context.distance) / speed) * 1000
+    });
+    const atTime = (time: number): NarrationForecast => ({
+      distance: context.distance + (speed * Math.max(0, time - context.now)) / 1000,
+      time
+    });
+    // Regular narrations also have to wait out the minimum gap
+    const afterGap = (forecast: NarrationForecast): NarrationForecast => {
+      const earliest = (this.history.lastTime ?? context.now) + this.settings.minGapSeconds * 1000;
+      return forecast.time < earliest ? atTime(earliest) : forecast;
+    };
+
+    const forecasts: NarrationForecast[] = [];
+    const nextTimed = this.getNextTimedNarration();
+    if (nextTimed !== null) {
+      forecasts.push(afterGap(atTime(nextTimed)));
+    }
+    if (this.settings.distanceEnabled) {
+      forecasts.push(afterGap(atDistance(this.history.lastDistance + this.settings.distanceMeters)));
+    }
+    if (this.settings.maneuverEnabled) {
+      const maneuver = maneuvers.filter(isAnnouncedManeuver).find(candidate =>
+        candidate.type !== 'depart' &&
+        candidate.distanceFromStart > context.distance &&
+        !this.history.firedKeys.has(getManeuverKey(candidate))
+      );
+      if (maneuver) {
+        forecasts.push(afterGap(atDistance(maneuver.distanceFromStart - this.settings.maneuverLookaheadMeters)));
+      }
+    }
+    if (this.settings.arrivalEnabled && !this.history.firedKeys.has('arrival:end')) {
+      forecasts.push(atDistance(routeIndex.totalDistance - this.settings.arrivalRadiusMeters));
+    }
+
+    const reachable = forecasts.filter(forecast => forecast.distance <= routeIndex.totalDistance);
+    if (reachable.length === 0) return null;
+    return reachable.reduce((earliest, forecast) => forecast.time < earliest.time ? forecast : earliest);
+  }
+
+  getSnapshot(): NarrationHistorySnapshot {
+    return { ...this.history, firedKeys: [...this.history.firedKeys] };
+  }
+
+  // Continue from a saved history, e.g. when resuming a walk
+  restoreSnapshot(snapshot: NarrationHistorySnapshot) {
+    this.history = { ...snapshot, firedKeys: new Set(snapshot.firedKeys) };
+  }
+
+  // Record that a narration was requested, whatever triggered it
+  recordNarration(context: NarrationTriggerContext, trigger: NarrationTrigger) {
+    this.history = {
+      ...this.history,
+      lastTime: context.now,
+      lastDistance: context.distance,
+      firedKeys: trigger.key ? new Set([...this.history.firedKeys, trigger.key]) : this.history.firedKeys
+    };
+  }
+}
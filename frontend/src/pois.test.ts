@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PoiCache, type PoiProvider, type PointOfInterest } from './pois';
+
+const museum: PointOfInterest = {
+  id: 'node/1',
+  name: 'City Museum',
+  category: 'tourism=museum',
+  coordinate: { lat: 0.0021, lng: 0.0021 }
+};
+
+// Never answers unless aborted, like a server that has stopped responding
+const hangingSearch: PoiProvider['search'] = (_bounds, signal) =>
+  new Promise((_resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+
+const createProvider = (search: PoiProvider['search']): PoiProvider => ({ id: 'overpass', label: 'Test', search });
+
+describe('PoiCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns nearby POIs closest first', async () => {
+    const cache = new PoiCache(createProvider(async () => [museum]));
+    const pois = await cache.getNearby({ lat: 0.002, lng: 0.002 }, 150);
+    expect(pois.map(poi => poi.id)).toEqual(['node/1']);
+    expect(pois[0].distance).toBeGreaterThan(0);
+  });
+
+  it('gives up on a lookup that takes too long', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = new PoiCache(createProvider(hangingSearch), 1000);
+
+    const lookup = cache.getNearby({ lat: 0.002, lng: 0.002 }, 150);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(lookup).resolves.toEqual([]);
+  });
+
+  it('tries a tile that timed out again next time', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const search = vi.fn<PoiProvider['search']>(hangingSearch);
+    const cache = new PoiCache(createProvider(search), 1000);
+
+    const lookup = cache.getNearby({ lat: 0.002, lng: 0.002 }, 150);
+    await vi.advanceTimersByTimeAsync(1000);
+    await lookup;
+
+    search.mockImplementation(async () => [museum]);
+    await expect(cache.getNearby({ lat: 0.002, lng: 0.002 }, 150)).resolves.toHaveLength(1);
+  });
+
+  it('stops waiting when one caller aborts without cancelling the lookup for the others', async () => {
+    let answer: (pois: PointOfInterest[]) => void = () => {};
+    const search = vi.fn<PoiProvider['search']>(() => new Promise(resolve => { answer = resolve; }));
+    const cache = new PoiCache(createProvider(search));
+    const controller = new AbortController();
+
+    const first = cache.getNearby({ lat: 0.002, lng: 0.002 }, 150, controller.signal);
+    const second = cache.getNearby({ lat: 0.002, lng: 0.002 }, 150);
+    controller.abort();
+    await expect(first).resolves.toEqual([]);
+
+    answer([museum]);
+    await expect(second).resolves.toHaveLength(1);
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(search.mock.calls[0][1]?.aborted).toBe(false);
+  });
+});
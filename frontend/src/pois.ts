@@ -0,0 +1,287 @@
+import type { Coordinate } from './types';
+import { calculateBearing, calculateDistance, getDirectionName } from './geo';
+
+export type PoiProviderId = 'overpass' | 'nominatim';
+
+export interface PointOfInterest {
+  // Stable across lookups, e.g. "node/123"
+  id: string;
+  name: string;
+  // OSM tag describing the feature, e.g. "tourism=museum"
+  category: string;
+  coordinate: Coordinate;
+}
+
+export interface PoiBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface PoiProvider {
+  id: PoiProviderId;
+  label: string;
+  search: (bounds: PoiBounds, signal?: AbortSignal) => Promise<PointOfInterest[]>;
+}
+
+export interface PoiSettings {
+  enabled: boolean;
+  providerId: PoiProviderId;
+  overpassUrl: string;
+  nominatimUrl: string;
+  // Meters around the walker to look for POIs
+  radius: number;
+  // How many unmentioned POIs go into each narration request
+  maxPerRequest: number;
+}
+
+export const POI_PROVIDER_LABELS: Record<PoiProviderId, string> = {
+  overpass: 'Overpass',
+  nominatim: 'Nominatim'
+};
+
+export const DEFAULT_POI_SETTINGS: PoiSettings = {
+  enabled: true,
+  providerId: 'overpass',
+  overpassUrl: 'https://overpass-api.de/api/interpreter',
+  nominatimUrl: 'https://nominatim.openstreetmap.org',
+  radius: 150,
+  maxPerRequest: 3
+};
+
+// OSM keys whose named features are worth a guide's attention
+const POI_KEYS = ['tourism', 'historic', 'amenity', 'leisure', 'shop', 'artwork_type'];
+
+// Searched one at a time with Nominatim, which has no "everything nearby" query
+const NOMINATIM_KEYWORDS = ['attraction', 'museum', 'monument', 'cafe', 'park'];
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+interface OverpassElement {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+// Overpass API, or any server that accepts the same QL queries
+export const createOverpassProvider = (url: string): PoiProvider => ({
+  id: 'overpass',
+  label: POI_PROVIDER_LABELS.overpass,
+  search: async ({ south, west, north, east }, signal) => {
+    const bbox = `${south},${west},${north},${east}`;
+    const query = `[out:json][timeout:25];nwr[name][~"^(${POI_KEYS.join('|')})$"~"."](${bbox});out center 200;`;
+    console.log('Calling Overpass API for POIs in', bbox);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ data: query }).toString(),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Overpass API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const elements: OverpassElement[] = data.elements ?? [];
+    return elements.flatMap(element => {
+      const lat = element.lat ?? element.center?.lat;
+      const lng = element.lon ?? element.center?.lon;
+      const name = element.tags?.name;
+      if (lat === undefined || lng === undefined || !name) return [];
+
+      const key = POI_KEYS.find(poiKey => element.tags?.[poiKey]) ?? 'place';
+      return [{
+        id: `${element.type}/${element.id}`,
+        name,
+        category: `${key}=${element.tags?.[key] ?? 'yes'}`,
+        coordinate: { lat, lng }
+      }];
+    });
+  }
+});
+
+interface NominatimPlace {
+  osm_type: string;
+  osm_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  category?: string;
+  type?: string;
+}
+
+// Nominatim search limited to the tile's bounding box
+export const createNominatimProvider = (url: string): PoiProvider => ({
+  id: 'nominatim',
+  label: POI_PROVIDER_LABELS.nominatim,
+  search: async ({ south, west, north, east }, signal) => {
+    const pois: PointOfInterest[] = [];
+    for (const keyword of NOMINATIM_KEYWORDS) {
+      const params = new URLSearchParams({
+        q: keyword,
+        format: 'jsonv2',
+        viewbox: `${west},${north},${east},${south}`,
+        bounded: '1',
+        limit: '20'
+      });
+      const response = await fetch(`${trimTrailingSlash(url)}/search?${params.toString()}`, {
+        headers: {
+          'Accept': 'application/json'
+        },
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Nominatim error: ${response.status}`);
+      }
+
+      const places: NominatimPlace[] = await response.json();
+      for (const place of places) {
+        pois.push({
+          id: `${place.osm_type}/${place.osm_id}`,
+          name: place.name || place.display_name.split(',')[0],
+          category: `${place.category ?? 'place'}=${place.type ?? 'yes'}`,
+          coordinate: { lat: Number(place.lat), lng: Number(place.lon) }
+        });
+      }
+    }
+    return pois;
+  }
+});
+
+export const createPoiProvider = (settings: Pick<PoiSettings, 'providerId' | 'overpassUrl' | 'nominatimUrl'>): PoiProvider => {
+  switch (settings.providerId) {
+    case 'overpass':
+      return createOverpassProvider(settings.overpassUrl);
+    case 'nominatim':
+      return createNominatimProvider(settings.nominatimUrl);
+  }
+};
+
+// Tiles of about 500 m, so a walk touches only a handful of lookups
+const TILE_SIZE_DEGREES = 0.005;
+
+// Milliseconds a tile lookup may take before the narration goes ahead without it
+export const POI_LOOKUP_TIMEOUT = 5000;
+
+const getTileKey = (row: number, column: number) => `${row}:${column}`;
+
+const getTileBounds = (row: number, column: number): PoiBounds => ({
+  south: row * TILE_SIZE_DEGREES,
+  west: column * TILE_SIZE_DEGREES,
+  north: (row + 1) * TILE_SIZE_DEGREES,
+  east: (column + 1) * TILE_SIZE_DEGREES
+});
+
+export interface NearbyPoi extends PointOfInterest {
+  // Meters from the walker
+  distance: number;
+  // Compass direction from the walker, e.g. "NE"
+  direction: string;
+}
+
+// A tile lookup, or no POIs as soon as the signal aborts
+const waitUnlessAborted = (request: Promise<PointOfInterest[]>, signal?: AbortSignal): Promise<PointOfInterest[]> => {
+  if (!signal) return request;
+  return new Promise(resolve => {
+    const stopWaiting = () => resolve([]);
+    signal.addEventListener('abort', stopWaiting, { once: true });
+    request.then(resolve).finally(() => signal.removeEventListener('abort', stopWaiting));
+  });
+};
+
+// Looks up POIs tile by tile, asking the provider for each tile only once
+export class PoiCache {
+  private readonly provider: PoiProvider;
+  private readonly timeout: number;
+  private readonly tiles = new Map<string, Promise<PointOfInterest[]>>();
+  private readonly loaded = new Map<string, PointOfInterest>();
+
+  constructor(provider: PoiProvider, timeout = POI_LOOKUP_TIMEOUT) {
+    this.provider = provider;
+    this.timeout = timeout;
+  }
+
+  // Every POI fetched so far, for drawing on the map
+  getLoadedPois(): PointOfInterest[] {
+    return [...this.loaded.values()];
+  }
+
+  // POIs within radius meters of a point, closest first. Tiles that fail or time out are left
+  // out rather than holding up the caller, and aborting the signal stops waiting for the rest.
+  async getNearby(center: Coordinate, radius: number, signal?: AbortSignal): Promise<NearbyPoi[]> {
+    if (signal?.aborted) return [];
+    const latMargin = radius / 111320;
+    const lngMargin = radius / (111320 * Math.cos(center.lat * Math.PI / 180));
+    const minRow = Math.floor((center.lat - latMargin) / TILE_SIZE_DEGREES);
+    const maxRow = Math.floor((center.lat + latMargin) / TILE_SIZE_DEGREES);
+    const minColumn = Math.floor((center.lng - lngMargin) / TILE_SIZE_DEGREES);
+    const maxColumn = Math.floor((center.lng + lngMargin) / TILE_SIZE_DEGREES);
+
+    const tiles: Promise<PointOfInterest[]>[] = [];
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        tiles.push(waitUnlessAborted(this.loadTile(row, column), signal));
+      }
+    }
+
+    const pois = new Map<string, PointOfInterest>();
+    (await Promise.all(tiles)).flat().forEach(poi => pois.set(poi.id, poi));
+
+    return [...pois.values()]
+      .map(poi => ({
+        ...poi,
+        distance: calculateDistance(center, poi.coordinate),
+        direction: getDirectionName(calculateBearing(center, poi.coordinate))
+      }))
+      .filter(poi => poi.distance <= radius)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  // Tiles are shared between callers, so only the timeout cancels a lookup; a caller that
+  // gives up stops waiting for it instead
+  private loadTile(row: number, column: number): Promise<PointOfInterest[]> {
+    const key = getTileKey(row, column);
+    const cached = this.tiles.get(key);
+    if (cached) return cached;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+
+    const request = this.provider.search(getTileBounds(row, column), controller.signal)
+      .then(pois => {
+        pois.forEach(poi => this.loaded.set(poi.id, poi));
+        return pois;
+      })
+      .catch(error => {
+        // Forget the failure so the tile is tried again next time
+        if (timedOut) {
+          console.error(`POI lookup from ${this.provider.label} timed out after ${this.timeout / 1000}s`);
+        } else {
+          console.error(`Error loading POIs from ${this.provider.label}:`, error);
+        }
+        this.tiles.delete(key);
+        return [];
+      })
+      .finally(() => clearTimeout(timer));
+    this.tiles.set(key, request);
+    return request;
+  }
+}
+
+// Whether a narration talks about a POI, judged by its name appearing in the text
+export const isPoiMentioned = (poi: PointOfInterest, narration: string): boolean =>
+  narration.toLowerCase().includes(poi.name.toLowerCase());
@@ -0,0 +1,92 @@
+import type { Coordinate } from './types';
+import { routeLeg, type RouteLeg, type RoutingProvider } from './routing';
+
+// Waypoints plus the routed leg between each consecutive pair
+export interface EditableRoute {
+  waypoints: Coordinate[];
+  legs: RouteLeg[];
+}
+
+export type RouteEdit =
+  | { type: 'add'; coordinate: Coordinate }
+  | { type: 'move'; index: number; coordinate: Coordinate }
+  | { type: 'remove'; index: number }
+  | { type: 'insert'; legIndex: number; coordinate: Coordinate };
+
+export interface RouteHistory {
+  past: EditableRoute[];
+  future: EditableRoute[];
+}
+
+export const MAX_ROUTE_HISTORY = 50;
+
+export const EMPTY_ROUTE: EditableRoute = { waypoints: [], legs: [] };
+
+export const EMPTY_ROUTE_HISTORY: RouteHistory = { past: [], future: [] };
+
+// Apply an edit to the route, re-routing only the legs that touch the changed waypoint
+export const applyRouteEdit = async (
+  provider: RoutingProvider,
+  route: EditableRoute,
+  edit: RouteEdit
+): Promise<EditableRoute> => {
+  const { waypoints, legs } = route;
+
+  switch (edit.type) {
+    case 'add': {
+      const last = waypoints[waypoints.length - 1];
+      const newLegs = last ? [...legs, await routeLeg(provider, last, edit.coordinate)] : legs;
+      return { waypoints: [...waypoints, edit.coordinate], legs: newLegs };
+    }
+
+    case 'move': {
+      const { index, coordinate } = edit;
+      const newWaypoints = waypoints.map((waypoint, i) => (i === index ? coordinate : waypoint));
+      const [legBefore, legAfter] = await Promise.all([
+        index > 0 ? routeLeg(provider, newWaypoints[index - 1], coordinate) : null,
+        index < waypoints.length - 1 ? routeLeg(provider, coordinate, newWaypoints[index + 1]) : null
+      ]);
+      const newLegs = legs.map((leg, i) => {
+        if (i === index - 1 && legBefore) return legBefore;
+        if (i === index && legAfter) return legAfter;
+        return leg;
+      });
+      return { waypoints: newWaypoints, legs: newLegs };
+    }
+
+    case 'remove': {
+      const { index } = edit;
+      const newWaypoints = waypoints.filter((_, i) => i !== index);
+      if (index === 0) {
+        return { waypoints: newWaypoints, legs: legs.slice(1) };
+      }
+      if (index === waypoints.length - 1) {
+        return { waypoints: newWaypoints, legs: legs.slice(0, -1) };
+      }
+      // Join the neighbours of the removed via point with a single new leg
+      const joinedLeg = await routeLeg(provider, waypoints[index - 1], waypoints[index + 1]);
+      return {
+        waypoints: newWaypoints,
+        legs: [...legs.slice(0, index - 1), joinedLeg, ...legs.slice(index + 1)]
+      };
+    }
+
+    case 'insert': {
+      const { legIndex, coordinate } = edit;
+      const [firstHalf, secondHalf] = await Promise.all([
+        routeLeg(provider, waypoints[legIndex], coordinate),
+        routeLeg(provider, coordinate, waypoints[legIndex + 1])
+      ]);
+      return {
+        waypoints: [...waypoints.slice(0, legIndex + 1), coordinate, ...waypoints.slice(legIndex + 1)],
+        legs: [...legs.slice(0, legIndex), firstHalf, secondHalf, ...legs.slice(legIndex + 1)]
+      };
+    }
+  }
+};
+
+// Record the route being replaced so the edit can be undone
+export const pushRouteHistory = (history: RouteHistory, previous: EditableRoute): RouteHistory => ({
+  past: [...history.past, previous].slice(-MAX_ROUTE_HISTORY),
+  future: []
+});
@@ -0,0 +1,108 @@
+import type { AIResponse, Coordinate, TrackPoint } from './types';
+
+export type ExportFormat = 'gpx' | 'geojson';
+
+const GPX_CREATOR = 'WalkRadio';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const gpxDocument = (body: string[]): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${GPX_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    ...body,
+    '</gpx>',
+    ''
+  ].join('\n');
+
+const toPosition = (coord: Coordinate): number[] =>
+  coord.elevation !== undefined ? [coord.lng, coord.lat, coord.elevation] : [coord.lng, coord.lat];
+
+// Narrations that were produced at a known position, oldest first
+const narrationWaypoints = (responses: AIResponse[]) =>
+  responses
+    .filter((response): response is AIResponse & { coordinate: Coordinate } => response.coordinate !== undefined)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Planned route as a GPX track
+export const routeToGpx = (coordinates: Coordinate[], name: string): string =>
+  gpxDocument([
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...coordinates.map(coord =>
+      `      <trkpt lat="${coord.lat}" lon="${coord.lng}">${coord.elevation !== undefined ? `<ele>${coord.elevation}</ele>` : ''}</trkpt>`
+    ),
+    '    </trkseg>',
+    '  </trk>'
+  ]);
+
+// Planned route as a GeoJSON LineString feature
+export const routeToGeoJson = (coordinates: Coordinate[], name: string): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { name },
+        geometry: { type: 'LineString', coordinates: coordinates.map(toPosition) }
+      }
+    ]
+  }, null, 2);
+
+// Walked track with a time on every point and each narration as a waypoint
+export const walkToGpx = (track: TrackPoint[], responses: AIResponse[], name: string): string =>
+  gpxDocument([
+    `  <metadata><name>${escapeXml(name)}</name>${track[0] ? `<time>${track[0].time}</time>` : ''}</metadata>`,
+    ...narrationWaypoints(responses).map(response => [
+      `  <wpt lat="${response.coordinate.lat}" lon="${response.coordinate.lng}">`,
+      `    <time>${response.createdAt}</time>`,
+      `    <name>Narration ${escapeXml(response.timestamp)}</name>`,
+      `    <desc>${escapeXml(response.message)}</desc>`,
+      '  </wpt>'
+    ].join('\n')),
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...track.map(point => `      <trkpt lat="${point.lat}" lon="${point.lng}"><time>${point.time}</time></trkpt>`),
+    '    </trkseg>',
+    '  </trk>'
+  ]);
+
+// Walked track as a LineString with per-point times (coordTimes) plus narration points
+export const walkToGeoJson = (track: TrackPoint[], responses: AIResponse[], name: string): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { name, coordTimes: track.map(point => point.time) },
+        geometry: { type: 'LineString', coordinates: track.map(toPosition) }
+      },
+      ...narrationWaypoints(responses).map(response => ({
+        type: 'Feature',
+        properties: { type: 'narration', time: response.createdAt, message: response.message },
+        geometry: { type: 'Point', coordinates: toPosition(response.coordinate) }
+      }))
+    ]
+  }, null, 2);
+
+// Trigger a browser download of the exported content
+export const downloadExport = (content: string, fileName: string, format: ExportFormat) => {
+  const mimeType = format === 'gpx' ? 'application/gpx+xml' : 'application/geo+json';
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format === 'gpx' ? 'gpx' : 'geojson'}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,256 @@
+import type { Coordinate } from './types';
+
+export type RouteFileFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ParsedRouteFile {
+  format: RouteFileFormat;
+  name: string | null;
+  coordinates: Coordinate[];
+}
+
+const FORMAT_LABELS: Record<RouteFileFormat, string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  geojson: 'GeoJSON'
+};
+
+// Error raised when a route file cannot be turned into a walkable route
+export class RouteFileError extends Error {
+  readonly format: RouteFileFormat | null;
+
+  constructor(format: RouteFileFormat | null, message: string) {
+    super(format ? `${FORMAT_LABELS[format]} file: ${message}` : message);
+    this.name = 'RouteFileError';
+    this.format = format;
+  }
+}
+
+// Guess the file format from its extension, falling back to sniffing the content
+export const detectRouteFileFormat = (fileName: string, content: string): RouteFileFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const head = content.trimStart().slice(0, 512);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+  return null;
+};
+
+const parseXml = (format: RouteFileFormat, content: string): Document => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new RouteFileError(format, 'the file is not well-formed XML.');
+  }
+  return doc;
+};
+
+const toCoordinate = (lng: number, lat: number, elevation?: number): Coordinate | null => {
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+  return elevation !== undefined && Number.isFinite(elevation) ? { lng, lat, elevation } : { lng, lat };
+};
+
+// Make sure the parsed points form a route the walker can follow
+const validateCoordinates = (format: RouteFileFormat, coords: Coordinate[]): Coordinate[] => {
+  const invalidIndex = coords.findIndex(
+    coord => coord.lat < -90 || coord.lat > 90 || coord.lng < -180 || coord.lng > 180
+  );
+  if (invalidIndex !== -1) {
+    const coord = coords[invalidIndex];
+    throw new RouteFileError(
+      format,
+      `point ${invalidIndex + 1} (${coord.lat}, ${coord.lng}) is outside the valid latitude/longitude range.`
+    );
+  }
+
+  if (coords.length < 2) {
+    throw new RouteFileError(format, `a route needs at least 2 points, but only ${coords.length} found.`);
+  }
+
+  return coords;
+};
+
+const readPointElements = (format: RouteFileFormat, points: Element[]): Coordinate[] => {
+  const coords: Coordinate[] = [];
+  points.forEach((point, index) => {
+    const elevation = Array.from(point.children).find(child => child.nodeName === 'ele')?.textContent;
+    const coord = toCoordinate(
+      parseFloat(point.getAttribute('lon') ?? ''),
+      parseFloat(point.getAttribute('lat') ?? ''),
+      elevation ? parseFloat(elevation) : undefined
+    );
+    if (!coord) {
+      throw new RouteFileError(format, `point ${index + 1} is missing a valid lat/lon attribute.`);
+    }
+    coords.push(coord);
+  });
+  return coords;
+};
+
+// Parse GPX tracks (trk/trkseg/trkpt), falling back to routes (rte/rtept)
+export const parseGpx = (content: string): ParsedRouteFile => {
+  const doc = parseXml('gpx', content);
+  if (doc.documentElement.nodeName !== 'gpx') {
+    throw new RouteFileError('gpx', 'missing <gpx> root element.');
+  }
+
+  const trackPoints = Array.from(doc.getElementsByTagName('trkpt'));
+  const routePoints = Array.from(doc.getElementsByTagName('rtept'));
+  if (trackPoints.length === 0 && routePoints.length === 0) {
+    throw new RouteFileError('gpx', 'no track (<trk>) or route (<rte>) points found.');
+  }
+
+  const useTrack = trackPoints.length > 0;
+  const container = doc.getElementsByTagName(useTrack ? 'trk' : 'rte')[0];
+  const nameElement = container ? Array.from(container.children).find(child => child.nodeName === 'name') : undefined;
+
+  return {
+    format: 'gpx',
+    name: nameElement?.textContent?.trim() || null,
+    coordinates: validateCoordinates('gpx', readPointElements('gpx', useTrack ? trackPoints : routePoints))
+  };
+};
+
+// Parse the first KML LineString (or gx:Track) into coordinates
+export const parseKml = (content: string): ParsedRouteFile => {
+  const doc = parseXml('kml', content);
+  if (doc.documentElement.nodeName !== 'kml') {
+    throw new RouteFileError('kml', 'missing <kml> root element.');
+  }
+
+  const coords: Coordinate[] = [];
+  let placemarkName: string | null = null;
+  const lineString = doc.getElementsByTagName('LineString')[0];
+
+  if (lineString) {
+    const coordinatesText = lineString.getElementsByTagName('coordinates')[0]?.textContent ?? '';
+    const tuples = coordinatesText.trim().split(/\s+/).filter(Boolean);
+    tuples.forEach((tuple, index) => {
+      const [lng, lat, elevation] = tuple.split(',').map(Number);
+      const coord = toCoordinate(lng, lat, elevation);
+      if (!coord) {
+        throw new RouteFileError('kml', `coordinate ${index + 1} ("${tuple}") is not a valid lng,lat pair.`);
+      }
+      coords.push(coord);
+    });
+    placemarkName = lineString.closest('Placemark')?.getElementsByTagName('name')[0]?.textContent?.trim() || null;
+  } else {
+    const trackCoords = Array.from(doc.getElementsByTagName('gx:coord'));
+    if (trackCoords.length === 0) {
+      throw new RouteFileError('kml', 'no <LineString> or <gx:Track> found.');
+    }
+    trackCoords.forEach((element, index) => {
+      const [lng, lat, elevation] = (element.textContent ?? '').trim().split(/\s+/).map(Number);
+      const coord = toCoordinate(lng, lat, elevation);
+      if (!coord) {
+        throw new RouteFileError('kml', `track coordinate ${index + 1} is not a valid "lng lat" pair.`);
+      }
+      coords.push(coord);
+    });
+  }
+
+  return {
+    format: 'kml',
+    name: placemarkName,
+    coordinates: validateCoordinates('kml', coords)
+  };
+};
+
+interface GeoJsonObject {
+  type?: unknown;
+  coordinates?: unknown;
+  geometry?: GeoJsonObject | null;
+  geometries?: GeoJsonObject[];
+  features?: GeoJsonObject[];
+  properties?: Record<string, unknown> | null;
+}
+
+const readPositions = (positions: unknown): Coordinate[] => {
+  if (!Array.isArray(positions)) {
+    throw new RouteFileError('geojson', 'LineString coordinates must be an array of positions.');
+  }
+  return positions.map((position, index) => {
+    const coord = Array.isArray(position)
+      ? toCoordinate(Number(position[0]), Number(position[1]), position.length > 2 ? Number(position[2]) : undefined)
+      : null;
+    if (!coord) {
+      throw new RouteFileError('geojson', `position ${index + 1} is not a valid [lng, lat] pair.`);
+    }
+    return coord;
+  });
+};
+
+// Find the first LineString (or MultiLineString) anywhere in the GeoJSON object
+const findLine = (object: GeoJsonObject): { coordinates: Coordinate[]; name: string | null } | null => {
+  switch (object.type) {
+    case 'LineString':
+      return { coordinates: readPositions(object.coordinates), name: null };
+    case 'MultiLineString':
+      if (!Array.isArray(object.coordinates)) {
+        throw new RouteFileError('geojson', 'MultiLineString coordinates must be an array of lines.');
+      }
+      return { coordinates: object.coordinates.flatMap(line => readPositions(line)), name: null };
+    case 'Feature': {
+      const line = object.geometry ? findLine(object.geometry) : null;
+      if (!line) return null;
+      const name = object.properties?.name;
+      return { ...line, name: typeof name === 'string' ? name : null };
+    }
+    case 'FeatureCollection':
+      for (const feature of object.features ?? []) {
+        const line = findLine(feature);
+        if (line) return line;
+      }
+      return null;
+    case 'GeometryCollection':
+      for (const geometry of object.geometries ?? []) {
+        const line = findLine(geometry);
+        if (line) return line;
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+// Parse a GeoJSON LineString, MultiLineString, Feature or FeatureCollection
+export const parseGeoJson = (content: string): ParsedRouteFile => {
+  let data: GeoJsonObject;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new RouteFileError('geojson', 'the file is not valid JSON.');
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.type !== 'string') {
+    throw new RouteFileError('geojson', 'missing a GeoJSON "type" member.');
+  }
+
+  const line = findLine(data);
+  if (!line) {
+    throw new RouteFileError('geojson', `no LineString geometry found in ${data.type}.`);
+  }
+
+  return {
+    format: 'geojson',
+    name: line.name,
+    coordinates: validateCoordinates('geojson', line.coordinates)
+  };
+};
+
+// Parse a route file of any supported format
+export const parseRouteFile = (fileName: string, content: string): ParsedRouteFile => {
+  const format = detectRouteFileFormat(fileName, content);
+  switch (format) {
+    case 'gpx':
+      return parseGpx(content);
+    case 'kml':
+      return parseKml(content);
+    case 'geojson':
+      return parseGeoJson(content);
+    default:
+      throw new RouteFileError(null, `Unsupported route file "${fileName}". Please use a .gpx, .kml or .geojson file.`);
+  }
+};
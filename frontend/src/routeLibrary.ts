@@ -0,0 +1,86 @@
+import type { AIResponse, Coordinate } from './types';
+import type { RouteLeg } from './routing';
+import { ROUTES_STORE, withStore } from './db';
+import type { UiStrings } from './i18n';
+
+// Where a saved route originally came from
+export type RouteSource =
+  | { type: 'brouter'; url: string }
+  | { type: 'map' }
+  | { type: 'file'; fileName: string };
+
+export interface SavedRoute {
+  id: string;
+  name: string;
+  coordinates: Coordinate[];
+  waypoints: Coordinate[];
+  legs: RouteLeg[];
+  source: RouteSource;
+  // Route length in meters
+  distance: number;
+  createdAt: string;
+  // Narrations from the last walk on this route, newest first
+  lastTranscript: AIResponse[];
+}
+
+export const describeRouteSource = (source: RouteSource, t: UiStrings): string => {
+  switch (source.type) {
+    case 'brouter':
+      return t.routeSourceBRouter;
+    case 'map':
+      return t.routeSourceMap;
+    case 'file':
+      return t.routeSourceFile(source.fileName);
+  }
+};
+
+// All saved routes, newest first
+export const listSavedRoutes = async (): Promise<SavedRoute[]> => {
+  const routes = await withStore<SavedRoute[]>(ROUTES_STORE, 'readonly', store => store.getAll());
+  return routes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getSavedRoute = (id: string): Promise<SavedRoute | undefined> =>
+  withStore<SavedRoute | undefined>(ROUTES_STORE, 'readonly', store => store.get(id));
+
+export const putSavedRoute = async (route: SavedRoute): Promise<SavedRoute> => {
+  await withStore(ROUTES_STORE, 'readwrite', store => store.put(route));
+  return route;
+};
+
+export const createSavedRoute = (route: Omit<SavedRoute, 'id' | 'createdAt'>): Promise<SavedRoute> =>
+  putSavedRoute({
+    ...route,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString()
+  });
+
+const updateSavedRoute = async (id: string, changes: Partial<Omit<SavedRoute, 'id'>>): Promise<SavedRoute> => {
+  const route = await getSavedRoute(id);
+  if (!route) {
+    throw new Error(`Saved route ${id} not found`);
+  }
+  return putSavedRoute({ ...route, ...changes });
+};
+
+export const renameSavedRoute = (id: string, name: string): Promise<SavedRoute> =>
+  updateSavedRoute(id, { name });
+
+export const updateSavedRouteTranscript = (id: string, lastTranscript: AIResponse[]): Promise<SavedRoute> =>
+  updateSavedRoute(id, { lastTranscript });
+
+export const duplicateSavedRoute = async (id: string): Promise<SavedRoute> => {
+  const route = await getSavedRoute(id);
+  if (!route) {
+    throw new Error(`Saved route ${id} not found`);
+  }
+  return putSavedRoute({
+    ...route,
+    id: crypto.randomUUID(),
+    name: `${route.name} (copy)`,
+    createdAt: new Date().toISOString()
+  });
+};
+
+export const deleteSavedRoute = (id: string): Promise<undefined> =>
+  withStore(ROUTES_STORE, 'readwrite', store => store.delete(id));
@@ -0,0 +1,231 @@
+import type { Coordinate } from './types';
+
+export type RoutingProviderId = 'osrm' | 'brouter' | 'straight-line';
+
+// A turn-by-turn step as reported by the routing engine
+export interface RouteStep {
+  // Where the maneuver happens
+  location: Coordinate;
+  // OSRM maneuver type, e.g. 'depart', 'turn', 'roundabout', 'arrive'
+  type: string;
+  // e.g. 'left', 'slight right', 'straight'
+  modifier: string | null;
+  // Street the step continues on, empty if unnamed
+  name: string;
+  // Meters from this maneuver to the next one
+  distance: number;
+  // Roundabout exit number
+  exit: number | null;
+}
+
+export interface RoutedPath {
+  coordinates: Coordinate[];
+  // Empty when the provider has no turn-by-turn instructions
+  steps: RouteStep[];
+}
+
+export interface RoutingProvider {
+  id: RoutingProviderId;
+  label: string;
+  getRoute: (start: Coordinate, end: Coordinate) => Promise<RoutedPath>;
+}
+
+export interface RoutingSettings {
+  providerId: RoutingProviderId;
+  osrmBaseUrl: string;
+  osrmProfile: string;
+  brouterBaseUrl: string;
+  brouterProfile: string;
+}
+
+// A routed section between two consecutive waypoints
+export interface RouteLeg {
+  coordinates: Coordinate[];
+  steps: RouteStep[];
+  providerId: RoutingProviderId;
+  // Set when the chosen provider failed and a straight line was used instead
+  fallbackReason: string | null;
+}
+
+export const ROUTING_PROVIDER_LABELS: Record<RoutingProviderId, string> = {
+  osrm: 'OSRM',
+  brouter: 'BRouter',
+  'straight-line': 'Straight line'
+};
+
+export const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+  providerId: 'osrm',
+  osrmBaseUrl: 'https://routing.openstreetmap.de/routed-foot',
+  osrmProfile: 'foot',
+  brouterBaseUrl: 'https://brouter.de/brouter',
+  brouterProfile: 'hiking-beta'
+};
+
+const STRAIGHT_LINE_POINTS = 15;
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// GeoJSON positions, keeping the elevation BRouter puts in the third value
+const toCoordinates = (positions: number[][]): Coordinate[] =>
+  positions.map(position => (
+    Number.isFinite(position[2])
+      ? { lng: position[0], lat: position[1], elevation: position[2] }
+      : { lng: position[0], lat: position[1] }
+  ));
+
+interface OSRMStep {
+  name?: string;
+  distance?: number;
+  maneuver: {
+    location: number[];
+    type: string;
+    modifier?: string;
+    exit?: number;
+  };
+}
+
+const toRouteStep = (step: OSRMStep): RouteStep => ({
+  location: { lng: step.maneuver.location[0], lat: step.maneuver.location[1] },
+  type: step.maneuver.type,
+  modifier: step.maneuver.modifier ?? null,
+  name: step.name ?? '',
+  distance: step.distance ?? 0,
+  exit: step.maneuver.exit ?? null
+});
+
+// OSRM route service, e.g. a self-hosted osrm-backend with the foot profile
+export const createOSRMProvider = (baseUrl: string, profile: string): RoutingProvider => ({
+  id: 'osrm',
+  label: ROUTING_PROVIDER_LABELS.osrm,
+  getRoute: async (start, end) => {
+    const apiUrl = `${trimTrailingSlash(baseUrl)}/route/v1/${profile}/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson&steps=true`;
+    console.log('Calling OSRM API:', apiUrl);
+
+    const response = await fetch(apiUrl, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`OSRM API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const geometry = data.routes?.[0]?.geometry;
+    if (!geometry?.coordinates?.length) {
+      throw new Error(data.message ? `OSRM: ${data.message}` : 'No route found in OSRM API response');
+    }
+
+    const steps = (data.routes[0].legs ?? []).flatMap((leg: { steps?: OSRMStep[] }) => leg.steps ?? []);
+    return {
+      coordinates: toCoordinates(geometry.coordinates),
+      steps: steps.map(toRouteStep)
+    };
+  }
+});
+
+// BRouter's own routing endpoint with GeoJSON output
+export const createBRouterProvider = (baseUrl: string, profile: string): RoutingProvider => ({
+  id: 'brouter',
+  label: ROUTING_PROVIDER_LABELS.brouter,
+  getRoute: async (start, end) => {
+    const params = new URLSearchParams({
+      lonlats: `${start.lng},${start.lat}|${end.lng},${end.lat}`,
+      profile,
+      alternativeidx: '0',
+      format: 'geojson'
+    });
+    const apiUrl = `${trimTrailingSlash(baseUrl)}?${params.toString()}`;
+    console.log('Calling BRouter API:', apiUrl);
+
+    const response = await fetch(apiUrl, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/geo+json, application/json'
+      }
+    });
+
+    if (!response.ok) {
+      // BRouter reports routing problems as plain text
+      const message = (await response.text()).trim();
+      throw new Error(`BRouter API error: ${response.status}${message ? ` - ${message}` : ''}`);
+    }
+
+    const data = await response.json();
+    const positions = data.features?.[0]?.geometry?.coordinates;
+    if (!positions?.length) {
+      throw new Error('No route found in BRouter API response');
+    }
+
+    // BRouter's GeoJSON has no step list; maneuvers are derived from the geometry instead
+    return { coordinates: toCoordinates(positions), steps: [] };
+  }
+});
+
+// Evenly spaced points on the straight line between start and end
+export const createStraightLineProvider = (): RoutingProvider => ({
+  id: 'straight-line',
+  label: ROUTING_PROVIDER_LABELS['straight-line'],
+  getRoute: async (start, end) => {
+    const coords: Coordinate[] = [];
+    for (let i = 0; i <= STRAIGHT_LINE_POINTS; i++) {
+      const progress = i / STRAIGHT_LINE_POINTS;
+      coords.push({
+        lng: start.lng + (end.lng - start.lng) * progress,
+        lat: start.lat + (end.lat - start.lat) * progress
+      });
+    }
+    return { coordinates: coords, steps: [] };
+  }
+});
+
+export const createRoutingProvider = (settings: RoutingSettings): RoutingProvider => {
+  switch (settings.providerId) {
+    case 'osrm':
+      return createOSRMProvider(settings.osrmBaseUrl, settings.osrmProfile);
+    case 'brouter':
+      return createBRouterProvider(settings.brouterBaseUrl, settings.brouterProfile);
+    case 'straight-line':
+      return createStraightLineProvider();
+  }
+};
+
+// Route a single leg, falling back to a straight line (flagged on the leg) if the provider fails
+export const routeLeg = async (provider: RoutingProvider, start: Coordinate, end: Coordinate): Promise<RouteLeg> => {
+  try {
+    const { coordinates, steps } = await provider.getRoute(start, end);
+    return { coordinates, steps, providerId: provider.id, fallbackReason: null };
+  } catch (error) {
+    console.error(`Error getting ${provider.label} route:`, error);
+    const { coordinates } = await createStraightLineProvider().getRoute(start, end);
+    return {
+      coordinates,
+      steps: [],
+      providerId: 'straight-line',
+      fallbackReason: `${provider.label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+// Route through every waypoint in order, one leg per consecutive pair
+export const routeWaypoints = async (provider: RoutingProvider, waypoints: Coordinate[]): Promise<RouteLeg[]> => {
+  const legs: RouteLeg[] = [];
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    legs.push(await routeLeg(provider, waypoints[i], waypoints[i + 1]));
+  }
+  return legs;
+};
+
+// Join the legs into one polyline, dropping the duplicated point where two legs meet
+export const stitchRouteLegs = (legs: RouteLeg[]): Coordinate[] => {
+  const stitched: Coordinate[] = [];
+  for (const leg of legs) {
+    const last = stitched[stitched.length - 1];
+    const first = leg.coordinates[0];
+    const isJoined = last && first && last.lat === first.lat && last.lng === first.lng;
+    stitched.push(...(isJoined ? leg.coordinates.slice(1) : leg.coordinates));
+  }
+  return stitched;
+};
@@ -0,0 +1,197 @@
+// Text-to-speech playback of narrations through the Web Speech API
+
+export interface SpeechSettings {
+  voiceURI: string | null;
+  // Language tag for the browser's default voice when no voice is picked
+  lang: string | null;
+  rate: number;
+  volume: number;
+}
+
+export interface SpeechQueueStatus {
+  currentId: string | null;
+  pendingIds: string[];
+  isPaused: boolean;
+}
+
+interface SpeechItem {
+  id: string;
+  text: string;
+  enqueuedAt: number;
+}
+
+export interface SpeechQueueOptions {
+  settings: SpeechSettings;
+  // Pending narrations beyond this count are dropped, oldest first
+  maxPending?: number;
+  // Items waiting longer than this many milliseconds are dropped as stale
+  maxAge?: number;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voiceURI: null,
+  lang: null,
+  rate: 1,
+  volume: 1
+};
+
+export const isSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Plays one utterance at a time, so narrations never talk over each other
+export class SpeechQueue {
+  private readonly maxPending: number;
+  private readonly maxAge: number;
+  private readonly listeners = new Set<(status: SpeechQueueStatus) => void>();
+  private settings: SpeechSettings;
+  private pending: SpeechItem[] = [];
+  private current: SpeechItem | null = null;
+  private currentUtterance: SpeechSynthesisUtterance | null = null;
+  private isPaused = false;
+
+  constructor(options: SpeechQueueOptions) {
+    this.settings = options.settings;
+    this.maxPending = options.maxPending ?? 2;
+    this.maxAge = options.maxAge ?? 60000;
+  }
+
+  subscribe(listener: (status: SpeechQueueStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): SpeechQueueStatus {
+    return {
+      currentId: this.current?.id ?? null,
+      pendingIds: this.getPendingIds(),
+      isPaused: this.isPaused
+    };
+  }
+
+  setSettings(settings: SpeechSettings) {
+    this.settings = settings;
+  }
+
+  // Queue text for a narration; streamed narrations enqueue one sentence at a time under the same id
+  enqueue(id: string, text: string) {
+    this.pending.push({ id, text, enqueuedAt: Date.now() });
+
+    // Falling behind: keep only the most recent narrations, never cutting one that is playing
+    let pendingIds = this.getPendingIds().filter(pendingId => pendingId !== this.current?.id);
+    while (pendingIds.length > this.maxPending) {
+      const droppedId = pendingIds[0];
+      this.pending = this.pending.filter(item => item.id !== droppedId);
+      pendingIds = pendingIds.slice(1);
+      console.log('Dropping stale narration from speech queue:', droppedId);
+    }
+
+    this.notify();
+    this.speakNext();
+  }
+
+  // Speak an item right away, interrupting whatever is playing
+  replay(id: string, text: string) {
+    this.pending = [{ id, text, enqueuedAt: Date.now() }, ...this.pending.filter(item => item.id !== id)];
+    if (this.current) {
+      this.cancelCurrent();
+    }
+    this.notify();
+    this.speakNext();
+  }
+
+  // Skip a narration, whether it is playing or still waiting
+  skip(id: string) {
+    this.pending = this.pending.filter(item => item.id !== id);
+    if (this.current?.id === id) {
+      this.cancelCurrent();
+      this.speakNext();
+    }
+    this.notify();
+  }
+
+  pause() {
+    this.isPaused = true;
+    if (isSpeechSupported()) {
+      window.speechSynthesis.pause();
+    }
+    this.notify();
+  }
+
+  resume() {
+    this.isPaused = false;
+    if (isSpeechSupported()) {
+      window.speechSynthesis.resume();
+    }
+    this.notify();
+    this.speakNext();
+  }
+
+  clear() {
+    this.pending = [];
+    this.cancelCurrent();
+    this.isPaused = false;
+    if (isSpeechSupported()) {
+      window.speechSynthesis.resume();
+    }
+    this.notify();
+  }
+
+  private getPendingIds(): string[] {
+    return [...new Set(this.pending.map(item => item.id))];
+  }
+
+  private speakNext() {
+    if (!isSpeechSupported() || this.current || this.isPaused) return;
+
+    const now = Date.now();
+    this.pending = this.pending.filter(item => now - item.enqueuedAt <= this.maxAge);
+    const item = this.pending.shift();
+    if (!item) {
+      this.notify();
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === this.settings.voiceURI);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else if (this.settings.lang) {
+      utterance.lang = this.settings.lang;
+    }
+    utterance.rate = this.settings.rate;
+    utterance.volume = this.settings.volume;
+
+    const finish = () => {
+      // Ignore late events from an utterance that was already cancelled
+      if (this.currentUtterance !== utterance) return;
+      this.current = null;
+      this.currentUtterance = null;
+      this.notify();
+      this.speakNext();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    this.current = item;
+    this.currentUtterance = utterance;
+    window.speechSynthesis.speak(utterance);
+    this.notify();
+  }
+
+  private cancelCurrent() {
+    this.current = null;
+    this.currentUtterance = null;
+    if (isSpeechSupported()) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
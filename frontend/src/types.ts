@@ -0,0 +1,35 @@
+export interface Coordinate {
+  lng: number;
+  lat: number;
+  // Meters above sea level, when the route source or an elevation lookup provided it
+  elevation?: number;
+}
+
+export interface AIResponse {
+  id: string;
+  timestamp: string;
+  message: string;
+  // ISO time the response was produced
+  createdAt: string;
+  // Position the narration was produced for, if it is a narration
+  coordinate?: Coordinate;
+  // What the listener asked, when this response answers a question
+  question?: string;
+  // True while the narration text is still streaming in
+  isStreaming?: boolean;
+}
+
+// Simulated position recorded while walking
+export interface TrackPoint extends Coordinate {
+  time: string;
+}
+
+export type NotificationLevel = 'error' | 'warning' | 'info';
+
+// Problems and status messages shown apart from the narration feed
+export interface AppNotification {
+  id: string;
+  level: NotificationLevel;
+  message: string;
+  timestamp: string;
+}
@@ -0,0 +1,133 @@
+import type { Coordinate } from './types';
+import { calculateBearing, getDirectionName } from './geo';
+import { findNextManeuver, type Maneuver } from './maneuvers';
+import { getElevationAt, getElevationChange, getGradeAt } from './elevation';
+import type { NearbyPoi } from './pois';
+import type { RouteIndex, RoutePosition } from './walkSimulator';
+
+export type WalkStatus = 'start' | 'walking' | 'end' | 'off-route';
+
+export interface UpcomingManeuver {
+  // e.g. "Turn left onto High Street"
+  instruction: string;
+  streetName: string;
+  // Meters from the walker to the maneuver
+  distance: number;
+}
+
+// Everything the narrator is told about the walk on each call
+export interface WalkContext {
+  position: Coordinate;
+  status: WalkStatus;
+  // Meters between the walker and the route, only set in live mode
+  offRouteDistance: number | null;
+  heading: {
+    bearing: number;
+    direction: string;
+  };
+  // Pace in km/h
+  pace: number;
+  nextManeuver: UpcomingManeuver | null;
+  distanceWalked: number;
+  distanceRemaining: number;
+  percentComplete: number;
+  elapsedSeconds: number;
+  // Seconds left at the current pace, null when standing still
+  etaSeconds: number | null;
+  // Only set when the route has elevation data
+  elevation: {
+    // Meters above sea level
+    current: number;
+    // Percent, positive uphill
+    grade: number;
+    gainSoFar: number;
+    gainRemaining: number;
+  } | null;
+  // Closest named places the guide hasn't talked about yet
+  nearbyPlaces: {
+    name: string;
+    category: string;
+    distance: number;
+    direction: string;
+  }[];
+  // The {memory} slot in the system prompt
+  previousNarration: string;
+}
+
+const START_END_RADIUS = 10;
+
+export interface WalkContextInput {
+  coordinates: Coordinate[];
+  routeIndex: RouteIndex;
+  position: RoutePosition;
+  maneuvers: Maneuver[];
+  pace: number;
+  startTime: number;
+  now: number;
+  previousNarration: string;
+  nearbyPois?: NearbyPoi[];
+  offRouteDistance?: number | null;
+  isOffRoute?: boolean;
+}
+
+export const buildWalkContext = (input: WalkContextInput): WalkContext => {
+  const { coordinates, routeIndex, position, pace } = input;
+  const distanceWalked = position.distance;
+  const distanceRemaining = Math.max(0, routeIndex.totalDistance - distanceWalked);
+
+  // Heading along the segment being walked; the last segment once at the end
+  const segmentStart = Math.min(position.segmentIndex, Math.max(0, coordinates.length - 2));
+  const segmentEnd = Math.min(segmentStart + 1, coordinates.length - 1);
+  const bearing = calculateBearing(coordinates[segmentStart], coordinates[segmentEnd]);
+
+  let status: WalkStatus = 'walking';
+  if (input.isOffRoute) {
+    status = 'off-route';
+  } else if (distanceWalked < START_END_RADIUS) {
+    status = 'start';
+  } else if (distanceRemaining < START_END_RADIUS) {
+    status = 'end';
+  }
+
+  const maneuver = findNextManeuver(input.maneuvers, distanceWalked);
+  const speed = pace / 3.6;
+  const currentElevation = getElevationAt(routeIndex, distanceWalked);
+
+  return {
+    position: position.coordinate,
+    status,
+    offRouteDistance: input.offRouteDistance ?? null,
+    heading: {
+      bearing: Math.round(bearing),
+      direction: getDirectionName(bearing)
+    },
+    pace: Math.round(pace * 10) / 10,
+    nextManeuver: maneuver
+      ? {
+          instruction: maneuver.instruction,
+          streetName: maneuver.streetName,
+          distance: Math.round(maneuver.distanceFromStart - distanceWalked)
+        }
+      : null,
+    distanceWalked: Math.round(distanceWalked),
+    distanceRemaining: Math.round(distanceRemaining),
+    percentComplete: routeIndex.totalDistance > 0 ? Math.round((distanceWalked / routeIndex.totalDistance) * 100) : 100,
+    elapsedSeconds: Math.round((input.now - input.startTime) / 1000),
+    etaSeconds: speed > 0 ? Math.round(distanceRemaining / speed) : null,
+    elevation: currentElevation !== null
+      ? {
+          current: Math.round(currentElevation),
+          grade: Math.round((getGradeAt(routeIndex, distanceWalked) ?? 0) * 1000) / 10,
+          gainSoFar: Math.round(getElevationChange(routeIndex, 0, distanceWalked).gain),
+          gainRemaining: Math.round(getElevationChange(routeIndex, distanceWalked).gain)
+        }
+      : null,
+    nearbyPlaces: (input.nearbyPois ?? []).map(poi => ({
+      name: poi.name,
+      category: poi.category,
+      distance: Math.round(poi.distance),
+      direction: poi.direction
+    })),
+    previousNarration: input.previousNarration
+  };
+};
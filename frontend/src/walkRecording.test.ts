@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_WALK_RECORDING,
+  addRecordedNarration,
+  addRecordedTick,
+  getRecordingSpan,
+  type WalkRecording,
+  type WalkTick
+} from './walkRecording';
+
+const tick = (time: number): WalkTick => ({
+  time,
+  coordinate: { lat: 0, lng: 0 },
+  segmentIndex: 0,
+  distance: time,
+  pace: 5,
+  state: 'walking'
+});
+
+describe('addRecordedTick', () => {
+  it('leaves the recording it was given untouched', () => {
+    const first = addRecordedTick(EMPTY_WALK_RECORDING, tick(1));
+    const second = addRecordedTick(first, tick(2));
+    expect(EMPTY_WALK_RECORDING.ticks).toHaveLength(0);
+    expect(first.ticks.map(entry => entry.time)).toEqual([1]);
+    expect(second.ticks.map(entry => entry.time)).toEqual([1, 2]);
+  });
+
+  it('records each tick once when a state updater runs twice', () => {
+    // StrictMode calls updaters twice with the same state and keeps one result
+    let recording: WalkRecording = EMPTY_WALK_RECORDING;
+    for (const time of [1, 2, 3]) {
+      const updater = (prev: WalkRecording) => addRecordedTick(prev, tick(time));
+      updater(recording);
+      recording = updater(recording);
+    }
+    expect(recording.ticks.map(entry => entry.time)).toEqual([1, 2, 3]);
+  });
+
+  it('slots a late tick in by time', () => {
+    let recording = EMPTY_WALK_RECORDING;
+    for (const time of [1, 3, 4, 2]) recording = addRecordedTick(recording, tick(time));
+    expect(recording.ticks.map(entry => entry.time)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('getRecordingSpan', () => {
+  it('covers both ticks and narrations', () => {
+    let recording = addRecordedTick(addRecordedTick(EMPTY_WALK_RECORDING, tick(5)), tick(20));
+    recording = addRecordedNarration(recording, {
+      time: 2,
+      responseId: 'a',
+      reason: 'time',
+      coordinate: { lat: 0, lng: 0 },
+      distance: 0
+    });
+    expect(getRecordingSpan(recording)).toEqual({ start: 2, end: 20 });
+    expect(getRecordingSpan(EMPTY_WALK_RECORDING)).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+import type { Coordinate } from './types';
+import type { NarrationTriggerReason } from './narrationTriggers';
+import { systemClock, type WalkClock, type WalkingState } from './walkSimulator';
+
+// Where the walker was at one moment of a walk
+export interface WalkTick {
+  // Milliseconds since the epoch
+  time: number;
+  coordinate: Coordinate;
+  segmentIndex: number;
+  // Meters walked along the route
+  distance: number;
+  // Walking pace in km/h
+  pace: number;
+  state: WalkingState;
+  // How many times faster than real time a simulated walk was running; 1 when missing
+  timeScale?: number;
+  // Set when the walker was placed here by a seek or a start part way along, rather than walking
+  isJump?: boolean;
+}
+
+// A narration placed on the walk's timeline
+export interface RecordedNarration {
+  // When the narration was requested, so it lines up with the position the narrator was told about
+  time: number;
+  // Id of the AIResponse holding the text
+  responseId: string;
+  reason: NarrationTriggerReason;
+  coordinate: Coordinate;
+  distance: number;
+}
+
+// Everything needed to play a walk back, both lists sorted by time
+export interface WalkRecording {
+  ticks: WalkTick[];
+  narrations: RecordedNarration[];
+}
+
+export const EMPTY_WALK_RECORDING: WalkRecording = { ticks: [], narrations: [] };
+
+// Insert keeping the list sorted by time; entries almost always arrive in order
+const insertByTime = <T extends { time: number }>(items: T[], item: T): T[] => {
+  let index = items.length;
+  while (index > 0 && items[index - 1].time > item.time) index--;
+  return [...items.slice(0, index), item, ...items.slice(index)];
+};
+
+export const addRecordedTick = (recording: WalkRecording, tick: WalkTick): WalkRecording => ({
+  ...recording,
+  ticks: insertByTime(recording.ticks, tick)
+});
+
+export const addRecordedNarration = (recording: WalkRecording, narration: RecordedNarration): WalkRecording => ({
+  ...recording,
+  narrations: insertByTime(recording.narrations, narration)
+});
+
+// First and last recorded moments, or null for an empty recording
+export const getRecordingSpan = (recording: WalkRecording): { start: number; end: number } | null => {
+  // Both lists are sorted by time, so only their first and last entries matter
+  const ends = [recording.ticks, recording.narrations]
+    .filter(items => items.length > 0)
+    .map(items => ({ start: items[0].time, end: items[items.length - 1].time }));
+  if (ends.length === 0) return null;
+  return {
+    start: Math.min(...ends.map(span => span.start)),
+    end: Math.max(...ends.map(span => span.end))
+  };
+};
+
+// Index of the last entry at or before a time, or -1 if every entry is later
+const findLastIndexAt = (items: { time: number }[], time: number): number => {
+  let low = 0;
+  let high = items.length - 1;
+  let result = -1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (items[middle].time <= time) {
+      result = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return result;
+};
+
+// The walker's position at a moment, interpolated between the surrounding ticks
+export const getTickAt = (recording: WalkRecording, time: number): WalkTick | null => {
+  const { ticks } = recording;
+  if (ticks.length === 0) return null;
+
+  const index = findLastIndexAt(ticks, time);
+  if (index < 0) return ticks[0];
+  const before = ticks[index];
+  const after = ticks[index + 1];
+  if (!after || after.time === before.time || before.state !== 'walking') return before;
+
+  const fraction = (time - before.time) / (after.time - before.time);
+  return {
+    ...before,
+    time,
+    coordinate: {
+      lat: before.coordinate.lat + (after.coordinate.lat - before.coordinate.lat) * fraction,
+      lng: before.coordinate.lng + (after.coordinate.lng - before.coordinate.lng) * fraction
+    },
+    distance: before.distance + (after.distance - before.distance) * fraction
+  };
+};
+
+// The narration the listener was hearing at a moment: the latest one requested before it
+export const getNarrationAt = (recording: WalkRecording, time: number): RecordedNarration | null =>
+  recording.narrations[findLastIndexAt(recording.narrations, time)] ?? null;
+
+export interface ReplayPlayerStatus {
+  time: number;
+  isPlaying: boolean;
+  // Playback speed multiplier, 1 being real time
+  speed: number;
+}
+
+export interface ReplayPlayerOptions {
+  speed?: number;
+  // Milliseconds between time updates while playing
+  tickInterval?: number;
+  clock?: WalkClock;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+// Plays a recorded walk back along its timeline
+export class ReplayPlayer {
+  readonly start: number;
+  readonly end: number;
+  private readonly tickInterval: number;
+  private readonly clock: WalkClock;
+  private readonly listeners = new Set<(status: ReplayPlayerStatus) => void>();
+  private time: number;
+  private speed: number;
+  private intervalHandle: unknown = null;
+
+  constructor(recording: WalkRecording, options: ReplayPlayerOptions = {}) {
+    const span = getRecordingSpan(recording);
+    if (!span) {
+      throw new Error('ReplayPlayer needs a recording with at least one entry');
+    }
+    this.start = span.start;
+    this.end = span.end;
+    this.time = span.start;
+    this.speed = options.speed ?? 1;
+    this.tickInterval = options.tickInterval ?? 200;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  subscribe(listener: (status: ReplayPlayerStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): ReplayPlayerStatus {
+    return {
+      time: this.time,
+      isPlaying: this.intervalHandle !== null,
+      speed: this.speed
+    };
+  }
+
+  // Play from the current time, or from the start again once the end was reached
+  play() {
+    if (this.intervalHandle !== null) return;
+    if (this.time >= this.end) {
+      this.time = this.start;
+    }
+    this.intervalHandle = this.clock.setInterval(() => this.tick(), this.tickInterval);
+    this.notify();
+  }
+
+  pause() {
+    if (this.intervalHandle === null) return;
+    this.clock.clearInterval(this.intervalHandle);
+    this.intervalHandle = null;
+    this.notify();
+  }
+
+  seek(time: number) {
+    this.time = Math.min(this.end, Math.max(this.start, time));
+    this.notify();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+    this.notify();
+  }
+
+  private tick() {
+    this.time = Math.min(this.end, this.time + this.tickInterval * this.speed);
+    if (this.time >= this.end) {
+      this.pause();
+      return;
+    }
+    this.notify();
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
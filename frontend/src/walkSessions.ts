@@ -0,0 +1,99 @@
+import type { AIResponse, Coordinate, TrackPoint } from './types';
+import type { RouteLeg } from './routing';
+import type { RouteSource } from './routeLibrary';
+import type { NarrationHistorySnapshot } from './narrationTriggers';
+import { EMPTY_WALK_RECORDING, type WalkRecording } from './walkRecording';
+import { WALK_SESSIONS_STORE, withStore } from './db';
+import type { Language } from './i18n';
+
+// Whether the walker is simulated or follows the device's real position
+export type WalkMode = 'simulated' | 'live';
+
+export type WalkSessionStatus = 'walking' | 'paused' | 'ended';
+
+// One walk from start to stop, kept so it can be reviewed or picked up again
+export interface WalkSession {
+  // Also the narrator session id, so conversation memory stays with this walk
+  id: string;
+  routeName: string;
+  libraryRouteId: string | null;
+  mode: WalkMode;
+  coordinates: Coordinate[];
+  waypoints: Coordinate[];
+  legs: RouteLeg[];
+  source: RouteSource | null;
+  startedAt: string;
+  updatedAt: string;
+  endedAt: string | null;
+  status: WalkSessionStatus;
+  // Seconds since the walk started, not counting time the page was closed
+  elapsedSeconds: number;
+  // Meters walked along the route
+  distanceWalked: number;
+  track: TrackPoint[];
+  // Narrations, newest first
+  transcript: AIResponse[];
+  narrationHistory: NarrationHistorySnapshot | null;
+  // Missing from sessions saved before walks were recorded
+  recording?: WalkRecording;
+  // Narration language, missing from sessions saved before it could be chosen
+  language?: Language;
+}
+
+// The parts of a session that change as the walk goes on
+export type WalkSessionProgress = Pick<
+  WalkSession,
+  'status' | 'elapsedSeconds' | 'distanceWalked' | 'track' | 'transcript' | 'narrationHistory' | 'recording' | 'language'
+>;
+
+// All walk sessions, newest first
+export const listWalkSessions = async (): Promise<WalkSession[]> => {
+  const sessions = await withStore<WalkSession[]>(WALK_SESSIONS_STORE, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+export const putWalkSession = async (session: WalkSession): Promise<WalkSession> => {
+  await withStore(WALK_SESSIONS_STORE, 'readwrite', store => store.put(session));
+  return session;
+};
+
+export const createWalkSession = (
+  session: Omit<WalkSession, 'id' | 'startedAt' | 'updatedAt' | 'endedAt' | keyof WalkSessionProgress> & { language: Language }
+): WalkSession => {
+  const now = new Date().toISOString();
+  return {
+    ...session,
+    id: crypto.randomUUID(),
+    startedAt: now,
+    updatedAt: now,
+    endedAt: null,
+    status: 'walking',
+    elapsedSeconds: 0,
+    distanceWalked: 0,
+    track: [],
+    transcript: [],
+    narrationHistory: null,
+    recording: EMPTY_WALK_RECORDING
+  };
+};
+
+// Store the latest progress of a session, stamping when it ended
+export const saveWalkSessionProgress = (session: WalkSession, progress: WalkSessionProgress): Promise<WalkSession> => {
+  const now = new Date().toISOString();
+  return putWalkSession({
+    ...session,
+    ...progress,
+    updatedAt: now,
+    endedAt: progress.status === 'ended' ? now : null
+  });
+};
+
+export const deleteWalkSession = (id: string): Promise<undefined> =>
+  withStore(WALK_SESSIONS_STORE, 'readwrite', store => store.delete(id));
+
+// Sessions that were paused or cut off by a reload can be picked up again
+export const isResumable = (session: WalkSession): boolean => session.status !== 'ended';
+
+// The most recent walk that was left unfinished, if any
+export const findResumableWalkSession = async (): Promise<WalkSession | null> =>
+  (await listWalkSessions()).find(isResumable) ?? null;
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import type { Coordinate } from './types';
+import {
+  WalkSimulator,
+  createRouteIndex,
+  getNextWalkingState,
+  locateOnRoute,
+  type WalkClock,
+  type WalkSimulatorEvent
+} from './walkSimulator';
+
+// Points along the equator, 0.001° of longitude (about 111 m) apart
+const straightRoute = (count: number): Coordinate[] =>
+  Array.from({ length: count }, (_, i) => ({ lat: 0, lng: i * 0.001 }));
+
+// Clock that only moves when the test says so
+const createManualClock = () => {
+  let time = 0;
+  let callback: (() => void) | null = null;
+  let interval = 0;
+  const clock: WalkClock = {
+    now: () => time,
+    setInterval: (cb, ms) => {
+      callback = cb;
+      interval = ms;
+      return 1;
+    },
+    clearInterval: () => {
+      callback = null;
+    }
+  };
+  return {
+    clock,
+    isRunning: () => callback !== null,
+    advance: (ticks: number) => {
+      for (let i = 0; i < ticks && callback; i++) {
+        time += interval;
+        callback();
+      }
+    }
+  };
+};
+
+describe('createRouteIndex', () => {
+  it('accumulates distances from the route start', () => {
+    const index = createRouteIndex(straightRoute(4));
+    expect(index.cumulativeDistances[0]).toBe(0);
+    expect(index.cumulativeDistances[1]).toBeCloseTo(111.2, 0);
+    expect(index.cumulativeDistances[3]).toBeCloseTo(index.cumulativeDistances[1] * 3, 6);
+    expect(index.totalDistance).toBe(index.cumulativeDistances[3]);
+  });
+
+  it('handles a single coordinate and an empty route', () => {
+    expect(createRouteIndex([{ lat: 1, lng: 1 }])).toEqual({ cumulativeDistances: [0], totalDistance: 0 });
+    expect(createRouteIndex([])).toEqual({ cumulativeDistances: [], totalDistance: 0 });
+  });
+});
+
+describe('locateOnRoute', () => {
+  it('interpolates within a segment', () => {
+    const route = straightRoute(3);
+    const index = createRouteIndex(route);
+    const position = locateOnRoute(route, index, index.cumulativeDistances[1] / 2);
+    expect(position.segmentIndex).toBe(0);
+    expect(position.coordinate.lng).toBeCloseTo(0.0005, 9);
+  });
+
+  it('clamps distances before the start and past the end', () => {
+    const route = straightRoute(3);
+    const index = createRouteIndex(route);
+    expect(locateOnRoute(route, index, -10)).toEqual({ coordinate: route[0], segmentIndex: 0, distance: 0 });
+    expect(locateOnRoute(route, index, index.totalDistance + 10)).toEqual({
+      coordinate: route[2],
+      segmentIndex: 2,
+      distance: index.totalDistance
+    });
+  });
+
+  it('skips zero-length segments', () => {
+    const route = [{ lat: 0, lng: 0 }, { lat: 0, lng: 0.001 }, { lat: 0, lng: 0.001 }, { lat: 0, lng: 0.002 }];
+    const index = createRouteIndex(route);
+    expect(index.cumulativeDistances[1]).toBe(index.cumulativeDistances[2]);
+
+    const position = locateOnRoute(route, index, index.cumulativeDistances[1] + 10);
+    expect(position.segmentIndex).toBe(2);
+    expect(Number.isFinite(position.coordinate.lng)).toBe(true);
+    expect(position.coordinate.lng).toBeGreaterThan(0.001);
+  });
+
+  it('finds the right segment on a long route', () => {
+    const route = straightRoute(10000);
+    const index = createRouteIndex(route);
+    for (const segment of [0, 1, 4999, 9997, 9998]) {
+      const distance = (index.cumulativeDistances[segment] + index.cumulativeDistances[segment + 1]) / 2;
+      const position = locateOnRoute(route, index, distance);
+      expect(position.segmentIndex).toBe(segment);
+      expect(position.coordinate.lng).toBeCloseTo((segment + 0.5) * 0.001, 6);
+    }
+  });
+});
+
+describe('getNextWalkingState', () => {
+  it('ignores transitions that are not allowed', () => {
+    expect(getNextWalkingState('stopped', 'pause')).toBeNull();
+    expect(getNextWalkingState('walking', 'resume')).toBeNull();
+    expect(getNextWalkingState('paused', 'start')).toBeNull();
+  });
+});
+
+describe('WalkSimulator', () => {
+  const createSimulator = (route = straightRoute(3)) => {
+    const manualClock = createManualClock();
+    // 3.6 km/h is one meter per second
+    const simulator = new WalkSimulator(route, { pace: 3.6, tickInterval: 1000, clock: manualClock.clock });
+    const events: WalkSimulatorEvent[] = [];
+    simulator.subscribe(event => events.push(event));
+    const states = () => events.flatMap(event => (event.type === 'state' ? [event.state] : []));
+    return { simulator, manualClock, events, states };
+  };
+
+  it('walks one tick at a time once started', () => {
+    const { simulator, manualClock } = createSimulator();
+    expect(simulator.start()).toBe(true);
+    expect(simulator.getState()).toBe('walking');
+
+    manualClock.advance(5);
+    expect(simulator.getPosition().distance).toBeCloseTo(5, 6);
+  });
+
+  it('stands still while paused and carries on after resuming', () => {
+    const { simulator, manualClock, states } = createSimulator();
+    simulator.start();
+    manualClock.advance(3);
+
+    expect(simulator.pause()).toBe(true);
+    expect(manualClock.isRunning()).toBe(false);
+    manualClock.advance(10);
+    expect(simulator.getPosition().distance).toBeCloseTo(3, 6);
+
+    expect(simulator.resume()).toBe(true);
+    manualClock.advance(2);
+    expect(simulator.getPosition().distance).toBeCloseTo(5, 6);
+    expect(states()).toEqual(['walking', 'paused', 'walking']);
+  });
+
+  it('rejects transitions from the wrong state', () => {
+    const { simulator } = createSimulator();
+    expect(simulator.pause()).toBe(false);
+    expect(simulator.resume()).toBe(false);
+    simulator.start();
+    expect(simulator.start()).toBe(false);
+  });
+
+  it('finishes and stops its timer at the end of the route', () => {
+    const { simulator, manualClock, events, states } = createSimulator();
+    const total = simulator.routeIndex.totalDistance;
+    simulator.start();
+    manualClock.advance(Math.ceil(total) + 5);
+
+    expect(simulator.getState()).toBe('stopped');
+    expect(manualClock.isRunning()).toBe(false);
+    expect(simulator.getPosition().distance).toBe(total);
+    expect(events.filter(event => event.type === 'finished')).toHaveLength(1);
+    expect(states()).toEqual(['walking', 'stopped']);
+  });
+
+  it('steps one vertex at a time through a paused walk', () => {
+    const { simulator } = createSimulator(straightRoute(4));
+    const { cumulativeDistances } = simulator.routeIndex;
+    simulator.start();
+    simulator.pause();
+
+    for (const vertex of [1, 2]) {
+      expect(simulator.stepSegment()).toBe(true);
+      expect(simulator.getPosition().distance).toBe(cumulativeDistances[vertex]);
+      expect(simulator.getState()).toBe('paused');
+    }
+    expect(simulator.stepSegment()).toBe(true);
+    expect(simulator.getPosition().distance).toBe(cumulativeDistances[3]);
+    expect(simulator.getState()).toBe('stopped');
+  });
+
+  it('steps past zero-length segments to the next vertex further along', () => {
+    const route = [{ lat: 0, lng: 0 }, { lat: 0, lng: 0.001 }, { lat: 0, lng: 0.001 }, { lat: 0, lng: 0.002 }];
+    const { simulator } = createSimulator(route);
+    simulator.start();
+    simulator.pause();
+
+    simulator.stepSegment();
+    simulator.stepSegment();
+    expect(simulator.getPosition().distance).toBe(simulator.routeIndex.totalDistance);
+  });
+
+  it('only steps while paused', () => {
+    const { simulator } = createSimulator();
+    expect(simulator.stepSegment()).toBe(false);
+    simulator.start();
+    expect(simulator.step()).toBe(false);
+    expect(simulator.stepSegment()).toBe(false);
+  });
+
+  it('starts part way along the route', () => {
+    const { simulator } = createSimulator();
+    simulator.start(150);
+    expect(simulator.getPosition().segmentIndex).toBe(1);
+    expect(simulator.getPosition().distance).toBe(150);
+  });
+
+  it('finishes straight away when started at the end of the route', () => {
+    const { simulator, manualClock, events, states } = createSimulator();
+    simulator.start(simulator.routeIndex.totalDistance + 50);
+
+    expect(simulator.getState()).toBe('stopped');
+    expect(manualClock.isRunning()).toBe(false);
+    expect(events.filter(event => event.type === 'finished')).toHaveLength(1);
+    expect(states()).toEqual(['walking', 'stopped']);
+  });
+});
@@ -0,0 +1,304 @@
+import type { Coordinate } from './types';
+import { calculateDistance } from './geo';
+import { createElevationIndex, getGradeAt, toblerSpeedFactor, type PaceModel, type RouteElevationIndex } from './elevation';
+
+// Walking state enum
+export type WalkingState = 'stopped' | 'walking' | 'paused';
+
+export type WalkAction = 'start' | 'pause' | 'resume' | 'stop' | 'finish';
+
+// Allowed state transitions; anything missing here is ignored
+const WALK_TRANSITIONS: Record<WalkingState, Partial<Record<WalkAction, WalkingState>>> = {
+  stopped: { start: 'walking' },
+  walking: { pause: 'paused', stop: 'stopped', finish: 'stopped' },
+  paused: { resume: 'walking', stop: 'stopped', finish: 'stopped' }
+};
+
+export const getNextWalkingState = (state: WalkingState, action: WalkAction): WalkingState | null =>
+  WALK_TRANSITIONS[state][action] ?? null;
+
+// Time source for the simulation, injectable so it can run without real timers
+export interface WalkClock {
+  now: () => number;
+  setInterval: (callback: () => void, ms: number) => unknown;
+  clearInterval: (handle: unknown) => void;
+}
+
+export const systemClock: WalkClock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: handle => clearInterval(handle as ReturnType<typeof setInterval>)
+};
+
+// Cumulative distance from the route start to each coordinate, in meters
+export interface RouteIndex {
+  cumulativeDistances: number[];
+  totalDistance: number;
+  // Only there when every coordinate has an elevation
+  elevation?: RouteElevationIndex;
+}
+
+export const createRouteIndex = (coordinates: Coordinate[]): RouteIndex => {
+  const cumulativeDistances = new Array<number>(coordinates.length);
+  let totalDistance = 0;
+  for (let i = 0; i < coordinates.length; i++) {
+    if (i > 0) {
+      totalDistance += calculateDistance(coordinates[i - 1], coordinates[i]);
+    }
+    cumulativeDistances[i] = totalDistance;
+  }
+  const elevation = createElevationIndex(coordinates);
+  return elevation ? { cumulativeDistances, totalDistance, elevation } : { cumulativeDistances, totalDistance };
+};
+
+export interface RoutePosition {
+  coordinate: Coordinate;
+  // Index of the coordinate that starts the segment being walked
+  segmentIndex: number;
+  // Meters from the route start
+  distance: number;
+}
+
+// Find the interpolated position at a distance along the route using binary search
+export const locateOnRoute = (coordinates: Coordinate[], index: RouteIndex, distance: number): RoutePosition => {
+  const { cumulativeDistances, totalDistance } = index;
+  const lastIndex = coordinates.length - 1;
+
+  if (lastIndex <= 0 || distance <= 0) {
+    return { coordinate: coordinates[0], segmentIndex: 0, distance: Math.max(0, Math.min(distance, totalDistance)) };
+  }
+  if (distance >= totalDistance) {
+    return { coordinate: coordinates[lastIndex], segmentIndex: lastIndex, distance: totalDistance };
+  }
+
+  // First segment whose end lies at or beyond the distance; zero-length segments are skipped naturally
+  let low = 0;
+  let high = lastIndex - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cumulativeDistances[mid + 1] >= distance) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  const segmentStart = cumulativeDistances[low];
+  const segmentLength = cumulativeDistances[low + 1] - segmentStart;
+  const progress = segmentLength > 0 ? (distance - segmentStart) / segmentLength : 0;
+  const coord1 = coordinates[low];
+  const coord2 = coordinates[low + 1];
+
+  return {
+    coordinate: {
+      lng: coord1.lng + (coord2.lng - coord1.lng) * progress,
+      lat: coord1.lat + (coord2.lat - coord1.lat) * progress
+    },
+    segmentIndex: low,
+    distance
+  };
+};
+
+export type WalkSimulatorEvent =
+  | { type: 'state'; state: WalkingState; previousState: WalkingState }
+  // isJump is set when the walker was placed somewhere rather than walking there
+  | { type: 'position'; position: RoutePosition; time: number; isJump: boolean }
+  | { type: 'segment'; segmentIndex: number; previousSegmentIndex: number }
+  | { type: 'finished'; position: RoutePosition };
+
+export type WalkSimulatorListener = (event: WalkSimulatorEvent) => void;
+
+export interface WalkSimulatorOptions {
+  // Walking pace in km/h
+  pace: number;
+  // How the pace responds to hills; constant unless set
+  paceModel?: PaceModel;
+  // Milliseconds between position updates
+  tickInterval?: number;
+  // How many times faster than real time the walk is simulated; the pace itself is unchanged
+  timeScale?: number;
+  clock?: WalkClock;
+}
+
+export const DEFAULT_TICK_INTERVAL = 1000;
+
+export const SIMULATION_SPEEDS = [1, 2, 5, 10, 25, 50];
+
+// Moves a walker along a route at a given pace, independent of any UI framework
+export class WalkSimulator {
+  readonly coordinates: Coordinate[];
+  readonly routeIndex: RouteIndex;
+  readonly tickInterval: number;
+  private readonly clock: WalkClock;
+  private readonly listeners = new Set<WalkSimulatorListener>();
+  private state: WalkingState = 'stopped';
+  private pace: number;
+  private paceModel: PaceModel;
+  private timeScale: number;
+  private position: RoutePosition;
+  private intervalHandle: unknown = null;
+
+  constructor(coordinates: Coordinate[], options: WalkSimulatorOptions) {
+    if (coordinates.length === 0) {
+      throw new Error('WalkSimulator needs at least one coordinate');
+    }
+    this.coordinates = coordinates;
+    this.routeIndex = createRouteIndex(coordinates);
+    this.tickInterval = options.tickInterval ?? DEFAULT_TICK_INTERVAL;
+    this.clock = options.clock ?? systemClock;
+    this.pace = options.pace;
+    this.paceModel = options.paceModel ?? 'constant';
+    this.timeScale = options.timeScale ?? 1;
+    this.position = locateOnRoute(coordinates, this.routeIndex, 0);
+  }
+
+  subscribe(listener: WalkSimulatorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): WalkingState {
+    return this.state;
+  }
+
+  getPosition(): RoutePosition {
+    return this.position;
+  }
+
+  getPace(): number {
+    return this.pace;
+  }
+
+  setPace(pace: number) {
+    this.pace = pace;
+  }
+
+  setPaceModel(paceModel: PaceModel) {
+    this.paceModel = paceModel;
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  setTimeScale(timeScale: number) {
+    this.timeScale = timeScale;
+  }
+
+  // Pace in km/h at the current position, slowed or sped up by the grade under the grade-adjusted model
+  getEffectivePace(): number {
+    if (this.paceModel !== 'tobler') return this.pace;
+    const grade = getGradeAt(this.routeIndex, this.position.distance);
+    return grade === null ? this.pace : this.pace * toblerSpeedFactor(grade);
+  }
+
+  // Start from the beginning of the route, or part way along it when resuming a walk.
+  // Starting at or past the end finishes the walk straight away.
+  start(fromDistance = 0): boolean {
+    if (!this.transition('start')) return false;
+    this.startTimer();
+    this.advanceTo(fromDistance, true);
+    return true;
+  }
+
+  pause(): boolean {
+    if (!this.transition('pause')) return false;
+    this.stopTimer();
+    return true;
+  }
+
+  resume(): boolean {
+    if (!this.transition('resume')) return false;
+    this.startTimer();
+    return true;
+  }
+
+  stop(): boolean {
+    if (!this.transition('stop')) return false;
+    this.stopTimer();
+    return true;
+  }
+
+  // Advance by one tick's worth of walking at the current pace
+  tick() {
+    if (this.state !== 'walking') return;
+    this.advanceTo(this.position.distance + this.getTickDistance());
+  }
+
+  // Walk a single tick while paused, for stepping through a route
+  step(): boolean {
+    if (this.state !== 'paused') return false;
+    this.advanceTo(this.position.distance + this.getTickDistance());
+    return true;
+  }
+
+  // Jump to the next route vertex ahead of the walker while paused.
+  // A walker standing on a vertex counts as still on the segment before it, so search by distance.
+  stepSegment(): boolean {
+    if (this.state !== 'paused') return false;
+    const { cumulativeDistances, totalDistance } = this.routeIndex;
+    const nextVertex = cumulativeDistances.find(distance => distance > this.position.distance);
+    this.advanceTo(nextVertex ?? totalDistance, true);
+    return true;
+  }
+
+  // Move the walker to a distance along the route, walking or paused
+  seek(distance: number): boolean {
+    if (this.state === 'stopped') return false;
+    this.advanceTo(Math.max(0, Math.min(distance, this.routeIndex.totalDistance)), true);
+    return true;
+  }
+
+  private getTickDistance(): number {
+    const speed = this.getEffectivePace() / 3.6; // Convert km/h to m/s
+    return speed * (this.tickInterval / 1000) * this.timeScale;
+  }
+
+  private advanceTo(distance: number, isJump = false) {
+    this.moveTo(distance, isJump);
+
+    if (this.position.distance >= this.routeIndex.totalDistance) {
+      this.stopTimer();
+      this.transition('finish');
+      this.emit({ type: 'finished', position: this.position });
+    }
+  }
+
+  private moveTo(distance: number, isJump: boolean) {
+    const previousSegmentIndex = this.position.segmentIndex;
+    this.position = locateOnRoute(this.coordinates, this.routeIndex, distance);
+
+    if (this.position.segmentIndex !== previousSegmentIndex) {
+      this.emit({ type: 'segment', segmentIndex: this.position.segmentIndex, previousSegmentIndex });
+    }
+    this.emit({ type: 'position', position: this.position, time: this.clock.now(), isJump });
+  }
+
+  private transition(action: WalkAction): boolean {
+    const nextState = getNextWalkingState(this.state, action);
+    if (!nextState) return false;
+
+    const previousState = this.state;
+    this.state = nextState;
+    this.emit({ type: 'state', state: nextState, previousState });
+    return true;
+  }
+
+  private startTimer() {
+    this.stopTimer();
+    this.intervalHandle = this.clock.setInterval(() => this.tick(), this.tickInterval);
+  }
+
+  private stopTimer() {
+    if (this.intervalHandle !== null) {
+      this.clock.clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  private emit(event: WalkSimulatorEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
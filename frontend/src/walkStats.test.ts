@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { WalkRecording, WalkTick } from './walkRecording';
+import { computeWalkStats, computeWalkSummary, getWalkedSpeed } from './walkStats';
+
+const tick = (seconds: number, distance: number, details: Partial<WalkTick> = {}): WalkTick => ({
+  time: seconds * 1000,
+  coordinate: { lat: 0, lng: 0 },
+  segmentIndex: 0,
+  distance,
+  pace: 3.6,
+  state: 'walking',
+  ...details
+});
+
+const recordingOf = (ticks: WalkTick[]): WalkRecording => ({ ticks, narrations: [] });
+
+describe('getWalkedSpeed', () => {
+  it('divides the distance walked by the time taken', () => {
+    expect(getWalkedSpeed(recordingOf([tick(0, 0), tick(1, 1), tick(2, 2), tick(3, 3)]))).toBeCloseTo(1, 9);
+  });
+
+  it('times a sped-up simulation in simulated time', () => {
+    const ticks = [tick(0, 0, { timeScale: 10 }), tick(1, 10, { timeScale: 10 }), tick(2, 20, { timeScale: 10 })];
+    expect(getWalkedSpeed(recordingOf(ticks))).toBeCloseTo(1, 9);
+  });
+
+  it('leaves out the start offset and seeks', () => {
+    const ticks = [
+      tick(0, 0),
+      tick(0, 500, { isJump: true }),
+      tick(1, 501),
+      tick(2, 502),
+      tick(2.1, 900, { isJump: true }),
+      tick(3.1, 901)
+    ];
+    expect(getWalkedSpeed(recordingOf(ticks))).toBeCloseTo(1, 9);
+  });
+
+  it('leaves out time spent paused', () => {
+    const ticks = [tick(0, 0), tick(1, 1), tick(1, 1, { state: 'paused' }), tick(60, 1), tick(61, 2)];
+    expect(getWalkedSpeed(recordingOf(ticks))).toBeCloseTo(1, 9);
+  });
+
+  it('is null before the walker has moved', () => {
+    expect(getWalkedSpeed(recordingOf([tick(0, 0)]))).toBeNull();
+  });
+});
+
+describe('computeWalkSummary', () => {
+  it('reports the simulated pace for a walk started part way along', () => {
+    const ticks = [tick(0, 0, { timeScale: 5 }), tick(0, 1000, { timeScale: 5, isJump: true })];
+    for (let i = 1; i <= 10; i++) ticks.push(tick(i, 1000 + i * 5, { timeScale: 5 }));
+
+    const summary = computeWalkSummary(recordingOf(ticks), [], 2000, 1050);
+    expect(summary?.averagePace).toBeCloseTo(3.6, 9);
+  });
+});
+
+describe('computeWalkStats', () => {
+  it('times moving and pace alike in a sped-up simulation', () => {
+    const ticks = [tick(0, 0, { timeScale: 10 }), tick(1, 10, { timeScale: 10 }), tick(2, 20, { timeScale: 10 })];
+    const stats = computeWalkStats({
+      recording: recordingOf(ticks),
+      transcript: [],
+      totalDistance: 100,
+      distanceWalked: 20,
+      currentPace: null,
+      startTime: 0,
+      now: 32000
+    });
+
+    expect(stats.movingSeconds).toBeCloseTo(20, 9);
+    expect(stats.averagePace).toBeCloseTo(3.6, 9);
+    // 20 simulated seconds of walking, then 30 seconds by the clock after it
+    expect(stats.elapsedSeconds).toBeCloseTo(50, 9);
+  });
+});
@@ -0,0 +1,115 @@
+import type { AIResponse } from './types';
+import { getRecordingSpan, type WalkRecording } from './walkRecording';
+
+export interface WalkStats {
+  totalDistance: number;
+  distanceWalked: number;
+  distanceRemaining: number;
+  // Share of the route walked, from 0 to 1
+  progress: number;
+  elapsedSeconds: number;
+  // Time spent actually moving, leaving out pauses
+  movingSeconds: number;
+  // Average km/h over the moving time, or null before the walker has moved
+  averagePace: number | null;
+  // Seconds to the end of the route at the current pace, or null when not moving
+  etaSeconds: number | null;
+  narrationCount: number;
+  questionCount: number;
+}
+
+export interface WalkStatsInput {
+  recording: WalkRecording;
+  transcript: AIResponse[];
+  totalDistance: number;
+  distanceWalked: number;
+  // km/h the walker is going at right now
+  currentPace: number | null;
+  startTime: number;
+  now: number;
+}
+
+interface WalkedTime {
+  // Meters walked between ticks
+  distance: number;
+  // Seconds spent walking them, in simulated time
+  seconds: number;
+  // The same stretch by the clock, which a sped-up simulation gets through faster
+  clockSeconds: number;
+}
+
+// Add up the stretches between ticks during which the walker moved along the route.
+// Seeks and the start offset are left out, and a sped-up simulation is timed in simulated
+// time so it reports the pace being simulated.
+const getWalkedTime = (recording: WalkRecording): WalkedTime => {
+  const walked: WalkedTime = { distance: 0, seconds: 0, clockSeconds: 0 };
+  for (let i = 1; i < recording.ticks.length; i++) {
+    const previous = recording.ticks[i - 1];
+    const tick = recording.ticks[i];
+    if (previous.state === 'walking' && !tick.isJump && tick.distance > previous.distance) {
+      const clockSeconds = (tick.time - previous.time) / 1000;
+      walked.distance += tick.distance - previous.distance;
+      walked.seconds += clockSeconds * (tick.timeScale ?? 1);
+      walked.clockSeconds += clockSeconds;
+    }
+  }
+  return walked;
+};
+
+// Time spent actually moving, in the same simulated time as getWalkedSpeed
+export const getMovingSeconds = (recording: WalkRecording): number => getWalkedTime(recording).seconds;
+
+// Meters per second actually walked between ticks
+export const getWalkedSpeed = (recording: WalkRecording): number | null => {
+  const { distance, seconds } = getWalkedTime(recording);
+  return seconds > 0 ? distance / seconds : null;
+};
+
+export const computeWalkStats = ({
+  recording,
+  transcript,
+  totalDistance,
+  distanceWalked,
+  currentPace,
+  startTime,
+  now
+}: WalkStatsInput): WalkStats => {
+  const walked = Math.min(distanceWalked, totalDistance);
+  const distanceRemaining = Math.max(0, totalDistance - walked);
+  const walkedTime = getWalkedTime(recording);
+  const speed = currentPace !== null && currentPace > 0 ? currentPace / 3.6 : null;
+
+  return {
+    totalDistance,
+    distanceWalked: walked,
+    distanceRemaining,
+    progress: totalDistance > 0 ? walked / totalDistance : 0,
+    // Pauses count by the clock and walking in simulated time, so elapsed never trails moving time
+    elapsedSeconds: Math.max(0, (now - startTime) / 1000 + walkedTime.seconds - walkedTime.clockSeconds),
+    movingSeconds: walkedTime.seconds,
+    averagePace: walkedTime.seconds > 0 ? (walkedTime.distance / walkedTime.seconds) * 3.6 : null,
+    etaSeconds: speed !== null ? distanceRemaining / speed : null,
+    narrationCount: transcript.filter(response => !response.question).length,
+    questionCount: transcript.filter(response => response.question).length
+  };
+};
+
+// Statistics for a finished walk, timed from its recording rather than the clock
+export const computeWalkSummary = (
+  recording: WalkRecording,
+  transcript: AIResponse[],
+  totalDistance: number,
+  distanceWalked: number
+): WalkStats | null => {
+  const span = getRecordingSpan(recording);
+  if (!span) return null;
+  return computeWalkStats({
+    recording,
+    transcript,
+    totalDistance,
+    distanceWalked,
+    currentPace: null,
+    startTime: span.start,
+    now: span.end
+  });
+};
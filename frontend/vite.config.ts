@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // system_prompt.txt lives next to the LangFlow files at the repo root
+      allow: ['..'],
+    },
+  },
 })